@@ -1,13 +1,73 @@
-import type { CommentAnchor, CommentThread, MarkdownRange, TextContext } from './models/types';
+import type {
+  AnchorStrategy,
+  BlockType,
+  CodeLineRef,
+  CommentAnchor,
+  CommentThread,
+  MarkdownRange,
+  MarkdownSection,
+  TableCellRef,
+  TextContext,
+} from './models/types';
+import { mapLine, type DiffHunk } from './utils/diffHunks';
+import { editDistance, findApproximateMatches, similarity } from './utils/fuzzyMatch';
+import { slugify } from './utils/hash';
+import {
+  findImageSyntax,
+  findSectionBySlug,
+  hasContentDrifted,
+  parseFencedCodeBlocks,
+  parseImageSyntax,
+  parseMarkdownSections,
+  parseMarkdownTables,
+  type MarkdownTable,
+} from './utils/markdown';
 
 const CONTEXT_CHARS = 40;
 const SEARCH_WINDOW = 500;
 
+/** Above this many selected × document characters, fuzzy matching does not search the whole document. */
+const MAX_GLOBAL_FUZZY_CELLS = 10_000_000;
+
+/** Default for the `markdownReview.anchorConfidenceThreshold` setting. */
+export const DEFAULT_MIN_CONFIDENCE = 0.75;
+
+/** How much the selected text counts in a fuzzy match's confidence, relative to each side of context. */
+const TEXT_WEIGHT = 2;
+const CONTEXT_WEIGHT = 1;
+
+/** Where an anchor was found, and how sure we are it is the same text. */
+export interface AnchorMatch extends MarkdownRange {
+  /** Which strategy found it */
+  strategy: AnchorStrategy;
+  /**
+   * 1 when the text is still at its recorded offsets. Otherwise the
+   * similarity of the found text and its surroundings to the recorded ones,
+   * so a global match on a common word in different context scores low.
+   */
+  confidence: number;
+}
+
+/** What {@link AnchorEngine.detectStaleThreads} knows besides the current text. */
+export interface StaleDetectionContext {
+  /** The commit whose version of the document is the current text, when it is committed as is */
+  commit?: string;
+  /** Locations found through the git history for anchors whose text is gone, by thread id */
+  relocated?: Map<string, AnchorMatch>;
+}
+
 /**
  * Engine for anchoring comments to selected text ranges in markdown.
  * Supports fuzzy re-anchoring when document content has been edited.
  */
 export class AnchorEngine {
+  /**
+   * Whole-document fuzzy matches for the last text searched, by anchor. The
+   * preview, stale detection and editor decorations re-anchor the same
+   * threads in the same text, and a thread that failed stays failed.
+   */
+  private globalFuzzy = { source: '', matches: new Map<string, AnchorMatch | null>() };
+
 
   /**
    * Extract surrounding context (~40 chars) from the raw markdown source.
@@ -39,6 +99,154 @@ export class AnchorEngine {
     };
   }
 
+  /**
+   * Anchor a comment to a whole section. The anchor selects the heading text
+   * and is found again by the heading's slug, however the section's text is
+   * rewritten.
+   */
+  createSectionAnchor(section: MarkdownSection, source: string): CommentAnchor {
+    const startOffset = headingOffset(source, section);
+    const endOffset = startOffset + section.heading.length;
+    return {
+      kind: 'section',
+      section: { slug: section.slug, contentHash: section.contentHash },
+      selectedText: section.heading,
+      textContext: this.extractContext(source, startOffset, endOffset),
+      markdownRange: { startOffset, endOffset },
+    };
+  }
+
+  /**
+   * Anchor a comment to a whole block spanning 0-based lines
+   * `[startLine, endLine)`. The block's text is re-anchored like selected
+   * text. Null when the lines hold no text.
+   */
+  createBlockAnchor(blockType: BlockType, startLine: number, endLine: number, source: string): CommentAnchor | null {
+    const starts = lineStarts(source);
+    if (startLine < 0 || startLine >= starts.length || endLine <= startLine) { return null; }
+    let endOffset = endLine < starts.length ? starts[endLine] : source.length;
+    while (endOffset > starts[startLine] && /\s/.test(source[endOffset - 1])) { endOffset--; }
+    return endOffset > starts[startLine] ? this.blockAnchorAt(blockType, starts[startLine], endOffset, source) : null;
+  }
+
+  /**
+   * Anchor a comment to the `index`-th image on 0-based `line`. The image's
+   * markdown is re-anchored like selected text. Null when there is no such image.
+   */
+  createImageAnchor(line: number, index: number, source: string): CommentAnchor | null {
+    const image = findImageSyntax(source, line, index);
+    if (!image) { return null; }
+    return { ...this.blockAnchorAt('image', image.start, image.end, source), image: { src: image.src, alt: image.alt } };
+  }
+
+  /**
+   * Anchor a comment to 0-based source `line` inside a fenced code block.
+   * The anchor selects the line's text without its indentation and records
+   * which block and line it is. Its context is the neighbouring lines of the
+   * block rather than a fixed number of characters, so the line is found
+   * again when the block is re-indented or moved. Null when the line is
+   * blank or not code.
+   */
+  createCodeLineAnchor(line: number, source: string): CommentAnchor | null {
+    const codeLine = codeLineRef(source, line);
+    const range = codeLine && trimmedLine(source, lineStarts(source), line);
+    if (!codeLine || !range) { return null; }
+    return {
+      kind: 'codeLine',
+      codeLine,
+      selectedText: source.slice(range.startOffset, range.endOffset),
+      textContext: codeLineContext(source, range),
+      markdownRange: range,
+    };
+  }
+
+  /**
+   * Anchor a comment to the `column`-th cell of the table row on 0-based
+   * source `line`. The anchor selects the cell's text and records the cell's
+   * table, row and column with its column and row headers, which find it
+   * again when rows or columns are inserted. Null when there is no such
+   * cell or it is empty.
+   */
+  createTableCellAnchor(line: number, column: number, source: string): CommentAnchor | null {
+    const tables = parseMarkdownTables(source);
+    const table = tables.findIndex(t => t.rows.some(r => r.line === line));
+    const row = table === -1 ? -1 : tables[table].rows.findIndex(r => r.line === line);
+    const cell = tables[table]?.rows[row]?.cells[column];
+    if (!cell?.text) { return null; }
+    return {
+      kind: 'tableCell',
+      tableCell: tableCellRef(tables[table], table, row, column),
+      selectedText: cell.text,
+      textContext: this.extractContext(source, cell.start, cell.end),
+      markdownRange: { startOffset: cell.start, endOffset: cell.end },
+    };
+  }
+
+  private blockAnchorAt(blockType: BlockType, startOffset: number, endOffset: number, source: string): CommentAnchor {
+    return {
+      kind: 'block',
+      blockType,
+      selectedText: source.slice(startOffset, endOffset),
+      textContext: this.extractContext(source, startOffset, endOffset),
+      markdownRange: { startOffset, endOffset },
+    };
+  }
+
+  /**
+   * Anchor for a general comment on the whole document. It selects no text,
+   * so it is never re-anchored, highlighted or marked stale.
+   */
+  createDocumentAnchor(): CommentAnchor {
+    return {
+      kind: 'document',
+      selectedText: '',
+      textContext: { prefix: '', suffix: '' },
+      markdownRange: { startOffset: 0, endOffset: 0 },
+    };
+  }
+
+  /**
+   * What to store when a reviewer confirms `anchor` at `match`: a fresh
+   * anchor of the same kind there. A section anchor also takes the section's
+   * current content hash. Null when `match` is not on a section heading, or
+   * for a code line or table cell anchor, not in a code block or table cell.
+   */
+  confirmedAnchor(anchor: CommentAnchor, match: MarkdownRange, source: string): CommentAnchor | null {
+    const { startOffset, endOffset } = match;
+    if (anchor.kind === 'section') {
+      const section = parseMarkdownSections(source).find(s => headingOffset(source, s) === startOffset);
+      return section ? this.createSectionAnchor(section, source) : null;
+    }
+    if (anchor.kind === 'codeLine') {
+      return this.createCodeLineAnchor(lineOf(source, startOffset), source);
+    }
+    if (anchor.kind === 'tableCell') {
+      const at = tableCellAt(source, startOffset);
+      return at ? this.createTableCellAnchor(at.line, at.ref.column, source) : null;
+    }
+    if (anchor.kind === 'block' && anchor.blockType) {
+      const fresh = this.blockAnchorAt(anchor.blockType, startOffset, endOffset, source);
+      const image = anchor.blockType === 'image' ? parseImageSyntax(fresh.selectedText) : undefined;
+      if (image) { fresh.image = image; }
+      if (anchor.region) { fresh.region = anchor.region; }
+      return fresh;
+    }
+    // The text as it reads now becomes the anchor; edited text has no captured rendered form
+    const text = source.slice(startOffset, endOffset);
+    const displayText = anchor.strategy === 'fuzzy' ? text : anchor.displayText ?? text;
+    return this.createAnchor(text, startOffset, endOffset, source, displayText);
+  }
+
+  /**
+   * Whether a section anchor's section changed since the comment was made.
+   * False for other anchors, and when the section is gone.
+   */
+  sectionChanged(anchor: CommentAnchor, source: string): boolean {
+    if (anchor.kind !== 'section' || !anchor.section) { return false; }
+    const section = findSectionBySlug(parseMarkdownSections(source), anchor.section.slug);
+    return !!section && hasContentDrifted(section, anchor.section.contentHash);
+  }
+
   /**
    * Try to re-anchor a comment's selected text in the (possibly edited)
    * markdown source. Returns updated offsets or null if the text can no
@@ -50,13 +258,162 @@ export class AnchorEngine {
    * 3. prefix + text + suffix concatenation
    * 4. prefix + text  OR  text + suffix
    * 5. Global exact-text search
+   * 6. Fuzzy match near the original position, then anywhere (in documents
+   *    of bounded size), scored on the selected text and its context (see
+   *    {@link fuzzyMatch})
+   *
+   * When all of these fail, callers with access to the git history can still
+   * try {@link followHistory}. Section anchors are found by their heading
+   * instead (see {@link sectionMatch}), code line anchors among the lines
+   * of code blocks (see {@link codeLineMatch}) and table cell anchors among
+   * the cells of tables (see {@link tableCellMatch}); document anchors have
+   * no place in the text, so they are never found.
+   *
+   * @param minConfidence Fuzzy matches scoring below this are rejected.
+   */
+  anchorComment(anchor: CommentAnchor, currentSource: string, minConfidence = DEFAULT_MIN_CONFIDENCE): AnchorMatch | null {
+    if (anchor.kind === 'document') { return null; }
+    if (anchor.kind === 'section') {
+      return this.sectionMatch(anchor, currentSource, minConfidence);
+    }
+    if (anchor.kind === 'codeLine') {
+      return this.codeLineMatch(anchor, currentSource, minConfidence);
+    }
+    if (anchor.kind === 'tableCell') {
+      return this.tableCellMatch(anchor, currentSource, minConfidence);
+    }
+    return this.textMatch(anchor, currentSource, minConfidence);
+  }
+
+  /** Strategies 1–6 */
+  private textMatch(anchor: CommentAnchor, currentSource: string, minConfidence: number): AnchorMatch | null {
+    const exact = this.exactMatch(anchor, currentSource);
+    if (exact) {
+      const { range, strategy } = exact;
+      const confidence = strategy === 'offsets' ? 1 : this.scoreCandidate(anchor, currentSource, range, 0);
+      return { ...range, strategy, confidence };
+    }
+    return this.fuzzyMatch(anchor, currentSource, minConfidence);
+  }
+
+  /**
+   * Section anchors: the heading with the anchor's slug, wherever it is now.
+   * Failing that (the heading was reworded), the heading text is searched
+   * for like selected text, but only a match on a heading counts.
    */
-  anchorComment(anchor: CommentAnchor, currentSource: string): MarkdownRange | null {
+  private sectionMatch(anchor: CommentAnchor, currentSource: string, minConfidence: number): AnchorMatch | null {
+    const sections = parseMarkdownSections(currentSource);
+    const bySlug = anchor.section && findSectionBySlug(sections, anchor.section.slug);
+    if (bySlug) {
+      const startOffset = headingOffset(currentSource, bySlug);
+      const endOffset = startOffset + bySlug.heading.length;
+      const inPlace = startOffset === anchor.markdownRange.startOffset && endOffset === anchor.markdownRange.endOffset;
+      return { startOffset, endOffset, strategy: inPlace ? 'offsets' : 'heading', confidence: 1 };
+    }
+
+    const match = this.textMatch(anchor, currentSource, minConfidence);
+    const line = match ? lineOf(currentSource, match.startOffset) : -1;
+    const section = sections.find(s => s.startLine === line);
+    if (!match || !section) { return null; }
+    const startOffset = headingOffset(currentSource, section);
+    return { ...match, startOffset, endOffset: startOffset + section.heading.length };
+  }
+
+  /**
+   * Code line anchors: the line of any fenced code block that best matches
+   * the line's text and the lines around it, so the thread follows its block
+   * wherever it moves. Between equally good lines, one in a block of the
+   * anchor's language wins, then the one at the recorded block and line,
+   * then the one nearest the recorded offset. An edited line must still
+   * score `minConfidence`.
+   */
+  private codeLineMatch(anchor: CommentAnchor, currentSource: string, minConfidence: number): AnchorMatch | null {
+    const { selectedText, markdownRange, codeLine } = anchor;
+    const maxErrors = Math.floor(selectedText.length * (1 - minConfidence));
+    const starts = lineStarts(currentSource);
+    let best: { match: AnchorMatch; rank: number[] } | null = null;
+
+    for (const [fence, block] of parseFencedCodeBlocks(currentSource).entries()) {
+      for (let i = 0; i < block.lineCount; i++) {
+        const range = trimmedLine(currentSource, starts, block.openLine + 1 + i);
+        const text = range && currentSource.slice(range.startOffset, range.endOffset);
+        if (!range || !text || Math.abs(text.length - selectedText.length) > maxErrors) { continue; }
+        const distance = editDistance(text, selectedText);
+        if (distance > maxErrors) { continue; }
+
+        // Scored even in place: the same line at the same offset may now be in another block
+        const inPlace = distance === 0 && range.startOffset === markdownRange.startOffset;
+        const confidence = this.scoreCandidate(anchor, currentSource, range, distance);
+        const rank = [
+          confidence,
+          block.language === codeLine?.language ? 1 : 0,
+          fence === codeLine?.fence && i === codeLine.line ? 1 : 0,
+          -Math.abs(range.startOffset - markdownRange.startOffset),
+        ];
+        if (!best || isHigher(rank, best.rank)) {
+          const strategy: AnchorStrategy = inPlace ? 'offsets' : distance === 0 ? 'global' : 'fuzzy';
+          best = { match: { ...range, strategy, confidence }, rank };
+        }
+      }
+    }
+    if (!best) { return null; }
+    const { match } = best;
+    return match.strategy !== 'fuzzy' || match.confidence >= minConfidence ? match : null;
+  }
+
+  /**
+   * Table cell anchors: the cell of any table that best matches the cell's
+   * text and its column and row headers, so the comment stays on its cell
+   * when rows or columns are inserted, and follows an edited value that
+   * keeps its headers. A cell with the same text always qualifies; an edited
+   * one must score `minConfidence`. Ties go to the recorded table, then the
+   * recorded row and column, then the cell nearest the recorded offset.
+   */
+  private tableCellMatch(anchor: CommentAnchor, currentSource: string, minConfidence: number): AnchorMatch | null {
+    const { selectedText, markdownRange, tableCell } = anchor;
+    let best: { match: AnchorMatch; rank: number[] } | null = null;
+
+    for (const [t, table] of parseMarkdownTables(currentSource).entries()) {
+      for (const [r, row] of table.rows.entries()) {
+        for (const [c, cell] of row.cells.entries()) {
+          if (!cell.text) { continue; }
+          const exact = cell.text === selectedText;
+          let score = TEXT_WEIGHT * similarity(cell.text, selectedText);
+          let weight = TEXT_WEIGHT;
+          if (tableCell) {
+            const ref = tableCellRef(table, t, r, c);
+            score += CONTEXT_WEIGHT * similarity(ref.columnHeader, tableCell.columnHeader);
+            score += CONTEXT_WEIGHT * similarity(ref.rowHeader, tableCell.rowHeader);
+            weight += 2 * CONTEXT_WEIGHT;
+          }
+          const confidence = score / weight;
+          if (!exact && confidence < minConfidence) { continue; }
+
+          const rank = [
+            confidence,
+            t === tableCell?.table ? 1 : 0,
+            r === tableCell?.row && c === tableCell.column ? 1 : 0,
+            -Math.abs(cell.start - markdownRange.startOffset),
+          ];
+          if (!best || isHigher(rank, best.rank)) {
+            const strategy: AnchorStrategy = !exact ? 'fuzzy' : cell.start === markdownRange.startOffset ? 'offsets' : 'global';
+            best = { match: { startOffset: cell.start, endOffset: cell.end, strategy, confidence }, rank };
+          }
+        }
+      }
+    }
+    return best?.match ?? null;
+  }
+
+  /** Strategies 1–5: the selected text, unchanged. */
+  private exactMatch(anchor: CommentAnchor, currentSource: string): { range: MarkdownRange; strategy: AnchorStrategy } | null {
     const { selectedText, textContext, markdownRange } = anchor;
+    const at = (start: number, strategy: AnchorStrategy) =>
+      ({ range: { startOffset: start, endOffset: start + selectedText.length }, strategy });
 
     // Strategy 1: exact match at original offsets
     if (currentSource.slice(markdownRange.startOffset, markdownRange.endOffset) === selectedText) {
-      return markdownRange;
+      return { range: { startOffset: markdownRange.startOffset, endOffset: markdownRange.endOffset }, strategy: 'offsets' };
     }
 
     // Strategy 2: search near original position (±500 chars) — pick closest match
@@ -78,16 +435,14 @@ export class AnchorEngine {
       searchFrom = idx + 1;
     }
     if (bestNearIdx !== -1) {
-      const start = windowStart + bestNearIdx;
-      return { startOffset: start, endOffset: start + selectedText.length };
+      return at(windowStart + bestNearIdx, 'nearby');
     }
 
     // Strategy 3: search with full context (prefix + text + suffix)
     const contextPattern = textContext.prefix + selectedText + textContext.suffix;
     const contextIdx = currentSource.indexOf(contextPattern);
     if (contextIdx !== -1) {
-      const start = contextIdx + textContext.prefix.length;
-      return { startOffset: start, endOffset: start + selectedText.length };
+      return at(contextIdx + textContext.prefix.length, 'context');
     }
 
     // Strategy 3b: partial context — prefix + text
@@ -95,8 +450,7 @@ export class AnchorEngine {
       const prefixPattern = textContext.prefix + selectedText;
       const prefixIdx = currentSource.indexOf(prefixPattern);
       if (prefixIdx !== -1) {
-        const start = prefixIdx + textContext.prefix.length;
-        return { startOffset: start, endOffset: start + selectedText.length };
+        return at(prefixIdx + textContext.prefix.length, 'prefix');
       }
     }
 
@@ -105,52 +459,237 @@ export class AnchorEngine {
       const suffixPattern = selectedText + textContext.suffix;
       const suffixIdx = currentSource.indexOf(suffixPattern);
       if (suffixIdx !== -1) {
-        return { startOffset: suffixIdx, endOffset: suffixIdx + selectedText.length };
+        return at(suffixIdx, 'suffix');
       }
     }
 
     // Strategy 4: global search for exact text
     const globalIdx = currentSource.indexOf(selectedText);
     if (globalIdx !== -1) {
-      return { startOffset: globalIdx, endOffset: globalIdx + selectedText.length };
+      return at(globalIdx, 'global');
     }
 
-    // Could not anchor — thread is orphaned
     return null;
   }
 
+  /**
+   * Strategy 6: the selected text within a bounded number of edits, first
+   * near the original position and then anywhere. Each candidate scores the
+   * similarity of the text and of the prefix / suffix around it, so a
+   * near-copy elsewhere with different surroundings loses to the edited
+   * original. Null when no candidate reaches `minConfidence` (orphaned).
+   *
+   * The search anywhere is skipped when the document is too large for the
+   * selected text (see {@link MAX_GLOBAL_FUZZY_CELLS}), and its result is
+   * remembered until the text changes.
+   */
+  private fuzzyMatch(anchor: CommentAnchor, currentSource: string, minConfidence: number): AnchorMatch | null {
+    const { selectedText, markdownRange } = anchor;
+    const maxErrors = Math.floor(selectedText.length * (1 - minConfidence));
+    if (maxErrors < 1) {
+      return null; // Only an exact match would do, and there is none
+    }
+
+    const windowStart = Math.max(0, markdownRange.startOffset - SEARCH_WINDOW);
+    const windowEnd = Math.min(currentSource.length, markdownRange.endOffset + SEARCH_WINDOW);
+    const near = this.bestCandidate(anchor, currentSource, windowStart, windowEnd, maxErrors);
+    if (near && near.confidence >= minConfidence) {
+      return near;
+    }
+    if (selectedText.length * currentSource.length > MAX_GLOBAL_FUZZY_CELLS) {
+      return null;
+    }
+    const anywhere = this.globalCandidate(anchor, currentSource, maxErrors);
+    return anywhere && anywhere.confidence >= minConfidence ? { ...anywhere } : null;
+  }
+
+  /** The best candidate in the whole of `source`, from {@link globalFuzzy} when known. */
+  private globalCandidate(anchor: CommentAnchor, source: string, maxErrors: number): AnchorMatch | null {
+    if (this.globalFuzzy.source !== source) {
+      this.globalFuzzy = { source, matches: new Map() };
+    }
+    const { selectedText, textContext, markdownRange } = anchor;
+    const key = JSON.stringify([selectedText, textContext.prefix, textContext.suffix, markdownRange.startOffset, maxErrors]);
+    let match = this.globalFuzzy.matches.get(key);
+    if (match === undefined) {
+      match = this.bestCandidate(anchor, source, 0, source.length, maxErrors);
+      this.globalFuzzy.matches.set(key, match);
+    }
+    return match;
+  }
+
+  private bestCandidate(
+    anchor: CommentAnchor,
+    source: string,
+    from: number,
+    to: number,
+    maxErrors: number,
+  ): AnchorMatch | null {
+    let best: AnchorMatch | null = null;
+    for (const hit of findApproximateMatches(anchor.selectedText, source.slice(from, to), maxErrors)) {
+      const range = { startOffset: from + hit.start, endOffset: from + hit.end };
+      const candidate: AnchorMatch = { ...range, strategy: 'fuzzy', confidence: this.scoreCandidate(anchor, source, range, hit.distance) };
+      const closer = best && candidate.confidence === best.confidence &&
+        Math.abs(candidate.startOffset - anchor.markdownRange.startOffset) <
+        Math.abs(best.startOffset - anchor.markdownRange.startOffset);
+      if (!best || candidate.confidence > best.confidence || closer) {
+        best = candidate;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Weighted similarity of the text (`distance` edits away from the selected
+   * text) and whichever context sides the anchor recorded.
+   */
+  private scoreCandidate(anchor: CommentAnchor, source: string, range: MarkdownRange, distance: number): number {
+    const { selectedText, textContext: { prefix, suffix } } = anchor;
+    let score = TEXT_WEIGHT * (1 - distance / selectedText.length);
+    let weight = TEXT_WEIGHT;
+    if (prefix) {
+      score += CONTEXT_WEIGHT * similarity(prefix, source.slice(Math.max(0, range.startOffset - prefix.length), range.startOffset));
+      weight += CONTEXT_WEIGHT;
+    }
+    if (suffix) {
+      score += CONTEXT_WEIGHT * similarity(suffix, source.slice(range.endOffset, range.endOffset + suffix.length));
+      weight += CONTEXT_WEIGHT;
+    }
+    return score / weight;
+  }
+
+  /**
+   * Strategy 7, for anchors whose text is gone: follow `markdownRange`
+   * through the line changes (`hunks`) between the document at
+   * `anchor.commit` (`oldSource`) and now. Unchanged lines just shift; an
+   * end of the selection inside a rewritten block moves to the edge of its
+   * replacement. Null when every selected line was deleted.
+   *
+   * The confidence is how similar the selected text is to what replaced it.
+   */
+  followHistory(anchor: CommentAnchor, oldSource: string, currentSource: string, hunks: DiffHunk[]): AnchorMatch | null {
+    // Section anchors follow their heading instead; once it is gone, so is the section.
+    // A rewritten table row no longer says which cell was which.
+    if (anchor.kind === 'section' || anchor.kind === 'tableCell') { return null; }
+    const { startOffset, endOffset } = anchor.markdownRange;
+    // The commit must have the anchored text where the anchor says (fuzzy anchors keep their original text)
+    if (anchor.strategy !== 'fuzzy' && oldSource.slice(startOffset, endOffset) !== anchor.selectedText) {
+      return null;
+    }
+    if (endOffset > oldSource.length || endOffset <= startOffset) { return null; }
+    const oldLines = lineStarts(oldSource);
+    const newLines = lineStarts(currentSource);
+    const start = positionOf(oldLines, startOffset);
+    let end = positionOf(oldLines, endOffset);
+    // A selection ending in a line break ends on the line it breaks
+    if (end.column === 0 && end.line > start.line) {
+      end = { line: end.line - 1, column: lineLength(oldSource, oldLines, end.line - 1) };
+    }
+
+    // Deleted lines at either end are dropped; the first and last surviving ones bound the range
+    let from: number | null = null;
+    for (let line = start.line; line <= end.line && from === null; line++) {
+      const mapped = mapLine(hunks, line, 'start');
+      if (mapped) {
+        from = newLines[mapped.line] + (mapped.exact && line === start.line ? start.column : 0);
+      }
+    }
+    let to: number | null = null;
+    for (let line = end.line; line >= start.line && to === null; line--) {
+      const mapped = mapLine(hunks, line, 'end');
+      if (mapped) {
+        const length = lineLength(currentSource, newLines, mapped.line);
+        to = newLines[mapped.line] + (mapped.exact && line === end.line ? Math.min(end.column, length) : length);
+      }
+    }
+    if (from === null || to === null || to <= from || !currentSource.slice(from, to).trim()) {
+      return null;
+    }
+    return {
+      startOffset: from,
+      endOffset: to,
+      strategy: 'history',
+      confidence: similarity(anchor.selectedText, currentSource.slice(from, to)),
+    };
+  }
+
   /**
    * Detect threads whose anchors have drifted or can no longer be found.
-   * Updates anchors in-place when re-anchoring succeeds at a new offset.
-   * Returns a list of status changes to apply and whether any anchors moved.
+   * Updates anchors in-place when re-anchoring succeeds at a new offset,
+   * recording the strategy and confidence on the anchor until a reviewer
+   * confirms or replaces it. Returns a list of status changes to apply and
+   * whether any anchors changed.
+   * Resolved threads keep their status; only their anchors are refreshed.
+   *
+   * A fuzzy match keeps the originally selected text in the anchor, so it is
+   * matched approximately again next time rather than passing as exact. An
+   * anchor followed through the git history (`context.relocated`) takes the
+   * text that replaced it instead. Re-located anchors record
+   * `context.commit` as the commit they are valid in, or drop a stale one.
+   * General (document) comments are skipped.
    */
   detectStaleThreads(
     currentSource: string,
     threads: CommentThread[],
-  ): { updates: { thread: CommentThread; newStatus: 'stale' | 'open' }[]; anchorsMoved: boolean } {
+    minConfidence = DEFAULT_MIN_CONFIDENCE,
+    context: StaleDetectionContext = {},
+  ): {
+    updates: { thread: CommentThread; newStatus: 'stale' | 'open' }[];
+    anchorsMoved: boolean;
+  } {
     const updates: { thread: CommentThread; newStatus: 'stale' | 'open' }[] = [];
     let anchorsMoved = false;
 
     for (const thread of threads) {
-      const result = this.anchorComment(thread.anchor, currentSource);
+      // General comments are not tied to any text
+      if (thread.anchor.kind === 'document') { continue; }
+      const result = this.anchorComment(thread.anchor, currentSource, minConfidence) ??
+        context.relocated?.get(thread.id) ?? null;
 
       if (!result) {
         // Text can no longer be found → stale / orphaned
-        if (thread.status !== 'stale') {
+        if (thread.status === 'open') {
           updates.push({ thread, newStatus: 'stale' });
         }
       } else {
         // Check if offsets moved
-        if (result.startOffset !== thread.anchor.markdownRange.startOffset ||
-            result.endOffset !== thread.anchor.markdownRange.endOffset) {
+        const moved = result.startOffset !== thread.anchor.markdownRange.startOffset ||
+          result.endOffset !== thread.anchor.markdownRange.endOffset;
+        // An in-place edit of the same length still counts as relocated the first time
+        const relocated = moved || result.strategy === 'history' ||
+          (result.strategy === 'fuzzy' && thread.anchor.strategy !== 'fuzzy');
+        if (relocated) {
+          anchorsMoved = true;
+          thread.anchor.strategy = result.strategy;
+          thread.anchor.confidence = Math.round(result.confidence * 100) / 100;
+          if (result.strategy === 'history') {
+            thread.anchor.selectedText = currentSource.slice(result.startOffset, result.endOffset);
+            delete thread.anchor.displayText;
+          }
+          if (thread.anchor.section) {
+            // A reworded heading takes the section anchor along
+            thread.anchor.selectedText = currentSource.slice(result.startOffset, result.endOffset);
+            thread.anchor.section.slug = slugify(thread.anchor.selectedText);
+          }
+          if (thread.anchor.codeLine) {
+            thread.anchor.codeLine = codeLineRef(currentSource, lineOf(currentSource, result.startOffset)) ??
+              thread.anchor.codeLine;
+          }
+          if (thread.anchor.tableCell) {
+            thread.anchor.tableCell = tableCellAt(currentSource, result.startOffset)?.ref ?? thread.anchor.tableCell;
+          }
+          stampCommit(thread.anchor, context.commit);
+        } else if (context.commit && !thread.anchor.commit) {
+          // Anchored on uncommitted text that has since been committed
           anchorsMoved = true;
+          thread.anchor.commit = context.commit;
         }
 
         // Update anchor offsets and context
-        thread.anchor.markdownRange = result;
-        thread.anchor.textContext = this.extractContext(
-          currentSource, result.startOffset, result.endOffset,
-        );
+        thread.anchor.markdownRange = { startOffset: result.startOffset, endOffset: result.endOffset };
+        thread.anchor.textContext = thread.anchor.kind === 'codeLine'
+          ? codeLineContext(currentSource, result)
+          : this.extractContext(currentSource, result.startOffset, result.endOffset);
 
         if (thread.status === 'stale') {
           // Successfully re-anchored → open again
@@ -164,3 +703,104 @@ export class AnchorEngine {
 }
 
 export const anchorEngine = new AnchorEngine();
+
+/** Record the commit a re-located anchor is valid in; without one, the old commit no longer applies. */
+function stampCommit(anchor: CommentAnchor, commit: string | undefined): void {
+  if (commit) {
+    anchor.commit = commit;
+  } else {
+    delete anchor.commit;
+  }
+}
+
+/** Offset of a section's heading text (after the `#` markers) */
+function headingOffset(source: string, section: MarkdownSection): number {
+  const starts = lineStarts(source);
+  const lineStart = starts[section.startLine];
+  const lineEnd = section.startLine + 1 < starts.length ? starts[section.startLine + 1] : source.length;
+  return lineStart + Math.max(0, source.slice(lineStart, lineEnd).indexOf(section.heading));
+}
+
+/** Which code block, and which line of it, 0-based source `line` is; undefined outside code blocks */
+function codeLineRef(source: string, line: number): CodeLineRef | undefined {
+  const blocks = parseFencedCodeBlocks(source);
+  const fence = blocks.findIndex(b => line > b.openLine && line <= b.openLine + b.lineCount);
+  if (fence === -1) { return undefined; }
+  return { fence, language: blocks[fence].language, line: line - blocks[fence].openLine - 1 };
+}
+
+/** A cell's position in its table, with the header of its column and row */
+function tableCellRef(table: MarkdownTable, index: number, row: number, column: number): TableCellRef {
+  return {
+    table: index,
+    row,
+    column,
+    columnHeader: table.rows[0].cells[column]?.text ?? '',
+    rowHeader: table.rows[row].cells[0]?.text ?? '',
+  };
+}
+
+/** The table cell whose text starts at `offset`, and the source line of its row */
+function tableCellAt(source: string, offset: number): { ref: TableCellRef; line: number } | undefined {
+  for (const [t, table] of parseMarkdownTables(source).entries()) {
+    for (const [r, row] of table.rows.entries()) {
+      const column = row.cells.findIndex(cell => cell.start === offset);
+      if (column !== -1) { return { ref: tableCellRef(table, t, r, column), line: row.line }; }
+    }
+  }
+  return undefined;
+}
+
+/** The rest of a code line, and the lines on either side of it within its code block */
+function codeLineContext(source: string, range: MarkdownRange): TextContext {
+  const starts = lineStarts(source);
+  const line = positionOf(starts, range.startOffset).line;
+  const block = parseFencedCodeBlocks(source).find(b => line > b.openLine && line <= b.openLine + b.lineCount);
+  const before = block ? Math.max(block.openLine + 1, line - 1) : line;
+  const after = block ? Math.min(block.openLine + block.lineCount, line + 1) : line;
+  return {
+    prefix: source.slice(starts[before], range.startOffset),
+    suffix: source.slice(range.endOffset, starts[after] + lineLength(source, starts, after)),
+  };
+}
+
+/** A line's text without leading and trailing whitespace; null when blank */
+function trimmedLine(source: string, starts: number[], line: number): MarkdownRange | null {
+  if (line < 0 || line >= starts.length) { return null; }
+  const text = source.slice(starts[line], starts[line] + lineLength(source, starts, line));
+  const startOffset = starts[line] + (text.length - text.trimStart().length);
+  const endOffset = starts[line] + text.trimEnd().length;
+  return endOffset > startOffset ? { startOffset, endOffset } : null;
+}
+
+/** Whether rank `a` beats `b`, comparing entry by entry */
+function isHigher(a: number[], b: number[]): boolean {
+  const i = a.findIndex((value, k) => value !== b[k]);
+  return i !== -1 && a[i] > b[i];
+}
+
+/** 0-based line of an offset */
+function lineOf(source: string, offset: number): number {
+  return positionOf(lineStarts(source), offset).line;
+}
+
+/** Offset at which each line of `source` starts */
+function lineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = source.indexOf('\n'); i !== -1; i = source.indexOf('\n', i + 1)) {
+    starts.push(i + 1);
+  }
+  return starts;
+}
+
+function positionOf(starts: number[], offset: number): { line: number; column: number } {
+  let line = 0;
+  while (line + 1 < starts.length && starts[line + 1] <= offset) { line++; }
+  return { line, column: offset - starts[line] };
+}
+
+/** Length of a line, without its line break */
+function lineLength(source: string, starts: number[], line: number): number {
+  const end = line + 1 < starts.length ? starts[line + 1] - 1 : source.length;
+  return end - starts[line];
+}
@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { gitService } from './gitService';
+import type { CommentStore } from './stores/commentStore';
+import { GitNotesCommentStore } from './stores/gitNotesCommentStore';
+
+/**
+ * Command handler: push the comment notes ref to a remote.
+ */
+export async function pushCommentNotes(store: CommentStore): Promise<void> {
+  const notes = requireNotesStore(store);
+  const remote = notes && await pickRemote('Push comments to which remote?');
+  if (!notes || !remote) { return; }
+
+  try {
+    await notes.push(remote);
+    vscode.window.showInformationMessage(`Pushed comments to ${remote}.`);
+  } catch (err) {
+    console.error('[MarkdownReview] pushCommentNotes failed:', err);
+    const message = err instanceof Error ? err.message : String(err);
+    vscode.window.showErrorMessage(/rejected|fetch first/i.test(message)
+      ? `${remote} has comments you do not have yet. Fetch comments first, then push again.`
+      : `Failed to push comments to ${remote}: ${message}`);
+  }
+}
+
+/**
+ * Command handler: fetch the comment notes ref from a remote and merge it
+ * into the local one.
+ */
+export async function fetchCommentNotes(store: CommentStore): Promise<void> {
+  const notes = requireNotesStore(store);
+  const remote = notes && await pickRemote('Fetch comments from which remote?');
+  if (!notes || !remote) { return; }
+
+  try {
+    const result = await notes.fetch(remote);
+    if (!result.found) {
+      vscode.window.showInformationMessage(`${remote} has no comments yet.`);
+    } else if (result.changed.length === 0) {
+      vscode.window.showInformationMessage('Comments are up to date.');
+    } else {
+      const count = result.changed.length;
+      vscode.window.showInformationMessage(`Fetched comment updates for ${count} document${count === 1 ? '' : 's'}.`);
+    }
+  } catch (err) {
+    console.error('[MarkdownReview] fetchCommentNotes failed:', err);
+    vscode.window.showErrorMessage(`Failed to fetch comments from ${remote}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function requireNotesStore(store: CommentStore): GitNotesCommentStore | undefined {
+  if (store instanceof GitNotesCommentStore) { return store; }
+  vscode.window.showWarningMessage('Comments are stored in files. Set "markdownReview.commentStore" to "gitNotes" to sync them through git notes.');
+  return undefined;
+}
+
+async function pickRemote(placeHolder: string): Promise<string | undefined> {
+  const remotes = await gitService.getRemotes().catch((): string[] => []);
+  if (remotes.length === 0) {
+    vscode.window.showWarningMessage('This repository has no remotes.');
+    return undefined;
+  }
+  if (remotes.length === 1) { return remotes[0]; }
+  return vscode.window.showQuickPick(remotes.includes('origin') ? ['origin', ...remotes.filter(r => r !== 'origin')] : remotes, { placeHolder });
+}
@@ -0,0 +1,257 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type { CommentStore } from './stores/commentStore';
+import type { CommentThread, ThreadStatus } from './models/types';
+import { gitService } from './gitService';
+import { REVEAL_THREAD_COMMAND } from './decorationProvider';
+import { isDeleted, liveThreads } from './utils/sidecarOps';
+import { describeFilter, matchesFilter, parseDateRange, type CommentFilter, type IndexedThread } from './utils/commentSearch';
+
+/** Context key for showing "Clear Filters" while any filter is set. */
+const FILTERS_ACTIVE_CONTEXT = 'markdownReview.commentFiltersActive';
+
+const STATUSES: ThreadStatus[] = ['open', 'resolved', 'stale'];
+
+/**
+ * A matching thread; click to open the preview scrolled to it.
+ */
+export class CommentThreadItem extends vscode.TreeItem {
+  constructor(public readonly item: IndexedThread) {
+    const { thread } = item;
+    // Live threads keep at least one live comment
+    const first = thread.thread.find(c => !isDeleted(c)) ?? thread.thread[0];
+    super(first.body.split('\n')[0] || `"${thread.anchor.displayText ?? thread.anchor.selectedText}"`, vscode.TreeItemCollapsibleState.None);
+
+    this.description = `${first.author} · ${thread.status}`;
+    this.tooltip = threadTooltip(thread);
+    this.contextValue = 'commentThread';
+    this.iconPath = new vscode.ThemeIcon(
+      thread.status === 'resolved' ? 'pass' : thread.status === 'stale' ? 'warning' : 'comment-discussion',
+    );
+    this.command = {
+      command: REVEAL_THREAD_COMMAND,
+      title: 'Open in Preview',
+      arguments: [vscode.Uri.file(item.docPath), thread.id],
+    };
+  }
+}
+
+/**
+ * A document with matching threads.
+ */
+export class CommentDocumentItem extends vscode.TreeItem {
+  constructor(
+    public readonly relativePath: string,
+    public readonly children: CommentThreadItem[],
+  ) {
+    super(path.posix.basename(relativePath), vscode.TreeItemCollapsibleState.Expanded);
+    const folder = path.posix.dirname(relativePath);
+    this.description = `${folder === '.' ? '' : folder + ' · '}${children.length}`;
+    this.tooltip = relativePath;
+    this.resourceUri = vscode.Uri.file(children[0].item.docPath);
+    this.contextValue = 'commentDocument';
+    this.iconPath = new vscode.ThemeIcon('markdown');
+  }
+}
+
+type TreeItem = CommentDocumentItem | CommentThreadItem;
+
+/**
+ * The Comments view: every thread in the workspace's comments, narrowed by
+ * a full-text search and filters. Threads are indexed per document on first
+ * use and re-read whenever the store reports a change to that document.
+ */
+export class CommentSearchProvider implements vscode.TreeDataProvider<TreeItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<TreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private index: Map<string, IndexedThread[]> | undefined;
+  private filter: CommentFilter = {};
+  private storeListener: vscode.Disposable;
+
+  constructor(private readonly store: CommentStore) {
+    this.storeListener = this.store.onDidChange(async e => {
+      if (this.index) { this.index.set(e.docPath, await this.readThreads(e.docPath)); }
+      this._onDidChangeTreeData.fire();
+    });
+  }
+
+  /**
+   * Summary of the search and filters in effect, for the view's description.
+   */
+  getFilterDescription(): string {
+    return describeFilter(this.filter);
+  }
+
+  /** Forget the index and read every document's comments again. */
+  refresh(): void {
+    this.index = undefined;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Prompts for words to search comment bodies for; an empty search clears it.
+   */
+  async search(): Promise<void> {
+    const query = await vscode.window.showInputBox({
+      title: 'Search Comments',
+      prompt: 'Find threads whose comments contain all of these words',
+      value: this.filter.query ?? '',
+    });
+    if (query === undefined) { return; }
+    this.setFilter({ ...this.filter, query: query.trim() || undefined });
+  }
+
+  /**
+   * Shows a QuickPick of the filters, then a prompt for the one picked.
+   */
+  async editFilter(): Promise<void> {
+    const { authors, statuses, since, until, folder, mentioning } = this.filter;
+    const choice = await vscode.window.showQuickPick([
+      { label: '$(person) Author', description: authors?.join(', ') ?? 'any', key: 'author' },
+      { label: '$(issues) Status', description: statuses?.join(', ') ?? 'any', key: 'status' },
+      { label: '$(calendar) Date', description: since || until ? `${since ?? ''}..${until ?? ''}` : 'any time', key: 'date' },
+      { label: '$(folder) Folder', description: folder ?? 'all folders', key: 'folder' },
+      { label: '$(mention) Mentions Me', description: mentioning ? 'on' : 'off', key: 'mentions' },
+    ], { title: 'Filter Comments', placeHolder: 'Choose a filter to change' });
+    if (!choice) { return; }
+
+    switch (choice.key) {
+      case 'author': {
+        const threads = await this.indexedThreads();
+        const names = [...new Set(threads.flatMap(t => t.thread.thread.map(c => c.author)))].sort();
+        const picked = await vscode.window.showQuickPick(
+          names.map(name => ({ label: name, picked: authors?.includes(name) ?? false })),
+          { canPickMany: true, title: 'Filter by Author', placeHolder: 'Threads with a comment by any of these (none picked: any author)' },
+        );
+        if (!picked) { return; }
+        this.setFilter({ ...this.filter, authors: picked.length > 0 ? picked.map(p => p.label) : undefined });
+        break;
+      }
+      case 'status': {
+        const picked = await vscode.window.showQuickPick(
+          STATUSES.map(status => ({ label: status, picked: statuses?.includes(status) ?? false })),
+          { canPickMany: true, title: 'Filter by Status', placeHolder: 'None picked: any status' },
+        );
+        if (!picked) { return; }
+        this.setFilter({ ...this.filter, statuses: picked.length > 0 ? picked.map(p => p.label as ThreadStatus) : undefined });
+        break;
+      }
+      case 'date': {
+        const range = await this.pickDateRange();
+        if (!range) { return; }
+        this.setFilter({ ...this.filter, since: range.since, until: range.until });
+        break;
+      }
+      case 'folder': {
+        const threads = await this.indexedThreads();
+        const folders = new Set<string>();
+        for (const { relativePath } of threads) {
+          for (let dir = path.posix.dirname(relativePath); dir !== '.'; dir = path.posix.dirname(dir)) { folders.add(dir); }
+        }
+        const picked = await vscode.window.showQuickPick(
+          [{ label: '$(home) All Folders', folder: undefined }, ...[...folders].sort().map(f => ({ label: `$(folder) ${f}`, folder: f }))],
+          { title: 'Filter by Folder', placeHolder: 'Threads on documents in this folder' },
+        );
+        if (!picked) { return; }
+        this.setFilter({ ...this.filter, folder: picked.folder });
+        break;
+      }
+      case 'mentions': {
+        this.setFilter({ ...this.filter, mentioning: mentioning ? undefined : await gitService.getUserName() });
+        break;
+      }
+    }
+  }
+
+  /** Drop the search and every filter. */
+  clearFilters(): void {
+    this.setFilter({});
+  }
+
+  getTreeItem(element: TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: TreeItem): Promise<TreeItem[]> {
+    if (element instanceof CommentDocumentItem) {
+      return element.children;
+    }
+    if (element) {
+      return [];
+    }
+
+    const matches = (await this.indexedThreads()).filter(t => matchesFilter(t, this.filter));
+    const byDocument = new Map<string, CommentThreadItem[]>();
+    for (const match of matches) {
+      const items = byDocument.get(match.relativePath) ?? [];
+      items.push(new CommentThreadItem(match));
+      byDocument.set(match.relativePath, items);
+    }
+    return [...byDocument.entries()]
+      .sort(([a], [b]) => a.localeCompare(b, undefined, { sensitivity: 'base' }))
+      .map(([relativePath, items]) => new CommentDocumentItem(
+        relativePath,
+        items.sort((a, b) => a.item.thread.anchor.markdownRange.startOffset - b.item.thread.anchor.markdownRange.startOffset),
+      ));
+  }
+
+  dispose(): void {
+    this.storeListener.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+
+  private setFilter(filter: CommentFilter): void {
+    // Unset filters are left out, so "any filter set" is just "any key"
+    this.filter = Object.fromEntries(Object.entries(filter).filter(([, value]) => value !== undefined)) as CommentFilter;
+    vscode.commands.executeCommand('setContext', FILTERS_ACTIVE_CONTEXT, Object.keys(this.filter).length > 0);
+    this._onDidChangeTreeData.fire();
+  }
+
+  private async pickDateRange(): Promise<{ since?: string; until?: string } | undefined> {
+    const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000).toISOString().slice(0, 10);
+    const picked = await vscode.window.showQuickPick([
+      { label: 'Any Time', range: {} },
+      { label: 'Last 7 Days', range: { since: daysAgo(7) } },
+      { label: 'Last 30 Days', range: { since: daysAgo(30) } },
+      { label: 'Custom Range…', range: undefined },
+    ], { title: 'Filter by Date', placeHolder: 'Threads with a comment written in this range' });
+    if (!picked || picked.range) { return picked?.range; }
+
+    const text = await vscode.window.showInputBox({
+      title: 'Filter by Date',
+      prompt: 'YYYY-MM-DD..YYYY-MM-DD; leave out either end for an open range',
+      value: `${this.filter.since ?? ''}..${this.filter.until ?? ''}`,
+      validateInput: value => parseDateRange(value) ? undefined : 'Enter a range like 2025-01-01..2025-03-31',
+    });
+    return text === undefined ? undefined : parseDateRange(text) ?? undefined;
+  }
+
+  /** Every live thread in the workspace, indexing the documents on first use. */
+  private async indexedThreads(): Promise<IndexedThread[]> {
+    if (!this.index) {
+      const index = new Map<string, IndexedThread[]>();
+      for (const docPath of await this.store.listDocuments()) {
+        index.set(docPath, await this.readThreads(docPath));
+      }
+      this.index = index;
+    }
+    return [...this.index.values()].flat();
+  }
+
+  private async readThreads(docPath: string): Promise<IndexedThread[]> {
+    // A sidecar from a newer schema is left out rather than failing the view
+    const sidecar = await this.store.readSidecar(docPath).catch(() => null);
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '';
+    const relativePath = path.relative(workspaceRoot, docPath).split(path.sep).join('/');
+    return sidecar ? liveThreads(sidecar).map(thread => ({ docPath, relativePath, thread })) : [];
+  }
+}
+
+function threadTooltip(thread: CommentThread): vscode.MarkdownString {
+  const quoted = thread.anchor.kind === 'document' ? '_General comment_' : `_"${thread.anchor.displayText ?? thread.anchor.selectedText}"_`;
+  const comments = thread.thread
+    .filter(c => !isDeleted(c))
+    .map(c => `**${c.author}** (${c.created.slice(0, 10)}): ${c.body}`);
+  return new vscode.MarkdownString([quoted, ...comments].join('\n\n'));
+}
@@ -1,7 +1,14 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { sidecarManager } from './sidecarManager';
-import { anchorEngine } from './anchorEngine';
+import type { CommentStore } from './stores/commentStore';
+import { anchorEngine, DEFAULT_MIN_CONFIDENCE } from './anchorEngine';
+import { isDeleted, liveThreads } from './utils/sidecarOps';
+
+/** Command invoked from hover links to open the preview at a thread. */
+export const REVEAL_THREAD_COMMAND = 'markdownReview.revealThread';
+
+/** Delay before re-decorating after a document edit. */
+const EDIT_DEBOUNCE_MS = 300;
 
 /**
  * Provides gutter decorations showing comment bubbles
@@ -9,9 +16,12 @@ import { anchorEngine } from './anchorEngine';
 export class DecorationProvider implements vscode.Disposable {
   private openDecoration: vscode.TextEditorDecorationType;
   private staleDecoration: vscode.TextEditorDecorationType;
+  private resolvedDecoration: vscode.TextEditorDecorationType;
   private disposables: vscode.Disposable[] = [];
+  /** Pending debounced refreshes, keyed by document URI. */
+  private editTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
-  constructor(extensionPath: string) {
+  constructor(extensionPath: string, private readonly store: CommentStore) {
     this.openDecoration = vscode.window.createTextEditorDecorationType({
       gutterIconPath: path.join(extensionPath, 'media', 'comment-bubble.svg'),
       gutterIconSize: 'contain',
@@ -22,10 +32,59 @@ export class DecorationProvider implements vscode.Disposable {
       gutterIconSize: 'contain',
     });
 
+    this.resolvedDecoration = vscode.window.createTextEditorDecorationType({
+      gutterIconPath: path.join(extensionPath, 'media', 'comment-resolved.svg'),
+      gutterIconSize: 'contain',
+    });
+
     this.disposables.push(
       this.openDecoration,
-      this.staleDecoration
+      this.staleDecoration,
+      this.resolvedDecoration,
     );
+
+    this.disposables.push(
+      // Comments added/edited anywhere (preview, merges, other windows)
+      this.store.onDidChange(e => this.refreshDocument(e.docPath)),
+      // Editor switches and split layouts
+      vscode.window.onDidChangeVisibleTextEditors(() => this.refreshVisibleEditors()),
+      vscode.window.onDidChangeActiveTextEditor(editor => {
+        if (editor) { this.updateDecorations(editor); }
+      }),
+      // Keystrokes — debounced so re-anchoring doesn't run on every key
+      vscode.workspace.onDidChangeTextDocument(e => this.scheduleRefresh(e.document)),
+    );
+  }
+
+  /**
+   * Re-decorate every visible markdown editor.
+   */
+  refreshVisibleEditors(): void {
+    for (const editor of vscode.window.visibleTextEditors) {
+      this.updateDecorations(editor);
+    }
+  }
+
+  /**
+   * Re-decorate the visible editors showing the given document.
+   */
+  private refreshDocument(docPath: string): void {
+    for (const editor of vscode.window.visibleTextEditors) {
+      if (editor.document.uri.fsPath === docPath) {
+        this.updateDecorations(editor);
+      }
+    }
+  }
+
+  private scheduleRefresh(document: vscode.TextDocument): void {
+    if (!this.isMarkdownFile(document)) { return; }
+    const key = document.uri.toString();
+    const pending = this.editTimers.get(key);
+    if (pending) { clearTimeout(pending); }
+    this.editTimers.set(key, setTimeout(() => {
+      this.editTimers.delete(key);
+      this.refreshDocument(document.uri.fsPath);
+    }, EDIT_DEBOUNCE_MS));
   }
 
   /**
@@ -33,7 +92,7 @@ export class DecorationProvider implements vscode.Disposable {
    */
   async updateDecorations(editor: vscode.TextEditor): Promise<void> {
     const document = editor.document;
-    
+
     if (document.languageId !== 'markdown') {
       this.clearDecorations(editor);
       return;
@@ -44,20 +103,27 @@ export class DecorationProvider implements vscode.Disposable {
       return;
     }
 
-    const sidecar = await sidecarManager.readSidecar(document.uri.fsPath);
-    if (!sidecar || sidecar.comments.length === 0) {
+    // Unreadable or newer-schema sidecars simply show no icons
+    const sidecar = await this.store.readSidecar(document.uri.fsPath).catch(() => null);
+    const threads = sidecar ? liveThreads(sidecar) : [];
+    if (threads.length === 0) {
       this.clearDecorations(editor);
       return;
     }
 
     const rawText = document.getText();
-    
+
     const openRanges: vscode.DecorationOptions[] = [];
     const staleRanges: vscode.DecorationOptions[] = [];
+    const resolvedRanges: vscode.DecorationOptions[] = [];
 
-    for (const thread of sidecar.comments) {
+    const minConfidence = vscode.workspace
+      .getConfiguration('markdownReview', document.uri)
+      .get<number>('anchorConfidenceThreshold', DEFAULT_MIN_CONFIDENCE);
+
+    for (const thread of threads) {
       // Re-anchor to find current position
-      const anchoredRange = anchorEngine.anchorComment(thread.anchor, rawText);
+      const anchoredRange = anchorEngine.anchorComment(thread.anchor, rawText, minConfidence);
       if (!anchoredRange) {
         continue; // Can't locate this thread — skip decoration
       }
@@ -67,24 +133,30 @@ export class DecorationProvider implements vscode.Disposable {
       const endPos = document.positionAt(anchoredRange.endOffset);
       const range = new vscode.Range(startPos, endPos);
 
-      const threadCount = thread.thread.length;
-      const firstComment = thread.thread[0]?.body ?? '';
-      const preview = firstComment.length > 50 
-        ? firstComment.substring(0, 50) + '...' 
+      const comments = thread.thread.filter(c => !isDeleted(c));
+      const threadCount = comments.length;
+      const firstComment = comments[0]?.body ?? '';
+      const preview = firstComment.length > 50
+        ? firstComment.substring(0, 50) + '...'
         : firstComment;
       const selectedText = thread.anchor.selectedText.length > 30
         ? thread.anchor.selectedText.substring(0, 30) + '...'
         : thread.anchor.selectedText;
 
-      const decoration: vscode.DecorationOptions = {
-        range,
-        hoverMessage: new vscode.MarkdownString(
-          `**${threadCount} comment${threadCount > 1 ? 's' : ''}** on _"${selectedText}"_\n\n${preview}`
-        ),
-      };
+      const revealArgs = encodeURIComponent(JSON.stringify([document.uri.toString(), thread.id]));
+      const hoverMessage = new vscode.MarkdownString(
+        `**${threadCount} comment${threadCount > 1 ? 's' : ''}** on _"${selectedText}"_` +
+        `${anchoredRange.strategy === 'fuzzy' ? ' (text edited since, matched approximately)' : ''}\n\n${preview}` +
+        `\n\n[Open in preview](command:${REVEAL_THREAD_COMMAND}?${revealArgs})`
+      );
+      hoverMessage.isTrusted = { enabledCommands: [REVEAL_THREAD_COMMAND] };
+
+      const decoration: vscode.DecorationOptions = { range, hoverMessage };
 
       if (thread.status === 'stale') {
         staleRanges.push(decoration);
+      } else if (thread.status === 'resolved') {
+        resolvedRanges.push(decoration);
       } else {
         openRanges.push(decoration);
       }
@@ -92,6 +164,7 @@ export class DecorationProvider implements vscode.Disposable {
 
     editor.setDecorations(this.openDecoration, openRanges);
     editor.setDecorations(this.staleDecoration, staleRanges);
+    editor.setDecorations(this.resolvedDecoration, resolvedRanges);
   }
 
   /**
@@ -100,6 +173,7 @@ export class DecorationProvider implements vscode.Disposable {
   clearDecorations(editor: vscode.TextEditor): void {
     editor.setDecorations(this.openDecoration, []);
     editor.setDecorations(this.staleDecoration, []);
+    editor.setDecorations(this.resolvedDecoration, []);
   }
 
   /**
@@ -111,6 +185,10 @@ export class DecorationProvider implements vscode.Disposable {
   }
 
   dispose(): void {
+    for (const timer of this.editTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.editTimers.clear();
     for (const d of this.disposables) {
       d.dispose();
     }
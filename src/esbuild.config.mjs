@@ -5,9 +5,10 @@ const watch = process.argv.includes('--watch');
 
 /** @type {import('esbuild').BuildOptions} */
 const buildOptions = {
-  entryPoints: ['extension.ts'],
+  // mergeDriver runs standalone under plain node (see mergeDriver.ts)
+  entryPoints: ['extension.ts', 'mergeDriver.ts'],
   bundle: true,
-  outfile: 'dist/extension.js',
+  outdir: 'dist',
   external: ['vscode'],
   format: 'cjs',
   platform: 'node',
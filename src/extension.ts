@@ -1,7 +1,17 @@
 import * as vscode from 'vscode';
 import { gitService } from './gitService';
+import { sidecarManager } from './sidecarManager';
+import type { CommentStore } from './stores/commentStore';
 import { PreviewPanel } from './previewPanel';
 import { MarkdownFilesProvider } from './markdownFilesProvider';
+import { CommentSearchProvider } from './commentSearchProvider';
+import { DecorationProvider, REVEAL_THREAD_COMMAND } from './decorationProvider';
+import { SidecarDiagnostics } from './sidecarDiagnostics';
+import { installMergeDriver, refreshMergeDriverPath } from './mergeDriverSetup';
+import { moveSidecarStorage } from './sidecarStorage';
+import { GitNotesCommentStore } from './stores/gitNotesCommentStore';
+import { fetchCommentNotes, pushCommentNotes } from './commentNotesSync';
+import { OperationLog } from './operationLog';
 
 let markdownFilesProvider: MarkdownFilesProvider;
 
@@ -12,8 +22,14 @@ export async function activate(context: vscode.ExtensionContext) {
   // Set extension URI for PreviewPanel to locate bundled resources (e.g., media/)
   PreviewPanel.setExtensionUri(context.extensionUri);
 
+  // Comment persistence — UI components only see the CommentStore interface
+  const commentStore = await createCommentStore(context);
+  context.subscriptions.push(commentStore.watch());
+  PreviewPanel.setCommentStore(commentStore);
+  PreviewPanel.setOperationLog(new OperationLog(commentStore));
+
   // Create and register the tree view for markdown files
-  markdownFilesProvider = new MarkdownFilesProvider();
+  markdownFilesProvider = new MarkdownFilesProvider(commentStore);
   const treeView = vscode.window.createTreeView('markdownReview.files', {
     treeDataProvider: markdownFilesProvider,
     showCollapseAll: true,
@@ -26,10 +42,33 @@ export async function activate(context: vscode.ExtensionContext) {
     treeView.description = markdownFilesProvider.getSelectedFolderName();
   });
 
+  // Every comment thread in the workspace, searchable and filtered
+  const commentSearchProvider = new CommentSearchProvider(commentStore);
+  const commentsView = vscode.window.createTreeView('markdownReview.comments', {
+    treeDataProvider: commentSearchProvider,
+    showCollapseAll: true,
+  });
+  context.subscriptions.push(commentsView, commentSearchProvider);
+  commentSearchProvider.onDidChangeTreeData(() => {
+    commentsView.description = commentSearchProvider.getFilterDescription();
+  });
+
+  // Gutter icons + hover previews for commented ranges in source editors
+  const decorationProvider = new DecorationProvider(context.extensionPath, commentStore);
+  context.subscriptions.push(decorationProvider);
+  decorationProvider.refreshVisibleEditors();
+
+  // Problems-panel entries for malformed .comments.json files
+  context.subscriptions.push(new SidecarDiagnostics());
+
   // Register commands
   context.subscriptions.push(
     vscode.commands.registerCommand('markdownReview.refreshFiles', () => markdownFilesProvider.refresh()),
     vscode.commands.registerCommand('markdownReview.selectFolder', () => markdownFilesProvider.selectFolder()),
+    vscode.commands.registerCommand('markdownReview.searchComments', () => commentSearchProvider.search()),
+    vscode.commands.registerCommand('markdownReview.filterComments', () => commentSearchProvider.editFilter()),
+    vscode.commands.registerCommand('markdownReview.clearCommentFilters', () => commentSearchProvider.clearFilters()),
+    vscode.commands.registerCommand('markdownReview.refreshComments', () => commentSearchProvider.refresh()),
     vscode.commands.registerCommand('markdownReview.openPreview', async (uri?: vscode.Uri) => {
       let document: vscode.TextDocument | undefined;
       if (uri) {
@@ -59,17 +98,57 @@ export async function activate(context: vscode.ExtensionContext) {
         return;
       }
       await PreviewPanel.show(document);
-    })
+    }),
+    vscode.commands.registerCommand(REVEAL_THREAD_COMMAND, async (uri: string | vscode.Uri, threadId: string) => {
+      const target = typeof uri === 'string' ? vscode.Uri.parse(uri) : uri;
+      const document = await vscode.workspace.openTextDocument(target);
+      await PreviewPanel.show(document, threadId);
+    }),
+    vscode.commands.registerCommand('markdownReview.installMergeDriver', () => installMergeDriver(context.extensionPath)),
+    vscode.commands.registerCommand('markdownReview.moveSidecarStorage', () => moveSidecarStorage()),
+    vscode.commands.registerCommand('markdownReview.pushCommentNotes', () => pushCommentNotes(commentStore)),
+    vscode.commands.registerCommand('markdownReview.fetchCommentNotes', () => fetchCommentNotes(commentStore)),
+    vscode.commands.registerCommand('markdownReview.undoCommentAction', () => PreviewPanel.undo()),
+    vscode.commands.registerCommand('markdownReview.redoCommentAction', () => PreviewPanel.redo())
   );
 
-  // Initialize git service for user name detection
+  // The store is wired into every view at startup, so switching needs a reload
+  context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(async e => {
+    if (!e.affectsConfiguration('markdownReview.commentStore')) { return; }
+    const choice = await vscode.window.showInformationMessage('Reload the window to switch where comments are stored.', 'Reload Window');
+    if (choice === 'Reload Window') {
+      await vscode.commands.executeCommand('workbench.action.reloadWindow');
+    }
+  }));
+
+  // Initialize git service for user name detection, and keep an installed
+  // merge driver pointing at this extension version
   try {
     await gitService.initialize();
+    await refreshMergeDriverPath(context.extensionPath);
   } catch (err) {
     console.error('[MarkdownReview] Git initialization failed:', err);
   }
 }
 
+/**
+ * Pick the comment store from `markdownReview.commentStore`, falling back to
+ * sidecar files when git notes are requested outside a git repository.
+ */
+async function createCommentStore(context: vscode.ExtensionContext): Promise<CommentStore> {
+  const kind = vscode.workspace.getConfiguration('markdownReview').get<string>('commentStore', 'files');
+  if (kind === 'gitNotes') {
+    const root = await gitService.getRepoRoot();
+    if (root) {
+      const store = new GitNotesCommentStore(gitService, root);
+      context.subscriptions.push(store);
+      return store;
+    }
+    vscode.window.showWarningMessage('Comments are set to be stored in git notes, but the workspace is not a git repository. Using comment files instead.');
+  }
+  return sidecarManager;
+}
+
 export function deactivate() {
   // Cleanup handled by disposables
 }
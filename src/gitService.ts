@@ -1,25 +1,36 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { execSync } from 'child_process';
 import { simpleGit, SimpleGit } from 'simple-git';
+import { parseDiffHunks, type DiffHunk } from './utils/diffHunks';
 
 /**
- * Git operations service — provides user identity for comment authoring.
+ * Git operations service — provides user identity for comment authoring and
+ * the plumbing behind the git-notes comment store.
  */
 export class GitService {
   private git: SimpleGit | null = null;
 
+  /**
+   * @param cwd Repository directory to operate in. Defaults to the first
+   *   workspace folder; tests pass a temporary repo.
+   */
+  constructor(private readonly cwd?: string) {}
+
   /**
    * Initialize git for the workspace
    */
   async initialize(): Promise<boolean> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
+    const folder = this.cwd ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!folder) {
       console.log('[MarkdownReview] gitService.initialize: no workspace folder');
       return false;
     }
 
-    console.log('[MarkdownReview] gitService.initialize: folder =', workspaceFolder.uri.fsPath);
-    this.git = simpleGit(workspaceFolder.uri.fsPath);
+    console.log('[MarkdownReview] gitService.initialize: folder =', folder);
+    this.git = simpleGit(folder);
     
     try {
       const isRepo = await this.git.checkIsRepo();
@@ -78,6 +89,233 @@ export class GitService {
 
     return 'Unknown';
   }
+
+  /**
+   * Absolute path of the repository root, or null when the workspace is not a git repo
+   */
+  async getRepoRoot(): Promise<string | null> {
+    if (!this.git && !(await this.initialize())) {
+      return null;
+    }
+    try {
+      return (await this.git!.revparse(['--show-toplevel'])).trim();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Read a repository-local config value, or undefined when unset
+   */
+  async getLocalConfig(key: string): Promise<string | undefined> {
+    if (!this.git) { return undefined; }
+    try {
+      const value = (await this.git.raw(['config', '--local', '--get', key])).trim();
+      return value || undefined;
+    } catch {
+      // `git config --get` exits 1 for missing keys
+      return undefined;
+    }
+  }
+
+  /**
+   * Write a repository-local config value
+   */
+  async setLocalConfig(key: string, value: string): Promise<void> {
+    if (!this.git) {
+      throw new Error('No git repository is open');
+    }
+    await this.git.addConfig(key, value, false, 'local');
+  }
+
+  /**
+   * Absolute path of the `.git` directory
+   */
+  async getGitDir(): Promise<string> {
+    const git = await this.requireGit();
+    return (await git.revparse(['--absolute-git-dir'])).trim();
+  }
+
+  /**
+   * Names of the configured remotes
+   */
+  async getRemotes(): Promise<string[]> {
+    const git = await this.requireGit();
+    return (await git.getRemotes()).map(r => r.name);
+  }
+
+  /**
+   * Commit a ref points to, or null when it does not exist
+   */
+  async resolveRef(ref: string): Promise<string | null> {
+    const git = await this.requireGit();
+    try {
+      return (await git.raw(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`])).trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Content of a file as of a commit, or null when it did not exist there
+   */
+  async readFileAt(commit: string, filePath: string): Promise<string | null> {
+    const git = await this.requireGit();
+    const root = (await git.revparse(['--show-toplevel'])).trim();
+    const relative = path.relative(root, filePath).split(path.sep).join('/');
+    if (relative.startsWith('..')) { return null; }
+    try {
+      return await git.raw(['show', `${commit}:${relative}`]);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Changed line blocks between two texts, from `git diff --no-index` of the
+   * two as temp files, so nothing is written to the repository
+   */
+  async diffTexts(oldText: string, newText: string): Promise<DiffHunk[]> {
+    if (oldText === newText) { return []; }
+    const git = await this.requireGit();
+    const tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'markdown-review-'));
+    const oldFile = path.join(tmpDir, 'old');
+    const newFile = path.join(tmpDir, 'new');
+    try {
+      await fs.promises.writeFile(oldFile, oldText, 'utf-8');
+      await fs.promises.writeFile(newFile, newText, 'utf-8');
+      // Exits 1 when the files differ, which simple-git only treats as an error alongside stderr output
+      return parseDiffHunks(await git.raw(['diff', '--no-index', '--no-color', '--no-ext-diff', '--unified=0', '--', oldFile, newFile]));
+    } finally {
+      await fs.promises.rm(tmpDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Best common ancestor of two commits, or null when their histories are unrelated
+   */
+  async mergeBase(a: string, b: string): Promise<string | null> {
+    const git = await this.requireGit();
+    try {
+      return (await git.raw(['merge-base', a, b])).trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Object id of a blob with the given content, optionally storing it in the object database
+   */
+  async hashObject(content: string, write = false): Promise<string> {
+    const git = await this.requireGit();
+    // simple-git cannot feed stdin, so go through a temp file
+    const tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'markdown-review-'));
+    const file = path.join(tmpDir, 'blob');
+    try {
+      await fs.promises.writeFile(file, content, 'utf-8');
+      return (await git.raw(['hash-object', ...(write ? ['-w'] : []), '--', file])).trim();
+    } finally {
+      await fs.promises.rm(tmpDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Raw content of a blob
+   */
+  async readBlob(oid: string): Promise<string> {
+    const git = await this.requireGit();
+    return git.raw(['cat-file', 'blob', oid]);
+  }
+
+  /**
+   * Blob id of the note attached to `object` under `notesRef`, or null when there is none
+   */
+  async getNoteId(notesRef: string, object: string): Promise<string | null> {
+    const git = await this.requireGit();
+    try {
+      return (await git.raw(['notes', `--ref=${notesRef}`, 'list', object])).trim() || null;
+    } catch {
+      // `git notes list <object>` exits 1 when the object has no note
+      return null;
+    }
+  }
+
+  /**
+   * Attach (or replace) the note on `object`. The content is stored verbatim,
+   * bypassing the whitespace cleanup `git notes add -m` applies.
+   */
+  async writeNote(notesRef: string, object: string, content: string): Promise<void> {
+    const git = await this.requireGit();
+    const blob = await this.hashObject(content, true);
+    await git.raw(['notes', `--ref=${notesRef}`, 'add', '--force', '-C', blob, object]);
+  }
+
+  /**
+   * Remove the note on `object`, if any
+   */
+  async removeNote(notesRef: string, object: string): Promise<void> {
+    const git = await this.requireGit();
+    await git.raw(['notes', `--ref=${notesRef}`, 'remove', '--ignore-missing', object]);
+  }
+
+  /**
+   * Every note in a notes commit, as a map from annotated object to note blob.
+   * Empty when the ref does not exist.
+   */
+  async listNotes(notesCommit: string): Promise<Map<string, string>> {
+    const git = await this.requireGit();
+    const notes = new Map<string, string>();
+    let output: string;
+    try {
+      output = await git.raw(['ls-tree', '-r', notesCommit]);
+    } catch {
+      return notes;
+    }
+    for (const line of output.split('\n')) {
+      // "<mode> blob <note-oid>\t<fanned/out/object-oid>"
+      const match = /^\d+ blob ([0-9a-f]+)\t(.+)$/.exec(line);
+      if (match) {
+        notes.set(match[2].replace(/\//g, ''), match[1]);
+      }
+    }
+    return notes;
+  }
+
+  /**
+   * Merge another notes ref into `notesRef`. Notes changed on both sides keep
+   * our version; callers resolve those afterwards.
+   */
+  async mergeNotes(notesRef: string, otherRef: string): Promise<void> {
+    const git = await this.requireGit();
+    await git.raw(['notes', `--ref=${notesRef}`, 'merge', '--quiet', '--strategy=ours', otherRef]);
+  }
+
+  /**
+   * Fetch a remote ref into a local one, overwriting it. Returns false when
+   * the remote does not have the ref.
+   */
+  async fetchRef(remote: string, remoteRef: string, localRef: string): Promise<boolean> {
+    const git = await this.requireGit();
+    const listed = await git.raw(['ls-remote', remote, remoteRef]);
+    if (!listed.trim()) { return false; }
+    await git.raw(['fetch', '--quiet', remote, `+${remoteRef}:${localRef}`]);
+    return true;
+  }
+
+  /**
+   * Push a local ref to the same name on a remote (fast-forward only)
+   */
+  async pushRef(remote: string, ref: string): Promise<void> {
+    const git = await this.requireGit();
+    await git.raw(['push', '--quiet', remote, `${ref}:${ref}`]);
+  }
+
+  private async requireGit(): Promise<SimpleGit> {
+    if (!this.git && !(await this.initialize())) {
+      throw new Error('No git repository is open');
+    }
+    return this.git!;
+  }
 }
 
 export const gitService = new GitService();
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { sidecarManager } from './sidecarManager';
+import type { CommentStore } from './stores/commentStore';
+import { liveThreads } from './utils/sidecarOps';
 
 /**
  * Represents a markdown file in the tree view.
@@ -176,26 +177,23 @@ export class MarkdownFilesProvider implements vscode.TreeDataProvider<TreeItem>
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
   private fileWatcher: vscode.FileSystemWatcher | undefined;
-  private sidecarWatcher: vscode.FileSystemWatcher | undefined;
+  private storeListener: vscode.Disposable | undefined;
   private configWatcher: vscode.Disposable | undefined;
   private selectedFolder: string | undefined; // undefined = show all folders
 
-  constructor() {
+  constructor(private readonly store: CommentStore) {
     // Watch for markdown file changes
     this.fileWatcher = vscode.workspace.createFileSystemWatcher('**/*.md');
     this.fileWatcher.onDidCreate(() => this.refresh());
     this.fileWatcher.onDidDelete(() => this.refresh());
     this.fileWatcher.onDidChange(() => this.refresh());
 
-    // Watch for sidecar file changes (comment count updates)
-    this.sidecarWatcher = vscode.workspace.createFileSystemWatcher('**/*.comments.json');
-    this.sidecarWatcher.onDidCreate(() => this.refresh());
-    this.sidecarWatcher.onDidDelete(() => this.refresh());
-    this.sidecarWatcher.onDidChange(() => this.refresh());
+    // Comment count updates, whoever made the change
+    this.storeListener = this.store.onDidChange(() => this.refresh());
 
-    // Refresh tree when exclude folders setting changes
+    // Refresh tree when exclude folders or storage settings change
     this.configWatcher = vscode.workspace.onDidChangeConfiguration(e => {
-      if (e.affectsConfiguration('markdownReview.excludeFolders')) {
+      if (e.affectsConfiguration('markdownReview')) {
         this.refresh();
       }
     });
@@ -346,13 +344,14 @@ export class MarkdownFilesProvider implements vscode.TreeDataProvider<TreeItem>
   }
 
   private async getCommentCount(filePath: string): Promise<number> {
-    const sidecar = await sidecarManager.readSidecar(filePath);
-    return sidecar?.comments.length ?? 0;
+    // A sidecar from a newer schema is counted as zero rather than failing the tree
+    const sidecar = await this.store.readSidecar(filePath).catch(() => null);
+    return sidecar ? liveThreads(sidecar).length : 0;
   }
 
   dispose(): void {
     this.fileWatcher?.dispose();
-    this.sidecarWatcher?.dispose();
+    this.storeListener?.dispose();
     this.configWatcher?.dispose();
     this._onDidChangeTreeData.dispose();
   }
@@ -0,0 +1,85 @@
+/**
+ * Git merge driver for `.comments.json` sidecars.
+ *
+ * Bundled to `dist/mergeDriver.js` and registered by the
+ * `markdownReview.installMergeDriver` command as:
+ *
+ *   [merge "markdown-review"]
+ *     driver = node "<extension>/dist/mergeDriver.js" %O %A %B %P
+ *
+ * Git passes the ancestor, ours and theirs versions as temp files; the merged
+ * result is written over "ours". A non-zero exit leaves the file conflicted
+ * for manual resolution. This module must not import `vscode`.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SidecarFile } from './models/types';
+import { migrateSidecar } from './utils/sidecarMigration';
+import { validateSidecar } from './utils/sidecarValidation';
+import { mergeSidecars } from './utils/sidecarMerge';
+import { DEFAULT_STORAGE_DIRECTORY, docPathFor } from './utils/sidecarPaths';
+
+const USAGE = 'Usage: mergeDriver <base> <ours> <theirs> [<pathname>]';
+
+/**
+ * Run the driver from `repoRoot`, which git makes the working directory.
+ * Returns the process exit code: 0 when merged cleanly, 1 when the file
+ * must be resolved by hand, 2 on bad arguments.
+ */
+export function runMergeDriver(
+  args: string[],
+  log: (message: string) => void = console.error,
+  repoRoot: string = process.cwd(),
+): number {
+  const [basePath, oursPath, theirsPath, pathname] = args;
+  if (!basePath || !oursPath || !theirsPath) {
+    log(USAGE);
+    return 2;
+  }
+
+  // v1 sidecars need their markdown document to migrate
+  const docPath = pathname ? findDocPath(path.resolve(repoRoot, pathname), repoRoot) : undefined;
+  const loadDocSource = () => docPath ? fs.readFileSync(docPath, 'utf-8') : undefined;
+
+  const load = (file: string, label: string): SidecarFile | null => {
+    const text = fs.readFileSync(file, 'utf-8');
+    if (!text.trim()) { return null; }
+    const { sidecar, quarantined, errors } = validateSidecar(migrateSidecar(JSON.parse(text), { loadDocSource }).data);
+    if (!sidecar || quarantined.length > 0) {
+      throw new Error(`${label} is not a valid sidecar: ${errors.map(e => `${e.path} ${e.message}`).join('; ')}`);
+    }
+    return sidecar;
+  };
+
+  const name = pathname ?? path.basename(oursPath);
+  try {
+    const base = load(basePath, 'base');
+    const ours = load(oursPath, 'ours');
+    const theirs = load(theirsPath, 'theirs');
+    if (!ours || !theirs) {
+      // One side deleted the file — that is a modify/delete conflict for a human
+      log(`markdown-review: ${name}: deleted on one side, leaving the conflict for manual resolution`);
+      return 1;
+    }
+    const merged = mergeSidecars(base, ours, theirs);
+    fs.writeFileSync(oursPath, JSON.stringify(merged, null, 2), 'utf-8');
+    return 0;
+  } catch (error) {
+    log(`markdown-review: ${name}: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
+
+/**
+ * The document a sidecar belongs to. The driver cannot read the workspace
+ * settings, so a sidecar is taken to sit next to its document or under the
+ * default storage directory; undefined when neither leads to a file.
+ */
+function findDocPath(sidecarPath: string, repoRoot: string): string | undefined {
+  const docPath = docPathFor(sidecarPath, { mode: 'centralized', directory: DEFAULT_STORAGE_DIRECTORY, roots: [repoRoot] });
+  return fs.existsSync(docPath) ? docPath : undefined;
+}
+
+if (require.main === module) {
+  process.exitCode = runMergeDriver(process.argv.slice(2));
+}
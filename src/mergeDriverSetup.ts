@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { gitService } from './gitService';
+import {
+  MERGE_DRIVER_NAME,
+  addMergeAttribute,
+  buildDriverCommand,
+} from './utils/mergeDriverConfig';
+
+const DRIVER_KEY = `merge.${MERGE_DRIVER_NAME}.driver`;
+const DRIVER_NAME_KEY = `merge.${MERGE_DRIVER_NAME}.name`;
+
+function driverScriptPath(extensionPath: string): string {
+  return path.join(extensionPath, 'dist', 'mergeDriver.js');
+}
+
+/**
+ * Command handler: register the sidecar merge driver in the workspace repo's
+ * local git config and route `*.comments.json` through it in `.gitattributes`.
+ */
+export async function installMergeDriver(extensionPath: string): Promise<void> {
+  const root = await gitService.getRepoRoot();
+  if (!root) {
+    vscode.window.showWarningMessage('Open a folder inside a git repository to install the comments merge driver.');
+    return;
+  }
+
+  try {
+    await gitService.setLocalConfig(DRIVER_NAME_KEY, 'Markdown Review comments merge driver');
+    await gitService.setLocalConfig(DRIVER_KEY, buildDriverCommand(driverScriptPath(extensionPath)));
+
+    const attributesPath = path.join(root, '.gitattributes');
+    const current = fs.existsSync(attributesPath) ? await fs.promises.readFile(attributesPath, 'utf-8') : '';
+    const updated = addMergeAttribute(current);
+    if (updated !== null) {
+      await fs.promises.writeFile(attributesPath, updated, 'utf-8');
+    }
+
+    vscode.window.showInformationMessage(
+      updated !== null
+        ? 'Comments merge driver installed. Commit the updated .gitattributes so teammates share it (each clone runs this command once).'
+        : 'Comments merge driver installed for this clone.',
+    );
+  } catch (err) {
+    console.error('[MarkdownReview] installMergeDriver failed:', err);
+    vscode.window.showErrorMessage(`Failed to install the comments merge driver: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Re-point an already installed driver at this extension version's script.
+ * The path embeds the extension version, so it goes stale after every update.
+ */
+export async function refreshMergeDriverPath(extensionPath: string): Promise<void> {
+  const configured = await gitService.getLocalConfig(DRIVER_KEY);
+  if (!configured) { return; }
+  const expected = buildDriverCommand(driverScriptPath(extensionPath));
+  if (configured !== expected) {
+    await gitService.setLocalConfig(DRIVER_KEY, expected);
+  }
+}
@@ -12,14 +12,147 @@ export interface TextContext {
 
 /** Byte-offset range into raw markdown source */
 export interface MarkdownRange {
-  /** Start offset (inclusive) */
+  /**
+   * Start offset (inclusive)
+   * @asType integer
+   * @minimum 0
+   */
   startOffset: number;
-  /** End offset (exclusive) */
+  /**
+   * End offset (exclusive)
+   * @asType integer
+   * @minimum 0
+   */
   endOffset: number;
 }
 
-/** Anchor information for locating a comment within a document */
+/**
+ * How an anchor was re-located after the document changed: `offsets` (still
+ * in place), `nearby`, `context`, `prefix`, `suffix` and `global` (the exact
+ * text, found by widening searches), `fuzzy` (text that was edited since),
+ * `history` (the range followed through the git diff since `commit`), or
+ * `heading` (a section anchor found by its slug)
+ */
+export type AnchorStrategy =
+  'offsets' | 'nearby' | 'context' | 'prefix' | 'suffix' | 'global' | 'fuzzy' | 'history' | 'heading';
+
+/**
+ * What a comment is attached to: selected text (the default), a whole
+ * section, one block, one line of a fenced code block, one table cell, or
+ * the document as a whole (a general comment)
+ */
+export type AnchorKind = 'text' | 'section' | 'block' | 'codeLine' | 'tableCell' | 'document';
+
+/** Blocks a comment can be attached to as a whole */
+export type BlockType = 'paragraph' | 'listItem' | 'table' | 'code' | 'image' | 'diagram';
+
+/** Where a code line anchor's line was, as of the last time it was placed */
+export interface CodeLineRef {
+  /**
+   * Index of the code block among the document's fenced code blocks
+   * @asType integer
+   * @minimum 0
+   */
+  fence: number;
+  /** The code block's language; empty when it has none */
+  language: string;
+  /**
+   * 0-based line within the code block
+   * @asType integer
+   * @minimum 0
+   */
+  line: number;
+}
+
+/** Where a table cell anchor's cell was, as of the last time it was placed */
+export interface TableCellRef {
+  /**
+   * Index of the table among the document's tables
+   * @asType integer
+   * @minimum 0
+   */
+  table: number;
+  /**
+   * 0 for the header row, then the body rows from 1
+   * @asType integer
+   * @minimum 0
+   */
+  row: number;
+  /**
+   * 0-based column
+   * @asType integer
+   * @minimum 0
+   */
+  column: number;
+  /** Text of the column's header cell */
+  columnHeader: string;
+  /** Text of the row's first cell */
+  rowHeader: string;
+}
+
+/** The image an image anchor points at, as written in the markdown */
+export interface ImageRef {
+  /** Link target; empty for a reference-style image */
+  src: string;
+  /** Alt text */
+  alt: string;
+}
+
+/**
+ * A point, or with a size a rectangle, within an image or diagram. All
+ * values are fractions of the image's width and height.
+ */
+export interface PinRegion {
+  /**
+   * @minimum 0
+   * @maximum 1
+   */
+  x: number;
+  /**
+   * @minimum 0
+   * @maximum 1
+   */
+  y: number;
+  /**
+   * @minimum 0
+   * @maximum 1
+   */
+  width?: number;
+  /**
+   * @minimum 0
+   * @maximum 1
+   */
+  height?: number;
+}
+
+/** The section a section anchor belongs to */
+export interface SectionRef {
+  /** Slug of the section heading; the section is found by this, whatever its text */
+  slug: string;
+  /** `MarkdownSection.contentHash` when the comment was made, to tell whether the section changed since */
+  contentHash: string;
+}
+
+/**
+ * Anchor information for locating a comment within a document. Section
+ * anchors select the heading text; block anchors select the whole block.
+ * Document anchors select nothing (empty text at offset 0).
+ */
 export interface CommentAnchor {
+  /** Absent for text anchors */
+  kind?: AnchorKind;
+  /** Set for section anchors */
+  section?: SectionRef;
+  /** Set for block anchors */
+  blockType?: BlockType;
+  /** Set for code line anchors, which select the line's text */
+  codeLine?: CodeLineRef;
+  /** Set for table cell anchors, which select the cell's text */
+  tableCell?: TableCellRef;
+  /** Set for image anchors (`blockType: 'image'`), which select the image's markdown */
+  image?: ImageRef;
+  /** Where on an image or diagram the comment is pinned; absent for the whole of it */
+  region?: PinRegion;
   /** The exact text the user selected, as it appears in the raw markdown
    * source (may include inline markdown delimiters such as `**`). Used by
    * re-anchoring logic when the document is edited. */
@@ -33,6 +166,37 @@ export interface CommentAnchor {
   textContext: TextContext;
   /** Character offsets into the raw markdown source */
   markdownRange: MarkdownRange;
+  /** How the anchor was last re-located; absent while it is where a reviewer put or confirmed it */
+  strategy?: AnchorStrategy;
+  /**
+   * How sure the re-location is (0–1), recorded with `strategy`
+   * @minimum 0
+   * @maximum 1
+   */
+  confidence?: number;
+  /** A commit whose version of the document has this anchor at `markdownRange`; lets it be followed through later changes */
+  commit?: string;
+}
+
+/** An earlier anchor of a thread, kept when a reviewer re-attaches the comment to other text */
+export interface AnchorRevision {
+  /** The anchor as it was */
+  anchor: CommentAnchor;
+  /** Who re-attached the comment */
+  replacedBy: string;
+  /** ISO-8601 timestamp when the comment was re-attached */
+  replacedAt: string;
+}
+
+/** Emoji reactions on a comment — maps each emoji to the authors who reacted with it */
+export type CommentReactions = Record<string, string[]>;
+
+/** An earlier version of a comment body, kept when the comment is edited */
+export interface CommentRevision {
+  /** The body as it was */
+  body: string;
+  /** ISO-8601 timestamp when this body was written (created or edited) */
+  written: string;
 }
 
 /** A single comment entry within a thread */
@@ -47,12 +211,18 @@ export interface CommentEntry {
   created: string;
   /** ISO-8601 timestamp when last edited, or null */
   edited: string | null;
-  /** Thumbs-up reactions — array of author names who reacted */
-  reactions?: string[];
+  /** Emoji reactions, e.g. `{ "👍": ["alice", "bob"] }` */
+  reactions?: CommentReactions;
+  /** Earlier bodies, oldest first (absent until the first edit) */
+  history?: CommentRevision[];
+  /** Who deleted the comment; deleted comments stay in the file as tombstones */
+  deletedBy?: string;
+  /** ISO-8601 timestamp when the comment was deleted */
+  deletedAt?: string;
 }
 
 /** Status of a comment thread */
-export type ThreadStatus = 'open' | 'stale';
+export type ThreadStatus = 'open' | 'resolved' | 'stale';
 
 /** A comment thread anchored to selected text in a document */
 export interface CommentThread {
@@ -62,18 +232,33 @@ export interface CommentThread {
   anchor: CommentAnchor;
   /** Current status of the thread */
   status: ThreadStatus;
-  /** All comments in this thread */
+  /**
+   * All comments in this thread
+   * @minItems 1
+   */
   thread: CommentEntry[];
   /** Highlight color for the selected text (hex, e.g. "#FFD700") */
   color?: string;
+  /** Who resolved the thread (set while `status === 'resolved'`) */
+  resolvedBy?: string;
+  /** ISO-8601 timestamp when the thread was resolved */
+  resolvedAt?: string;
+  /** Who deleted the thread; deleted threads stay in the file as tombstones */
+  deletedBy?: string;
+  /** ISO-8601 timestamp when the thread was deleted */
+  deletedAt?: string;
+  /** Earlier anchors, oldest first (absent until the comment is first re-attached) */
+  anchorHistory?: AnchorRevision[];
+  /** Set for suggestion threads: the text proposed in place of the anchored `markdownRange` (empty to delete it) */
+  suggestion?: string;
 }
 
 /** The sidecar file schema for storing comments */
 export interface SidecarFile {
   /** Name of the markdown document this file is for */
   doc: string;
-  /** Schema version for future compatibility */
-  version: '2.0';
+  /** Schema version — older files are upgraded on read (see utils/sidecarMigration.ts) */
+  version: '3.0';
   /** All comment threads for this document */
   comments: CommentThread[];
 }
@@ -0,0 +1,99 @@
+import type { CommentStore } from './stores/commentStore';
+import { applyOperation, invertOperation, type CommentOperation } from './utils/commentOperations';
+
+/** Operations kept per document; older ones fall off the undo stack. */
+const MAX_HISTORY = 100;
+
+export interface HistoryStep {
+  op: CommentOperation;
+  /** False when the comments changed since and the step could not be applied (it is dropped). */
+  applied: boolean;
+}
+
+/**
+ * Per-document undo/redo history of comment operations, kept in the
+ * extension host for the session. Undo and redo go through
+ * {@link CommentStore.mutate}, so they merge with concurrent changes like
+ * any other edit.
+ */
+export class OperationLog {
+  private readonly undoStacks = new Map<string, CommentOperation[]>();
+  private readonly redoStacks = new Map<string, CommentOperation[]>();
+
+  constructor(private readonly store: CommentStore) {}
+
+  /**
+   * Record an operation that was just applied. Clears the redo stack.
+   */
+  record(docPath: string, op: CommentOperation): void {
+    const stack = this.stack(this.undoStacks, docPath);
+    stack.push(op);
+    if (stack.length > MAX_HISTORY) { stack.shift(); }
+    this.redoStacks.delete(docPath);
+  }
+
+  canUndo(docPath: string): boolean {
+    return (this.undoStacks.get(docPath)?.length ?? 0) > 0;
+  }
+
+  canRedo(docPath: string): boolean {
+    return (this.redoStacks.get(docPath)?.length ?? 0) > 0;
+  }
+
+  /**
+   * Revert the most recent operation on a document.
+   * @param expected Only undo if this is still the most recent operation
+   *   (for "Undo" buttons on notifications that may be clicked late).
+   * @returns The step taken, or undefined when there was nothing (or not `expected`) to undo.
+   * @throws Whatever {@link CommentStore.mutate} throws; the operation stays on the stack to retry.
+   */
+  async undo(docPath: string, expected?: CommentOperation): Promise<HistoryStep | undefined> {
+    const undo = this.stack(this.undoStacks, docPath);
+    const op = undo[undo.length - 1];
+    if (!op || (expected && op !== expected)) { return undefined; }
+    undo.pop();
+
+    let applied: boolean;
+    try {
+      applied = await this.store.mutate(docPath, sidecar => applyOperation(sidecar, invertOperation(op)), 'internal');
+    } catch (error) {
+      undo.push(op);
+      throw error;
+    }
+    if (applied) {
+      this.stack(this.redoStacks, docPath).push(op);
+    }
+    return { op, applied };
+  }
+
+  /**
+   * Re-apply the most recently undone operation on a document.
+   * @throws Whatever {@link CommentStore.mutate} throws; the operation stays on the stack to retry.
+   */
+  async redo(docPath: string): Promise<HistoryStep | undefined> {
+    const redo = this.stack(this.redoStacks, docPath);
+    const op = redo.pop();
+    if (!op) { return undefined; }
+
+    let applied: boolean;
+    try {
+      applied = await this.store.mutate(docPath, sidecar => applyOperation(sidecar, op), 'internal');
+    } catch (error) {
+      redo.push(op);
+      throw error;
+    }
+    if (applied) {
+      this.stack(this.undoStacks, docPath).push(op);
+    }
+    return { op, applied };
+  }
+
+  private stack(stacks: Map<string, CommentOperation[]>, docPath: string): CommentOperation[] {
+    let stack = stacks.get(docPath);
+    if (!stack) {
+      stack = [];
+      stacks.set(docPath, stack);
+    }
+    return stack;
+  }
+}
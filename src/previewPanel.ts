@@ -1,13 +1,26 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { sidecarManager } from './sidecarManager';
-import type { SidecarChangeEvent } from './sidecarManager';
-import { anchorEngine } from './anchorEngine';
+import type { CommentStore, SidecarChangeEvent } from './stores/commentStore';
+import { UnreadableSidecarError } from './stores/sidecarMutation';
+import { DEFAULT_REACTION, UnsupportedSidecarVersionError } from './utils/sidecarMigration';
+import {
+  anchoringOf,
+  applyOperation,
+  describeOperation,
+  resolutionOf,
+  textOf,
+  type CommentOperation,
+} from './utils/commentOperations';
+import { currentRevision, isDeleted, liveThreads, purgeTombstones } from './utils/sidecarOps';
+import type { OperationLog } from './operationLog';
+import { anchorEngine, DEFAULT_MIN_CONFIDENCE, type AnchorMatch } from './anchorEngine';
 import { gitService } from './gitService';
-import type { CommentThread as AppCommentThread } from './models/types';
+import type { CommentThread as AppCommentThread, BlockType, CommentAnchor, PinRegion, SidecarFile } from './models/types';
 import { v4 as uuidv4 } from 'uuid';
-import { findSelectionInRawMarkdown } from './utils/markdown';
+import { findSelectionInRawMarkdown, imagePosition, parseMarkdownSections } from './utils/markdown';
 import { resolveInternalDocLink } from './utils/docLinks';
+import { applySuggestions, canApplySuggestion } from './utils/suggestions';
+import { trackedChanges, type BlockEdit } from './utils/trackChanges';
 
 /**
  * Manages a WebView panel that renders the markdown document
@@ -18,6 +31,8 @@ export class PreviewPanel implements vscode.Disposable {
 
   private static instance: PreviewPanel | undefined;
   private static extensionUri: vscode.Uri | undefined;
+  private static _store: CommentStore | undefined;
+  private static operationLog: OperationLog | undefined;
 
   private readonly panel: vscode.WebviewPanel;
   private document: vscode.TextDocument;
@@ -31,6 +46,10 @@ export class PreviewPanel implements vscode.Disposable {
   private _navHistory: vscode.Uri[] = [];
   /** Whether the comment sidebar is visible (session-level state) */
   private _sidebarVisible = true;
+  /** Thread to scroll to on the next render (consumed by update) */
+  private _focusThreadId: string | undefined;
+  /** The document as of the HEAD commit, re-read when HEAD moves */
+  private _headText: { commit: string; docPath: string; text: string | null } | undefined;
   private readonly styleUri: vscode.Uri;
   private readonly markdownItUri: vscode.Uri;
   private readonly docDirUri: () => vscode.Uri;
@@ -42,8 +61,40 @@ export class PreviewPanel implements vscode.Disposable {
     PreviewPanel.extensionUri = uri;
   }
 
-  /** Create a new preview panel or reveal an existing one. */
-  public static async show(document: vscode.TextDocument): Promise<void> {
+  /** Set the comment store to read and write threads through (call once during activation). */
+  public static setCommentStore(store: CommentStore): void {
+    PreviewPanel._store = store;
+  }
+
+  /** Set the undo/redo history that preview edits are recorded in. */
+  public static setOperationLog(log: OperationLog): void {
+    PreviewPanel.operationLog = log;
+  }
+
+  /** Undo the last comment change on the previewed document. */
+  public static async undo(): Promise<void> {
+    const panel = PreviewPanel.instance;
+    await panel?.stepHistory('undo', panel.document.uri.fsPath);
+  }
+
+  /** Redo the last undone comment change on the previewed document. */
+  public static async redo(): Promise<void> {
+    const panel = PreviewPanel.instance;
+    await panel?.stepHistory('redo', panel.document.uri.fsPath);
+  }
+
+  private static get store(): CommentStore {
+    if (!PreviewPanel._store) {
+      throw new Error('PreviewPanel comment store not set');
+    }
+    return PreviewPanel._store;
+  }
+
+  /**
+   * Create a new preview panel or reveal an existing one.
+   * @param focusThreadId Optional thread to scroll to once rendered.
+   */
+  public static async show(document: vscode.TextDocument, focusThreadId?: string): Promise<void> {
     // Open the preview as a tab in the active editor group so it takes the
     // full editor area instead of forcing a split. The webview takes focus
     // on first creation so its renderer activates reliably.
@@ -52,6 +103,7 @@ export class PreviewPanel implements vscode.Disposable {
 
     if (PreviewPanel.instance) {
       PreviewPanel.instance.document = document;
+      PreviewPanel.instance._focusThreadId = focusThreadId;
       // Reveal in the panel's existing column so a user-moved tab stays put.
       PreviewPanel.instance.panel.reveal(
         PreviewPanel.instance.panel.viewColumn,
@@ -83,6 +135,7 @@ export class PreviewPanel implements vscode.Disposable {
     );
 
     PreviewPanel.instance = new PreviewPanel(panel, document);
+    PreviewPanel.instance._focusThreadId = focusThreadId;
     await PreviewPanel.instance.update();
   }
 
@@ -117,7 +170,7 @@ export class PreviewPanel implements vscode.Disposable {
 
     // Re-render when sidecar data changes (from any origin except preview itself)
     this.disposables.push(
-      sidecarManager.onDidChange((e: SidecarChangeEvent) => {
+      PreviewPanel.store.onDidChange((e: SidecarChangeEvent) => {
         if (e.origin === 'preview') {
           // We wrote this ourselves — no need to reload (we already called this.update())
           return;
@@ -151,7 +204,7 @@ export class PreviewPanel implements vscode.Disposable {
 
     // Handle messages from the WebView
     this.panel.webview.onDidReceiveMessage(
-      msg => this.handleWebViewMessage(msg),
+      msg => this.handleWebViewMessage(msg).catch(err => this.reportError(err)),
       null,
       this.disposables,
     );
@@ -185,6 +238,154 @@ export class PreviewPanel implements vscode.Disposable {
     await this.update();
   }
 
+  /**
+   * Surface a failed webview action. A sidecar from a newer schema, or one
+   * that could not be loaded, blocks all mutations (so we never overwrite
+   * it) and gets an explicit error.
+   */
+  private reportError(err: unknown): void {
+    if (err instanceof UnsupportedSidecarVersionError || err instanceof UnreadableSidecarError) {
+      vscode.window.showErrorMessage(err.message);
+      return;
+    }
+    console.error('[MarkdownReview] Preview action failed:', err);
+    vscode.window.showErrorMessage(`Comment action failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  /**
+   * Run one recorded comment edit. `build` looks at the stored sidecar and
+   * returns the operation to apply, or undefined to do nothing. Applied
+   * operations go on the undo stack.
+   */
+  private async perform(build: (sidecar: SidecarFile) => CommentOperation | undefined): Promise<CommentOperation | undefined> {
+    const docPath = this.document.uri.fsPath;
+    const op = await PreviewPanel.store.mutate(docPath, sidecar => {
+      const built = build(sidecar);
+      return built && applyOperation(sidecar, built) ? built : undefined;
+    }, 'preview');
+    if (op) {
+      PreviewPanel.operationLog?.record(docPath, op);
+    }
+    return op;
+  }
+
+  /**
+   * Undo or redo on `docPath`. With `expected`, undo only if that operation
+   * is still the latest (a notification's Undo button may be clicked late).
+   */
+  private async stepHistory(direction: 'undo' | 'redo', docPath: string, expected?: CommentOperation): Promise<void> {
+    const log = PreviewPanel.operationLog;
+    if (!log) { return; }
+    const step = direction === 'undo' ? await log.undo(docPath, expected) : await log.redo(docPath);
+    if (!step) {
+      if (expected) {
+        vscode.window.showInformationMessage('That change can no longer be undone because newer comment changes were made.');
+      } else {
+        vscode.window.setStatusBarMessage(`Nothing to ${direction} in comments`, 3000);
+      }
+      return;
+    }
+    if (!step.applied) {
+      vscode.window.showWarningMessage(`Could not ${direction} ${describeOperation(step.op)}: the comments have changed since.`);
+      return;
+    }
+    // The store's change event (origin 'internal') re-renders the preview
+    vscode.window.setStatusBarMessage(`${direction === 'undo' ? 'Undid' : 'Redid'} ${describeOperation(step.op)}`, 3000);
+  }
+
+  /** Notification with an Undo button after a destructive edit. */
+  private offerUndo(message: string, op: CommentOperation): void {
+    const docPath = this.document.uri.fsPath;
+    vscode.window.showInformationMessage(message, 'Undo').then(choice => {
+      if (choice === 'Undo') {
+        this.stepHistory('undo', docPath, op).catch(err => this.reportError(err));
+      }
+    });
+  }
+
+  /**
+   * Resolved threads are locked: reply, edit and delete are rejected until
+   * the thread is reopened. Returns true (after warning) when locked.
+   */
+  private rejectIfResolved(thread: AppCommentThread): boolean {
+    if (thread.status !== 'resolved') { return false; }
+    vscode.window.showWarningMessage('This thread is resolved. Reopen it to make changes.');
+    return true;
+  }
+
+  /**
+   * Add a new thread whose first comment, by the current user, is `body`.
+   * With a `suggestion`, it is a suggestion thread proposing that text in
+   * place of the anchored text.
+   */
+  private async startThread(anchor: CommentAnchor, body: string, suggestion?: string): Promise<void> {
+    const author = await gitService.getUserName();
+    const now = new Date().toISOString();
+    const thread: AppCommentThread = {
+      id: uuidv4(),
+      anchor,
+      status: 'open',
+      thread: [{ id: uuidv4(), author, body, created: now, edited: null }],
+    };
+    if (suggestion !== undefined) { thread.suggestion = suggestion; }
+    await this.perform(sidecar => ({ kind: 'addThread', thread, index: sidecar.comments.length }));
+  }
+
+  /**
+   * Apply the suggestions of the given threads to the document in one edit,
+   * through {@link replaceDocumentContent}, then resolve the threads that
+   * were applied. Suggestions whose text changed since, or that overlap an
+   * earlier one, are left open.
+   */
+  private async applySuggestionThreads(threadIds: string[]): Promise<void> {
+    await this.ensureDocumentFresh();
+    const rawMarkdown = this.document.getText().replace(/\r\n/g, '\n');
+    const sidecar = await PreviewPanel.store.readSidecar(this.document.uri.fsPath);
+    const threads = (sidecar?.comments ?? []).filter(t => threadIds.includes(t.id));
+    const { text, applied, skipped } = applySuggestions(rawMarkdown, threads);
+    if (skipped.length > 0) {
+      vscode.window.showWarningMessage(
+        `${skipped.length} suggestion${skipped.length === 1 ? ' was' : 's were'} not applied: ` +
+        'the text changed since, or overlaps another suggestion.',
+      );
+    }
+    if (applied.length === 0) { return; }
+
+    await this.replaceDocumentContent(this.document.eol === vscode.EndOfLine.CRLF ? text.replace(/\n/g, '\r\n') : text);
+    const author = await gitService.getUserName();
+    for (const { id } of applied) {
+      await this.perform(stored => {
+        const thread = stored.comments.find(t => t.id === id);
+        if (!thread || thread.status === 'resolved') { return; }
+        return {
+          kind: 'setResolution',
+          threadId: id,
+          before: resolutionOf(thread),
+          after: { status: 'resolved', resolvedBy: author, resolvedAt: new Date().toISOString() },
+        };
+      });
+    }
+    await this.update();
+  }
+
+  /**
+   * Let the reviewer pick from suggestion threads, all picked to begin
+   * with. Returns the picked thread ids; none when dismissed.
+   */
+  private async pickSuggestions(candidates: AppCommentThread[], title: string, placeHolder: string): Promise<string[]> {
+    const picked = await vscode.window.showQuickPick(
+      candidates.map(t => ({
+        label: t.suggestion ? t.suggestion.split('\n')[0] : '(delete)',
+        description: `replaces "${t.anchor.selectedText.split('\n')[0]}"`,
+        detail: t.thread[0].body ? `${t.thread[0].author}: ${t.thread[0].body.split('\n')[0]}` : t.thread[0].author,
+        picked: true,
+        threadId: t.id,
+      })),
+      { canPickMany: true, title, placeHolder },
+    );
+    return (picked ?? []).map(p => p.threadId);
+  }
+
   // ───────────────── WebView message handler ─────────────────
 
   private async handleWebViewMessage(msg: { command: string; [key: string]: unknown }): Promise<void> {
@@ -199,9 +400,9 @@ export class PreviewPanel implements vscode.Disposable {
         const selectedText = msg.selectedText as string;
         const body = (msg.body as string || '').trim();
         const contentOffset = (msg.contentOffset as number) || 0;
+        const suggestion = typeof msg.suggestion === 'string' ? msg.suggestion : undefined;
         if (!selectedText || !body) { return; }
 
-        const author = await gitService.getUserName();
         const rawMarkdown = this.document.getText().replace(/\r\n/g, '\n');
 
         const match = findSelectionInRawMarkdown(selectedText, rawMarkdown, contentOffset);
@@ -214,6 +415,7 @@ export class PreviewPanel implements vscode.Disposable {
             selectedText,
             contentOffset,
             body,
+            suggestion,
           });
           vscode.window.showWarningMessage(
             'Could not anchor your comment to the selected text. ' +
@@ -226,20 +428,41 @@ export class PreviewPanel implements vscode.Disposable {
         const anchor = anchorEngine.createAnchor(
           match.text, match.start, endOffset, rawMarkdown, selectedText,
         );
+        const commit = await this.committedAs(rawMarkdown);
+        if (commit) { anchor.commit = commit; }
 
-        let sidecar = await sidecarManager.readSidecar(this.document.uri.fsPath);
-        if (!sidecar) {
-          sidecar = sidecarManager.createEmptySidecar(path.basename(this.document.uri.fsPath));
-        }
+        await this.startThread(anchor, body, suggestion);
+        await this.update();
+        break;
+      }
 
-        const now = new Date().toISOString();
-        sidecarManager.addThread(sidecar, {
-          anchor,
-          status: 'open',
-          thread: [{ id: uuidv4(), author, body, created: now, edited: null }],
-        });
+      // A comment on a whole section or block (or a pin on an image or diagram, a line of code or a table cell)
+      case 'addBlockComment': {
+        await this.ensureDocumentFresh();
+        const target = msg.target as BlockTarget;
+        const body = (msg.body as string || '').trim();
+        const suggestion = typeof msg.suggestion === 'string' ? msg.suggestion : undefined;
+        if (!target || !body) { return; }
+
+        const rawMarkdown = this.document.getText().replace(/\r\n/g, '\n');
+        const anchor = blockTargetAnchor(target, rawMarkdown);
+        if (!anchor) {
+          vscode.window.showWarningMessage('Could not find that part of the document in its source. Refresh the preview and try again.');
+          return;
+        }
+        const commit = await this.committedAs(rawMarkdown);
+        if (commit) { anchor.commit = commit; }
+        await this.startThread(anchor, body, suggestion);
+        await this.update();
+        break;
+      }
 
-        await sidecarManager.writeSidecar(this.document.uri.fsPath, sidecar, 'preview');
+      // A general comment on the whole document, from the sidebar header
+      case 'addGeneralComment': {
+        const body = (msg.body as string || '').trim();
+        if (!body) { return; }
+        await this.ensureDocumentFresh();
+        await this.startThread(anchorEngine.createDocumentAnchor(), body);
         await this.update();
         break;
       }
@@ -250,17 +473,17 @@ export class PreviewPanel implements vscode.Disposable {
         if (!body || !threadId) { return; }
 
         const author = await gitService.getUserName();
-        const sidecar = await sidecarManager.readSidecar(this.document.uri.fsPath);
-        if (!sidecar) { return; }
-
-        sidecarManager.addReply(sidecar, threadId, {
-          author,
-          body,
-          created: new Date().toISOString(),
-          edited: null,
+        await this.perform(sidecar => {
+          const replyThread = sidecar.comments.find(t => t.id === threadId);
+          if (!replyThread || isDeleted(replyThread) || this.rejectIfResolved(replyThread)) { return; }
+
+          return {
+            kind: 'addComment',
+            threadId,
+            entry: { id: uuidv4(), author, body, created: new Date().toISOString(), edited: null },
+            index: replyThread.thread.length,
+          };
         });
-
-        await sidecarManager.writeSidecar(this.document.uri.fsPath, sidecar, 'preview');
         await this.update();
         break;
       }
@@ -269,18 +492,18 @@ export class PreviewPanel implements vscode.Disposable {
         const threadId = msg.threadId as string;
         if (!threadId) { return; }
         const currentUser = await gitService.getUserName();
-        const sidecar = await sidecarManager.readSidecar(this.document.uri.fsPath);
-        if (!sidecar) { return; }
-        const thread = sidecar.comments.find(t => t.id === threadId);
-        if (!thread) { return; }
-        // Only the thread creator (first comment author) may delete the thread
-        if (thread.thread[0]?.author !== currentUser) {
-          vscode.window.showWarningMessage('You can only delete threads you created.');
-          return;
-        }
-        sidecarManager.deleteThread(sidecar, threadId);
-        await sidecarManager.writeSidecar(this.document.uri.fsPath, sidecar, 'preview');
+        const op = await this.perform(sidecar => {
+          const thread = sidecar.comments.find(t => t.id === threadId);
+          if (!thread || isDeleted(thread) || this.rejectIfResolved(thread)) { return; }
+          // Only the thread creator (first comment author) may delete the thread
+          if (thread.thread[0]?.author !== currentUser) {
+            vscode.window.showWarningMessage('You can only delete threads you created.');
+            return;
+          }
+          return { kind: 'deleteThread', threadId, tombstone: { deletedBy: currentUser, deletedAt: new Date().toISOString() } };
+        });
         await this.update();
+        if (op) { this.offerUndo('Thread deleted.', op); }
         break;
       }
 
@@ -289,20 +512,27 @@ export class PreviewPanel implements vscode.Disposable {
         const commentId = msg.commentId as string;
         if (!threadId || !commentId) { return; }
         const currentUser = await gitService.getUserName();
-        const sidecar = await sidecarManager.readSidecar(this.document.uri.fsPath);
-        if (!sidecar) { return; }
-        const thread = sidecar.comments.find(t => t.id === threadId);
-        if (!thread) { return; }
-        const entry = thread.thread.find(c => c.id === commentId);
-        if (!entry) { return; }
-        // Only the comment author may delete their own comment
-        if (entry.author !== currentUser) {
-          vscode.window.showWarningMessage('You can only delete your own comments.');
-          return;
-        }
-        sidecarManager.deleteCommentById(sidecar, threadId, commentId);
-        await sidecarManager.writeSidecar(this.document.uri.fsPath, sidecar, 'preview');
+        const op = await this.perform(sidecar => {
+          const thread = sidecar.comments.find(t => t.id === threadId);
+          if (!thread || isDeleted(thread) || this.rejectIfResolved(thread)) { return; }
+          const entry = thread.thread.find(c => c.id === commentId);
+          if (!entry || isDeleted(entry)) { return; }
+          // Only the comment author may delete their own comment
+          if (entry.author !== currentUser) {
+            vscode.window.showWarningMessage('You can only delete your own comments.');
+            return;
+          }
+          return {
+            kind: 'deleteComment',
+            threadId,
+            commentId,
+            tombstone: { deletedBy: currentUser, deletedAt: new Date().toISOString() },
+            // Deleting the last live comment deletes the whole thread
+            lastInThread: thread.thread.every(c => c === entry || isDeleted(c)),
+          };
+        });
         await this.update();
+        if (op) { this.offerUndo('Comment deleted.', op); }
         break;
       }
 
@@ -312,22 +542,223 @@ export class PreviewPanel implements vscode.Disposable {
         const body = (msg.body as string || '').trim();
         if (!threadId || !commentId || !body) { return; }
         const currentUser = await gitService.getUserName();
-        const sidecar = await sidecarManager.readSidecar(this.document.uri.fsPath);
-        if (!sidecar) { return; }
-        const editThread = sidecar.comments.find(t => t.id === threadId);
-        if (!editThread) { return; }
-        // Verify ownership
-        const editEntry = editThread.thread.find(c => c.id === commentId);
-        if (!editEntry || editEntry.author !== currentUser) {
-          vscode.window.showWarningMessage('You can only edit your own comments.');
+        await this.perform(sidecar => {
+          const editThread = sidecar.comments.find(t => t.id === threadId);
+          if (!editThread || this.rejectIfResolved(editThread)) { return; }
+          // Verify ownership
+          const editEntry = editThread.thread.find(c => c.id === commentId);
+          if (!editEntry || isDeleted(editEntry)) { return; }
+          if (editEntry.author !== currentUser) {
+            vscode.window.showWarningMessage('You can only edit your own comments.');
+            return;
+          }
+          if (editEntry.body === body) { return; }
+          return {
+            kind: 'editComment',
+            threadId,
+            commentId,
+            before: textOf(editEntry),
+            after: {
+              body,
+              edited: new Date().toISOString(),
+              history: [...editEntry.history ?? [], currentRevision(editEntry)],
+            },
+          };
+        });
+        await this.update();
+        break;
+      }
+
+      case 'toggleReaction': {
+        const threadId = msg.threadId as string;
+        const commentId = msg.commentId as string;
+        const emoji = (msg.emoji as string) || DEFAULT_REACTION;
+        if (!threadId || !commentId) { return; }
+        const author = await gitService.getUserName();
+        await this.perform(sidecar => {
+          const entry = sidecar.comments.find(t => t.id === threadId)?.thread.find(c => c.id === commentId);
+          if (!entry || isDeleted(entry)) { return; }
+          const added = !(entry.reactions?.[emoji] ?? []).includes(author);
+          return { kind: 'reaction', threadId, commentId, author, emoji, added };
+        });
+        await this.update();
+        break;
+      }
+
+      case 'resolveThread': {
+        const threadId = msg.threadId as string;
+        if (!threadId) { return; }
+        const author = await gitService.getUserName();
+        await this.perform(sidecar => {
+          const thread = sidecar.comments.find(t => t.id === threadId);
+          // Resolving again would overwrite who resolved it and when
+          if (!thread || thread.status === 'resolved' || isDeleted(thread)) { return; }
+          return {
+            kind: 'setResolution',
+            threadId,
+            before: resolutionOf(thread),
+            after: { status: 'resolved', resolvedBy: author, resolvedAt: new Date().toISOString() },
+          };
+        });
+        await this.update();
+        break;
+      }
+
+      // A suggestion thread's "Apply" button
+      case 'applySuggestion': {
+        const threadId = msg.threadId as string;
+        if (!threadId) { return; }
+        await this.applySuggestionThreads([threadId]);
+        break;
+      }
+
+      // "Apply suggestions…" in the sidebar header: the reviewer picks which to accept
+      case 'applySuggestions': {
+        await this.ensureDocumentFresh();
+        const rawMarkdown = this.document.getText().replace(/\r\n/g, '\n');
+        const sidecar = await PreviewPanel.store.readSidecar(this.document.uri.fsPath);
+        const candidates = (sidecar?.comments ?? []).filter(t => canApplySuggestion(t, rawMarkdown));
+        if (candidates.length === 0) {
+          vscode.window.showInformationMessage('There are no open suggestions to apply.');
+          return;
+        }
+        const picked = await this.pickSuggestions(candidates, 'Apply suggestions', 'Accepted suggestions are applied in one edit and resolved');
+        if (picked.length === 0) { return; }
+        await this.applySuggestionThreads(picked);
+        break;
+      }
+
+      // "Reject suggestions…" in the sidebar header: the picked ones are resolved, the document left as it is
+      case 'rejectSuggestions': {
+        const sidecar = await PreviewPanel.store.readSidecar(this.document.uri.fsPath);
+        const candidates = (sidecar?.comments ?? []).filter(t => t.suggestion !== undefined && t.status === 'open' && !isDeleted(t));
+        if (candidates.length === 0) {
+          vscode.window.showInformationMessage('There are no open suggestions to reject.');
+          return;
+        }
+        const picked = await this.pickSuggestions(candidates, 'Reject suggestions', 'Rejected suggestions are resolved without changing the document');
+        if (picked.length === 0) { return; }
+        const author = await gitService.getUserName();
+        for (const id of picked) {
+          await this.perform(stored => {
+            const thread = stored.comments.find(t => t.id === id);
+            if (!thread || thread.status === 'resolved') { return; }
+            return {
+              kind: 'setResolution',
+              threadId: id,
+              before: resolutionOf(thread),
+              after: { status: 'resolved', resolvedBy: author, resolvedAt: new Date().toISOString() },
+            };
+          });
+        }
+        await this.update();
+        break;
+      }
+
+      // Track changes: blocks edited in the preview become suggestion threads
+      case 'trackChanges': {
+        const edits = msg.edits as BlockEdit[];
+        if (!Array.isArray(edits) || edits.length === 0) { return; }
+        await this.ensureDocumentFresh();
+        const rawMarkdown = this.document.getText().replace(/\r\n/g, '\n');
+        const commit = await this.committedAs(rawMarkdown);
+        let unmapped = 0;
+        for (const edit of edits) {
+          const result = trackedChanges(rawMarkdown, edit);
+          unmapped += result.unmapped;
+          for (const change of result.changes) {
+            const anchor = anchorEngine.createAnchor(
+              rawMarkdown.slice(change.startOffset, change.endOffset), change.startOffset, change.endOffset, rawMarkdown, change.original,
+            );
+            if (commit) { anchor.commit = commit; }
+            await this.startThread(anchor, '', change.replacement);
+          }
+        }
+        if (unmapped > 0) {
+          vscode.window.showWarningMessage(
+            `${unmapped} change${unmapped === 1 ? '' : 's'} could not be matched to the document source and ${unmapped === 1 ? 'was' : 'were'} not recorded. ` +
+            'Comment on that text with Suggest change instead.',
+          );
+        }
+        await this.update();
+        break;
+      }
+
+      case 'reopenThread': {
+        const threadId = msg.threadId as string;
+        if (!threadId) { return; }
+        await this.perform(sidecar => {
+          const thread = sidecar.comments.find(t => t.id === threadId);
+          if (!thread) { return; }
+          return { kind: 'setResolution', threadId, before: resolutionOf(thread), after: { status: 'open' } };
+        });
+        await this.update();
+        break;
+      }
+
+      case 'confirmAnchor': {
+        const threadId = msg.threadId as string;
+        if (!threadId) { return; }
+        await this.ensureDocumentFresh();
+        const rawMarkdown = this.document.getText().replace(/\r\n/g, '\n');
+        const minConfidence = this.anchorConfidenceThreshold();
+        const commit = await this.committedAs(rawMarkdown);
+        await this.perform(sidecar => {
+          const thread = sidecar.comments.find(t => t.id === threadId);
+          if (!thread || isDeleted(thread) || this.rejectIfResolved(thread)) { return; }
+          const match = anchorEngine.anchorComment(thread.anchor, rawMarkdown, minConfidence);
+          const anchor = match && anchorEngine.confirmedAnchor(thread.anchor, match, rawMarkdown);
+          if (!anchor) { return; }
+          if (commit) { anchor.commit = commit; }
+          const before = structuredClone(anchoringOf(thread));
+          return { kind: 'setAnchor', threadId, before, after: { ...before, anchor } };
+        });
+        await this.update();
+        break;
+      }
+
+      // Re-anchor a moved thread, or re-attach a stale one, to text the reviewer selected
+      case 'reanchorThread': {
+        const threadId = msg.threadId as string;
+        const selectedText = msg.selectedText as string;
+        const contentOffset = (msg.contentOffset as number) || 0;
+        if (!threadId || !selectedText) { return; }
+        await this.ensureDocumentFresh();
+        const rawMarkdown = this.document.getText().replace(/\r\n/g, '\n');
+        const match = findSelectionInRawMarkdown(selectedText, rawMarkdown, contentOffset);
+        if (!match) {
+          vscode.window.showWarningMessage('Could not find the selected text in the document source. Try selecting it again.');
           return;
         }
-        sidecarManager.editComment(sidecar, threadId, commentId, body);
-        await sidecarManager.writeSidecar(this.document.uri.fsPath, sidecar, 'preview');
+        const anchor = anchorEngine.createAnchor(
+          match.text, match.start, match.start + match.text.length, rawMarkdown, selectedText,
+        );
+        const commit = await this.committedAs(rawMarkdown);
+        if (commit) { anchor.commit = commit; }
+        const author = await gitService.getUserName();
+        await this.perform(sidecar => {
+          const thread = sidecar.comments.find(t => t.id === threadId);
+          if (!thread || isDeleted(thread) || this.rejectIfResolved(thread)) { return; }
+          // The replaced anchor is kept so reviewers can see what the comment first referred to
+          const before = structuredClone(anchoringOf(thread));
+          const replaced = { anchor: before.anchor, replacedBy: author, replacedAt: new Date().toISOString() };
+          return {
+            kind: 'setAnchor',
+            threadId,
+            before,
+            after: { anchor, status: 'open', anchorHistory: [...before.anchorHistory ?? [], replaced] },
+          };
+        });
         await this.update();
         break;
       }
 
+      case 'inputFocus': {
+        // Lets the undo/redo keybindings step aside while typing in a comment box
+        await vscode.commands.executeCommand('setContext', INPUT_FOCUSED_CONTEXT, msg.focused === true);
+        break;
+      }
+
       case 'openExternal': {
         const url = msg.url as string;
         if (url && /^https?:\/\//i.test(url)) {
@@ -431,53 +862,184 @@ export class PreviewPanel implements vscode.Disposable {
 
     const rawMarkdown = this.document.getText().replace(/\r\n/g, '\n');
 
-    // Load comments and run stale detection
-    const sidecar = await sidecarManager.readSidecar(this.document.uri.fsPath);
+    // Load comments and run stale detection. A sidecar from a newer schema
+    // renders without comments (and read-only, since every mutation re-reads).
+    let sidecar = null;
+    try {
+      sidecar = await PreviewPanel.store.readSidecar(this.document.uri.fsPath);
+    } catch (err) {
+      if (!(err instanceof UnsupportedSidecarVersionError)) { throw err; }
+      vscode.window.showErrorMessage(err.message);
+    }
     let threads: AppCommentThread[] = [];
 
     if (sidecar) {
-      // Stale detection updates anchors in-place when text moves
-      const { updates: staleUpdates, anchorsMoved } = anchorEngine.detectStaleThreads(rawMarkdown, sidecar.comments);
+      // Deleted threads are only kept for the audit trail
+      threads = liveThreads(sidecar);
+      // Stale detection updates anchors in-place when text moves; anchors
+      // whose text is gone are first followed through the git history
+      const minConfidence = this.anchorConfidenceThreshold();
+      const context = {
+        commit: await this.committedAs(rawMarkdown),
+        relocated: await this.relocateThroughHistory(threads, rawMarkdown, minConfidence),
+      };
+      const { updates: staleUpdates, anchorsMoved } = anchorEngine.detectStaleThreads(rawMarkdown, threads, minConfidence, context);
       for (const { thread, newStatus } of staleUpdates) {
         thread.status = newStatus;
       }
-      threads = sidecar.comments;
-      // Persist any anchor/status updates (including drift)
-      if (staleUpdates.length > 0 || anchorsMoved) {
-        await sidecarManager.writeSidecar(this.document.uri.fsPath, sidecar, 'internal');
+      const purgeCutoff = this.purgeCutoff();
+      const purgeDue = purgeCutoff !== undefined && purgeTombstones(structuredClone(sidecar), purgeCutoff) > 0;
+      // Persist any anchor/status updates (including drift) and purges. Both
+      // are re-run on the stored copy so a concurrent change is not overwritten.
+      if (staleUpdates.length > 0 || anchorsMoved || purgeDue) {
+        await PreviewPanel.store.mutate(this.document.uri.fsPath, stored => {
+          for (const { thread, newStatus } of anchorEngine.detectStaleThreads(rawMarkdown, liveThreads(stored), minConfidence, context).updates) {
+            thread.status = newStatus;
+          }
+          if (purgeCutoff) { purgeTombstones(stored, purgeCutoff); }
+        }, 'internal');
       }
     }
 
     // Sort threads by document position
     threads.sort((a, b) => a.anchor.markdownRange.startOffset - b.anchor.markdownRange.startOffset);
 
+    // Fuzzy-matched threads highlight the text as it reads now
+    const isFuzzy = (t: AppCommentThread) => t.anchor.strategy === 'fuzzy' && t.status !== 'stale';
+    const highlightText = (t: AppCommentThread) => isFuzzy(t)
+      ? rawMarkdown.slice(t.anchor.markdownRange.startOffset, t.anchor.markdownRange.endOffset)
+      : t.anchor.selectedText;
+
     // Build WebView data with occurrence indices for highlight disambiguation
     const threadsData = threads.map(t => {
       const sameTextBefore = threads.filter(
-        other => other.anchor.selectedText === t.anchor.selectedText &&
+        other => highlightText(other) === highlightText(t) &&
                  other.anchor.markdownRange.startOffset < t.anchor.markdownRange.startOffset,
       ).length;
       return {
         id: t.id,
-        selectedText: t.anchor.selectedText,
-        displayText: t.anchor.displayText ?? t.anchor.selectedText,
+        selectedText: highlightText(t),
+        displayText: isFuzzy(t) ? highlightText(t) : t.anchor.displayText ?? t.anchor.selectedText,
         occurrenceIndex: sameTextBefore,
+        anchorState: anchorStateOf(t, rawMarkdown),
+        anchorKind: t.anchor.kind,
+        blockType: t.anchor.blockType,
+        imageIndex: t.anchor.blockType === 'image'
+          ? imagePosition(rawMarkdown, t.anchor.markdownRange.startOffset).index
+          : undefined,
+        region: t.anchor.region,
+        // Sections, blocks, code lines and cells are highlighted as a whole, found by their first line
+        blockLine: t.anchor.kind && t.anchor.kind !== 'text' && t.anchor.kind !== 'document'
+          ? rawMarkdown.slice(0, t.anchor.markdownRange.startOffset).split('\n').length - 1
+          : undefined,
+        cellColumn: t.anchor.tableCell?.column,
+        suggestion: t.suggestion !== undefined
+          ? { original: t.anchor.selectedText, replacement: t.suggestion, applicable: canApplySuggestion(t, rawMarkdown) }
+          : undefined,
+        anchorStrategy: t.anchor.strategy,
+        anchorConfidence: t.anchor.confidence,
+        originalText: t.anchor.displayText ?? t.anchor.selectedText,
+        anchorHistory: t.anchorHistory?.map(r => ({
+          text: r.anchor.displayText ?? r.anchor.selectedText,
+          replacedBy: r.replacedBy,
+          replacedAt: r.replacedAt,
+        })),
         status: t.status,
         color: t.color,
-        thread: t.thread,
+        // Deleted comments render as placeholders; their text stays in the store
+        thread: t.thread.map(c => isDeleted(c)
+          ? { id: c.id, author: c.author, body: '', created: c.created, edited: c.edited, deletedBy: c.deletedBy, deletedAt: c.deletedAt }
+          : c),
         startOffset: t.anchor.markdownRange.startOffset,
+        resolvedBy: t.resolvedBy,
+        resolvedAt: t.resolvedAt,
       };
     });
 
     const currentUser = await gitService.getUserName();
+    const reactionEmojis = vscode.workspace
+      .getConfiguration('markdownReview', this.document.uri)
+      .get<string[]>('reactions', [DEFAULT_REACTION]);
+
+    const focusThreadId = this._focusThreadId ?? null;
+    this._focusThreadId = undefined;
 
     this.panel.title = `Preview: ${path.basename(this.document.uri.fsPath)}`;
-    this.panel.webview.html = this.buildHtml(rawMarkdown, threadsData, currentUser, this._sidebarVisible);
+    this.panel.webview.html = this.buildHtml(
+      rawMarkdown, threadsData, currentUser, this._sidebarVisible, reactionEmojis, focusThreadId,
+    );
     } finally {
       this._isUpdating = false;
     }
   }
 
+  /**
+   * The HEAD commit when the document reads exactly as it does there, so
+   * anchors made or re-located now are valid in it. Undefined for
+   * uncommitted edits, and outside a git repository.
+   */
+  private async committedAs(rawMarkdown: string): Promise<string | undefined> {
+    try {
+      const head = await gitService.resolveRef('HEAD');
+      if (!head) { return undefined; }
+      const docPath = this.document.uri.fsPath;
+      if (this._headText?.commit !== head || this._headText.docPath !== docPath) {
+        const text = await gitService.readFileAt(head, docPath);
+        this._headText = { commit: head, docPath, text: text?.replace(/\r\n/g, '\n') ?? null };
+      }
+      return this._headText.text === rawMarkdown ? head : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Where anchors whose text can no longer be found went, following each
+   * through the git diff since the commit it was last valid in. Threads
+   * missing from the result were deleted with their text (or have no commit).
+   */
+  private async relocateThroughHistory(
+    threads: AppCommentThread[],
+    rawMarkdown: string,
+    minConfidence: number,
+  ): Promise<Map<string, AnchorMatch>> {
+    const relocated = new Map<string, AnchorMatch>();
+    const orphans = threads.filter(t => t.anchor.commit && !anchorEngine.anchorComment(t.anchor, rawMarkdown, minConfidence));
+    try {
+      for (const commit of new Set(orphans.map(t => t.anchor.commit!))) {
+        const old = await gitService.readFileAt(commit, this.document.uri.fsPath);
+        if (old === null) { continue; }
+        const oldSource = old.replace(/\r\n/g, '\n');
+        const hunks = await gitService.diffTexts(oldSource, rawMarkdown);
+        for (const thread of orphans.filter(t => t.anchor.commit === commit)) {
+          const match = anchorEngine.followHistory(thread.anchor, oldSource, rawMarkdown, hunks);
+          if (match) { relocated.set(thread.id, match); }
+        }
+      }
+    } catch (err) {
+      console.warn('[MarkdownReview] could not follow anchors through git history:', err);
+    }
+    return relocated;
+  }
+
+  /** Fuzzy re-anchoring rejects matches below this confidence. */
+  private anchorConfidenceThreshold(): number {
+    return vscode.workspace
+      .getConfiguration('markdownReview', this.document.uri)
+      .get<number>('anchorConfidenceThreshold', DEFAULT_MIN_CONFIDENCE);
+  }
+
+  /**
+   * Tombstones deleted before this date are purged, per
+   * `markdownReview.purgeDeletedAfterDays` (undefined when disabled).
+   */
+  private purgeCutoff(): Date | undefined {
+    const days = vscode.workspace
+      .getConfiguration('markdownReview', this.document.uri)
+      .get<number>('purgeDeletedAfterDays', 0);
+    return days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+  }
+
   // ───────────────── HTML template ─────────────────
 
   private buildHtml(
@@ -487,18 +1049,45 @@ export class PreviewPanel implements vscode.Disposable {
       selectedText: string;
       displayText: string;
       occurrenceIndex: number;
+      anchorState?: AnchorState;
+      anchorKind?: string;
+      blockType?: string;
+      imageIndex?: number;
+      region?: PinRegion;
+      blockLine?: number;
+      cellColumn?: number;
+      suggestion?: { original: string; replacement: string; applicable: boolean };
+      anchorStrategy?: string;
+      anchorConfidence?: number;
+      originalText: string;
+      anchorHistory?: Array<{ text: string; replacedBy: string; replacedAt: string }>;
       status: string;
       color?: string;
-      thread: Array<{ id: string; author: string; body: string; created: string; edited: string | null }>;
+      thread: Array<{
+        id: string;
+        author: string;
+        body: string;
+        created: string;
+        edited: string | null;
+        reactions?: Record<string, string[]>;
+        history?: Array<{ body: string; written: string }>;
+        deletedBy?: string;
+        deletedAt?: string;
+      }>;
       startOffset: number;
+      resolvedBy?: string;
+      resolvedAt?: string;
     }>,
     currentUser: string,
     sidebarVisible: boolean,
+    reactionEmojis: string[],
+    focusThreadId: string | null,
   ): string {
     const nonce = getNonce();
     const cspSource = this.panel.webview.cspSource;
     const threadsJson = JSON.stringify(threads).replace(/</g, '\\u003c');
     const userJson = JSON.stringify(currentUser).replace(/</g, '\\u003c');
+    const reactionsJson = JSON.stringify(reactionEmojis).replace(/</g, '\\u003c');
     const docTitle = path.basename(this.document.uri.fsPath);
     const docDirBase = this.docDirUri().toString();
 
@@ -521,6 +1110,7 @@ export class PreviewPanel implements vscode.Disposable {
           <div class="doc-header-actions">
             <button class="back-btn" id="backBtn" title="Go back to previous document" style="display:${this._navHistory.length > 0 ? 'inline-flex' : 'none'}">&#x2190; Back</button>
             <button class="toggle-sidebar-btn" id="toggleSidebarBtn" title="${sidebarVisible ? 'Hide comments sidebar' : 'Show comments sidebar'}">${sidebarVisible ? '&#x2630; Hide Comments' : '&#x2630; Show Comments'}</button>
+            <button class="refresh-btn" id="trackChangesBtn" title="Edit the text here; your changes are recorded as suggestions">&#x270E; Track Changes</button>
             <button class="refresh-btn" id="refreshBtn" title="Refresh document">&#x21bb; Refresh</button>
           </div>
         </div>
@@ -538,6 +1128,11 @@ export class PreviewPanel implements vscode.Disposable {
     <div id="sidebar">
       <div class="sidebar-header">
         <span>Comments <span id="thread-count-badge" class="thread-count-badge"></span></span>
+        <span class="sidebar-header-actions">
+          <button class="header-btn" id="applySuggestionsBtn" title="Pick suggested edits to apply in one edit">Apply suggestions</button>
+          <button class="header-btn" id="rejectSuggestionsBtn" title="Pick suggested edits to reject">Reject suggestions</button>
+          <button class="header-btn" id="newGeneralCommentBtn" title="New general comment on the whole document">+ General</button>
+        </span>
       </div>
       <div id="sidebar-content"></div>
     </div>
@@ -545,11 +1140,16 @@ export class PreviewPanel implements vscode.Disposable {
   <div id="comment-toolbar">
     <button id="toolbar-comment-btn">\uD83D\uDCAC Comment</button>
   </div>
+  <button id="block-comment-btn">\uD83D\uDCAC</button>
+  <button id="code-line-btn" title="Comment on this line">+</button>
+  <button id="cell-comment-btn" title="Comment on this cell">+</button>
   <script src="${this.markdownItUri}"></script>
   <script src="https://cdn.jsdelivr.net/npm/mermaid@11/dist/mermaid.min.js"></script>
   <script nonce="${nonce}">
     const threads = ${threadsJson};
     const currentUser = ${userJson};
+    const reactionEmojis = ${reactionsJson};
+    const focusThreadId = ${JSON.stringify(focusThreadId)};
     const rawMarkdown = ${JSON.stringify(rawMarkdown)};
     const docDirBase = ${JSON.stringify(docDirBase)};
 ${PREVIEW_JS}
@@ -562,6 +1162,7 @@ ${PREVIEW_JS}
 
   dispose(): void {
     PreviewPanel.instance = undefined;
+    vscode.commands.executeCommand('setContext', INPUT_FOCUSED_CONTEXT, false);
     if (this.updateTimeout) {
       clearTimeout(this.updateTimeout);
     }
@@ -574,6 +1175,62 @@ ${PREVIEW_JS}
 
 // ───────────────── helpers ─────────────────
 
+/** Context key: a text box inside the preview has focus. */
+const INPUT_FOCUSED_CONTEXT = 'markdownReview.previewInputFocused';
+
+/** What the preview's 💬 button (or a pin) was used on */
+interface BlockTarget {
+  kind: 'section' | 'block' | 'codeLine' | 'tableCell';
+  /** 0-based source lines, as stamped on the rendered element */
+  startLine: number;
+  endLine: number;
+  blockType?: BlockType;
+  /** For images: which image on `startLine` */
+  imageIndex?: number;
+  /** For table cells: the cell's column in the row on `startLine` */
+  column?: number;
+  region?: PinRegion;
+}
+
+function blockTargetAnchor(target: BlockTarget, source: string): CommentAnchor | null {
+  let anchor: CommentAnchor | null = null;
+  if (target.kind === 'section') {
+    const section = parseMarkdownSections(source).find(s => s.startLine === target.startLine);
+    anchor = section ? anchorEngine.createSectionAnchor(section, source) : null;
+  } else if (target.kind === 'codeLine') {
+    anchor = anchorEngine.createCodeLineAnchor(target.startLine, source);
+  } else if (target.kind === 'tableCell') {
+    anchor = anchorEngine.createTableCellAnchor(target.startLine, target.column ?? 0, source);
+  } else if (target.blockType === 'image') {
+    anchor = anchorEngine.createImageAnchor(target.startLine, target.imageIndex ?? 0, source);
+  } else if (target.blockType) {
+    anchor = anchorEngine.createBlockAnchor(target.blockType, target.startLine, target.endLine, source);
+  }
+  if (anchor && target.region) { anchor.region = target.region; }
+  return anchor;
+}
+
+/** Re-located anchors below this confidence are flagged as uncertain. */
+const CERTAIN_ANCHOR_CONFIDENCE = 0.9;
+
+/**
+ * Sidebar flag for a re-located anchor: `uncertain` when it may be the wrong
+ * text, `approximate` for edited text, `moved` when the same text was found
+ * elsewhere. `sectionChanged` when a section anchor's section was edited.
+ * Undefined while the anchor is where a reviewer left it.
+ */
+type AnchorState = 'moved' | 'approximate' | 'uncertain' | 'sectionChanged';
+
+function anchorStateOf(thread: AppCommentThread, source: string): AnchorState | undefined {
+  const { strategy, confidence } = thread.anchor;
+  if (thread.status === 'stale') { return undefined; }
+  if (!strategy || strategy === 'offsets') {
+    return anchorEngine.sectionChanged(thread.anchor, source) ? 'sectionChanged' : undefined;
+  }
+  if ((confidence ?? 0) < CERTAIN_ANCHOR_CONFIDENCE) { return 'uncertain'; }
+  return strategy === 'fuzzy' ? 'approximate' : 'moved';
+}
+
 function getNonce(): string {
   let text = '';
   const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
@@ -601,6 +1258,9 @@ const PREVIEW_JS = /* js */ `
   const sidebarContent = document.getElementById('sidebar-content');
   const toolbar = document.getElementById('comment-toolbar');
   const toolbarBtn = document.getElementById('toolbar-comment-btn');
+  const blockCommentBtn = document.getElementById('block-comment-btn');
+  const codeLineBtn = document.getElementById('code-line-btn');
+  const cellCommentBtn = document.getElementById('cell-comment-btn');
 
   // ── client-side markdown rendering ─────────
   function renderMarkdown() {
@@ -625,9 +1285,10 @@ const PREVIEW_JS = /* js */ `
       const token = tokens[idx];
       if (token.info.trim() === 'mermaid') {
         var dId = 'diagram-' + (diagramCounter++);
-        return '<div class="mermaid-frame" data-diagram-id="' + dId + '">'
+        return '<div class="mermaid-frame" data-diagram-id="' + dId + '"' + self.renderAttrs(token) + '>'
           + '<div class="mermaid-frame-toolbar">'
           + '<span class="diagram-label">&#x1F4CA; Diagram</span>'
+          + '<button data-pin-diagram="' + dId + '" title="Pin a comment: click a point or drag over an area">&#x1F4CC;</button>'
           + '<button data-zoom-diagram="' + dId + '" data-zoom-dir="-1" title="Zoom out">&#x2796;</button>'
           + '<span class="zoom-level" id="zoom-label-' + dId + '">100%</span>'
           + '<button data-zoom-diagram="' + dId + '" data-zoom-dir="1" title="Zoom in">&#x2795;</button>'
@@ -635,7 +1296,7 @@ const PREVIEW_JS = /* js */ `
           + '</div>'
           + '<div class="mermaid-frame-viewport" id="viewport-' + dId + '">'
           + '<div class="mermaid-frame-content" id="content-' + dId + '">'
-          + '<div class="mermaid">' + md.utils.escapeHtml(token.content) + '</div>'
+          + '<div class="pin-host"><div class="mermaid">' + md.utils.escapeHtml(token.content) + '</div></div>'
           + '</div></div></div>';
       }
       if (defaultFenceRenderer) {
@@ -666,9 +1327,77 @@ const PREVIEW_JS = /* js */ `
       return self.renderToken(tokens, idx, options);
     };
 
+    // Sections and blocks that can be commented on as a whole carry their
+    // (0-based, half-open) source lines
+    function markBlock(token, block) {
+      token.attrSet('data-block', block);
+      token.attrSet('data-source-start', String(token.map[0]));
+      token.attrSet('data-source-end', String(token.map[1]));
+    }
+    // Images carry their source line and their index among the images on it.
+    // Same pattern as IMAGE_SYNTAX in utils/markdown.ts.
+    var IMAGE_SYNTAX = /!\\[[^\\]]*\\](?:\\([^)]*\\)|\\[[^\\]]*\\])?/g;
+    function markImages(inline, firstLine) {
+      var images = inline.children.filter(function(child) { return child.type === 'image'; });
+      if (images.length === 0) { return; }
+      var found = [];
+      var match;
+      IMAGE_SYNTAX.lastIndex = 0;
+      while ((match = IMAGE_SYNTAX.exec(inline.content))) { found.push(match.index); }
+      // Image syntax inside code spans and the like: leave these images alone
+      if (found.length !== images.length) { return; }
+      var perLine = {};
+      images.forEach(function(image, i) {
+        var line = firstLine + inline.content.slice(0, found[i]).split('\\n').length - 1;
+        perLine[line] = perLine[line] || 0;
+        image.attrSet('data-block', 'image');
+        image.attrSet('data-source-start', String(line));
+        image.attrSet('data-source-end', String(line + 1));
+        image.attrSet('data-image-index', String(perLine[line]++));
+      });
+    }
+    md.core.ruler.push('source_lines', function(state) {
+      var listDepth = 0;
+      var rowLine = 0;
+      var column = 0;
+      state.tokens.forEach(function(token) {
+        if (token.type === 'list_item_close') { listDepth--; }
+        // Table cells have no source lines of their own; their row does
+        if (token.type === 'tr_open') { rowLine = token.map[0]; column = 0; }
+        if (token.type === 'th_open' || token.type === 'td_open') {
+          token.attrSet('data-cell-line', String(rowLine));
+          token.attrSet('data-cell-column', String(column++));
+        }
+        if (token.type === 'inline' && token.children) { markImages(token, token.map ? token.map[0] : rowLine); }
+        if (!token.map) { return; }
+        if (token.type === 'heading_open') { markBlock(token, 'section'); }
+        else if (token.type === 'paragraph_open' && listDepth === 0) { markBlock(token, 'paragraph'); }
+        else if (token.type === 'list_item_open') { markBlock(token, 'listItem'); listDepth++; }
+        else if (token.type === 'table_open') { markBlock(token, 'table'); }
+        else if (token.type === 'fence' && token.info.trim() === 'mermaid') { markBlock(token, 'diagram'); }
+        else if (token.type === 'fence' || token.type === 'code_block') { markBlock(token, 'code'); }
+        // Lines of fenced code can be commented on one by one
+        if (token.type === 'fence' && token.info.trim() !== 'mermaid') { token.attrSet('data-fence', ''); }
+      });
+    });
+
     const rendered = md.render(rawMarkdown);
     contentEl.innerHTML = rendered;
 
+    // Fenced code: one span per line; line i is source line data-source-start + 1 + i
+    contentEl.querySelectorAll('code[data-fence]').forEach(function(code) {
+      var lines = code.textContent.split('\\n');
+      if (lines[lines.length - 1] === '') { lines.pop(); }
+      code.textContent = '';
+      lines.forEach(function(text, i) {
+        var line = document.createElement('span');
+        line.className = 'code-line';
+        line.dataset.codeLine = String(i);
+        line.textContent = text + '\\n';
+        code.appendChild(line);
+      });
+    });
+
     // Checkbox post-processing
     document.querySelectorAll('#content li').forEach(function(li) {
       var text = li.innerHTML;
@@ -737,7 +1466,7 @@ const PREVIEW_JS = /* js */ `
     }
     if (msg && msg.command === 'restoreNewCommentForm') {
       openNewCommentForm(
-        { text: msg.selectedText, contentOffset: msg.contentOffset || 0 },
+        { text: msg.selectedText, contentOffset: msg.contentOffset || 0, suggestion: msg.suggestion },
         msg.body || '',
       );
     }
@@ -865,8 +1594,13 @@ const PREVIEW_JS = /* js */ `
 
   // Delegated click handler for mermaid toolbar buttons (CSP blocks inline onclick)
   document.addEventListener('click', function(e) {
-    var btn = e.target.closest('[data-zoom-diagram], [data-reset-diagram]');
+    var btn = e.target.closest('[data-zoom-diagram], [data-reset-diagram], [data-pin-diagram]');
     if (!btn) { return; }
+    var pinId = btn.getAttribute('data-pin-diagram');
+    if (pinId) {
+      setDiagramPinning(pinId, !btn.classList.contains('active'));
+      return;
+    }
     var zoomId = btn.getAttribute('data-zoom-diagram');
     if (zoomId) {
       var dir = parseInt(btn.getAttribute('data-zoom-dir'), 10) || 1;
@@ -887,7 +1621,8 @@ const PREVIEW_JS = /* js */ `
       var lastX = 0, lastY = 0;
 
       vp.addEventListener('mousedown', function(e) {
-        if (e.button !== 0) { return; }
+        // While pinning, a drag draws a pin instead
+        if (e.button !== 0 || vp.classList.contains('pinning')) { return; }
         dragging = true;
         lastX = e.clientX;
         lastY = e.clientY;
@@ -1036,6 +1771,117 @@ const PREVIEW_JS = /* js */ `
     });
   });
 
+  // ── re-anchor mode ─────────────────────────
+  // While a thread id is set, the next selection in the document becomes
+  // that thread's anchor instead of opening the comment toolbar.
+  var reanchorThreadId = null;
+  var reanchorBanner = null;
+
+  function startReanchor(threadId) {
+    cancelReanchor();
+    reanchorThreadId = threadId;
+    reanchorBanner = document.createElement('div');
+    reanchorBanner.className = 'reanchor-banner';
+    var bannerText = document.createElement('span');
+    bannerText.textContent = 'Select the text this comment should point to.';
+    reanchorBanner.appendChild(bannerText);
+    var cancelBtn = document.createElement('button');
+    cancelBtn.className = 'action-link';
+    cancelBtn.textContent = 'Cancel';
+    cancelBtn.addEventListener('click', cancelReanchor);
+    reanchorBanner.appendChild(cancelBtn);
+    contentEl.parentNode.insertBefore(reanchorBanner, contentEl);
+    document.body.classList.add('reanchoring');
+  }
+
+  function cancelReanchor() {
+    reanchorThreadId = null;
+    if (reanchorBanner) { reanchorBanner.remove(); }
+    reanchorBanner = null;
+    document.body.classList.remove('reanchoring');
+  }
+
+  document.addEventListener('keydown', function(e) {
+    if (e.key === 'Escape' && reanchorThreadId) { cancelReanchor(); }
+  });
+
+  // ── track changes ──────────────────────────
+  // Headings, paragraphs and list items become editable. On Finish, each
+  // edited block's text before and after goes to the host, which records
+  // the differences as suggestion threads; the file itself is not touched.
+  var trackedBlocks = null;
+  var trackBanner = null;
+
+  function startTrackChanges() {
+    if (trackedBlocks) { return; }
+    cancelReanchor();
+    trackedBlocks = [];
+    contentEl.querySelectorAll('[data-block="section"], [data-block="paragraph"], [data-block="listItem"]').forEach(function(el) {
+      // Blocks holding other blocks (a list item with a nested list) are edited through those
+      if (el.querySelector('[data-block]:not(img)')) { return; }
+      el.contentEditable = 'true';
+      trackedBlocks.push({ el: el, before: el.textContent });
+    });
+    toolbar.style.display = 'none';
+    blockCommentBtn.style.display = 'none';
+    codeLineBtn.style.display = 'none';
+    cellCommentBtn.style.display = 'none';
+
+    trackBanner = document.createElement('div');
+    trackBanner.className = 'reanchor-banner';
+    var bannerText = document.createElement('span');
+    bannerText.textContent = 'Tracking changes: edit the text, then Finish to record your edits as suggestions.';
+    trackBanner.appendChild(bannerText);
+    var bannerActions = document.createElement('span');
+    var finishBtn = document.createElement('button');
+    finishBtn.className = 'action-link';
+    finishBtn.textContent = 'Finish';
+    finishBtn.addEventListener('click', function() { stopTrackChanges(true); });
+    bannerActions.appendChild(finishBtn);
+    var discardBtn = document.createElement('button');
+    discardBtn.className = 'action-link';
+    discardBtn.textContent = 'Discard';
+    discardBtn.addEventListener('click', function() { stopTrackChanges(false); });
+    bannerActions.appendChild(discardBtn);
+    trackBanner.appendChild(bannerActions);
+    contentEl.parentNode.insertBefore(trackBanner, contentEl);
+    document.body.classList.add('tracking-changes');
+  }
+
+  function stopTrackChanges(keep) {
+    if (!trackedBlocks) { return; }
+    var edits = [];
+    trackedBlocks.forEach(function(tracked) {
+      // Blur while still editable, so the focus listener reports it
+      if (tracked.el.contains(document.activeElement)) { document.activeElement.blur(); }
+      tracked.el.removeAttribute('contenteditable');
+      if (tracked.el.textContent !== tracked.before) {
+        edits.push({
+          startLine: Number(tracked.el.dataset.sourceStart),
+          endLine: Number(tracked.el.dataset.sourceEnd),
+          before: tracked.before,
+          after: tracked.el.textContent,
+        });
+      }
+    });
+    trackedBlocks = null;
+    if (trackBanner) { trackBanner.remove(); }
+    trackBanner = null;
+    document.body.classList.remove('tracking-changes');
+    if (edits.length === 0) { return; }
+    // Either way the preview is rendered afresh from the file
+    vscode.postMessage(keep ? { command: 'trackChanges', edits: edits } : { command: 'refresh' });
+  }
+
+  document.getElementById('trackChangesBtn').addEventListener('click', startTrackChanges);
+  contentEl.addEventListener('keydown', function(e) {
+    // One block stays one block: no new lines or paragraphs
+    if (trackedBlocks && e.key === 'Enter') { e.preventDefault(); }
+  });
+  document.addEventListener('keydown', function(e) {
+    if (e.key === 'Escape' && trackedBlocks) { stopTrackChanges(false); }
+  });
+
   // ── text selection → floating toolbar ──────
   let pendingSelection = null;
 
@@ -1052,7 +1898,7 @@ const PREVIEW_JS = /* js */ `
   contentEl.addEventListener('mouseup', function(e) {
     setTimeout(function() {
       const sel = window.getSelection();
-      if (!sel || sel.isCollapsed || !sel.toString().trim()) {
+      if (!sel || sel.isCollapsed || !sel.toString().trim() || trackedBlocks) {
         toolbar.style.display = 'none';
         pendingSelection = null;
         return;
@@ -1063,9 +1909,21 @@ const PREVIEW_JS = /* js */ `
         toolbar.style.display = 'none';
         return;
       }
+      // In re-anchor mode the selection becomes the thread's new anchor
+      if (reanchorThreadId) {
+        vscode.postMessage({
+          command: 'reanchorThread',
+          threadId: reanchorThreadId,
+          selectedText: sel.toString(),
+          contentOffset: getContentTextOffset(),
+        });
+        sel.removeAllRanges();
+        cancelReanchor();
+        return;
+      }
       // Don't show toolbar if selection is inside an existing comment-highlight
       if (range.commonAncestorContainer.parentElement &&
-          range.commonAncestorContainer.parentElement.closest('.comment-highlight')) {
+          range.commonAncestorContainer.parentElement.closest('.comment-highlight:not(.comment-block-highlight)')) {
         toolbar.style.display = 'none';
         return;
       }
@@ -1073,6 +1931,11 @@ const PREVIEW_JS = /* js */ `
         text: sel.toString(),
         contentOffset: getContentTextOffset(),
       };
+      // Text across table cells has no one place in the source: comment on the first cell
+      var startCell = cellOf(range.startContainer);
+      if (startCell && startCell !== cellOf(range.endContainer)) {
+        pendingSelection = { text: startCell.textContent.trim(), target: cellTarget(startCell) };
+      }
       // Position toolbar near the selection
       const rect = range.getBoundingClientRect();
       toolbar.style.display = 'block';
@@ -1104,22 +1967,68 @@ const PREVIEW_JS = /* js */ `
     excerpt.className = 'thread-excerpt';
     excerpt.style.borderLeftColor = 'var(--vscode-textLink-foreground)';
     var excerptText = selData.text.length > 60 ? selData.text.substring(0, 60) + '\\u2026' : selData.text;
-    excerpt.textContent = '\\u201C' + excerptText + '\\u201D';
+    excerpt.textContent = selData.general
+      ? GENERAL_LABEL + ': the whole document'
+      : selData.target
+        ? BLOCK_LABELS[blockKey(selData.target)]
+          + (selData.target.region ? ' \\u00B7 ' + describeRegion(selData.target.region) : '')
+          + ': ' + excerptText
+        : '\\u201C' + excerptText + '\\u201D';
     wrapper.appendChild(excerpt);
 
+    // A suggestion carries replacement text, edited in its own box above the comment
+    var suggestionInput = null;
     const { form, textarea } = createCommentForm({
-      placeholder: 'Comment on selected text...',
+      placeholder: selData.general
+        ? 'Comment on the whole document...'
+        : selData.target
+          ? 'Comment on this ' + BLOCK_NAMES[blockKey(selData.target)] + '...'
+          : 'Comment on selected text...',
       submitLabel: 'Add Comment',
       onSubmit: function(text) {
-        vscode.postMessage({
-          command: 'addComment',
-          selectedText: selData.text,
-          contentOffset: selData.contentOffset,
-          body: text,
-        });
+        var suggestion = suggestionInput ? suggestionInput.value : undefined;
+        if (selData.general) {
+          vscode.postMessage({ command: 'addGeneralComment', body: text });
+        } else if (selData.target) {
+          vscode.postMessage({ command: 'addBlockComment', target: selData.target, body: text, suggestion: suggestion });
+        } else {
+          vscode.postMessage({
+            command: 'addComment',
+            selectedText: selData.text,
+            contentOffset: selData.contentOffset,
+            body: text,
+            suggestion: suggestion,
+          });
+        }
         wrapper.remove();
       }
     });
+    if (!selData.general) {
+      var plainPlaceholder = textarea.placeholder;
+      var suggestToggle = document.createElement('button');
+      suggestToggle.className = 'action-link suggest-toggle';
+      var setSuggesting = function(on, replacement) {
+        if (on && !suggestionInput) {
+          suggestionInput = document.createElement('textarea');
+          suggestionInput.className = 'suggestion-input';
+          suggestionInput.placeholder = 'Replacement text (leave empty to delete)';
+          suggestionInput.value = replacement;
+          form.insertBefore(suggestionInput, textarea);
+          textarea.placeholder = 'Why this change?';
+        } else if (!on && suggestionInput) {
+          suggestionInput.remove();
+          suggestionInput = null;
+          textarea.placeholder = plainPlaceholder;
+        }
+        suggestToggle.textContent = on ? '\\u2715 Plain comment' : '\\u270E Suggest change';
+      };
+      suggestToggle.addEventListener('click', function() {
+        setSuggesting(!suggestionInput, selData.text);
+        (suggestionInput || textarea).focus();
+      });
+      setSuggesting(typeof selData.suggestion === 'string', selData.suggestion);
+      wrapper.appendChild(suggestToggle);
+    }
     // Augment cancel to also remove wrapper
     var cancelBtn = form.querySelector('.btn-cancel');
     if (cancelBtn) {
@@ -1141,9 +2050,203 @@ const PREVIEW_JS = /* js */ `
     openNewCommentForm(selData, '');
   });
 
+  // ── general comments on the whole document ─
+  var GENERAL_LABEL = '\\u2637 General';
+  function isGeneral(thread) {
+    return thread.anchorKind === 'document';
+  }
+  document.getElementById('newGeneralCommentBtn').addEventListener('click', function() {
+    openNewCommentForm({ text: '', general: true }, '');
+  });
+
+  // ── suggested edits ─────────────────────────
+  var applySuggestionsBtn = document.getElementById('applySuggestionsBtn');
+  applySuggestionsBtn.style.display = threads.some(function(t) { return t.suggestion && t.suggestion.applicable; }) ? '' : 'none';
+  applySuggestionsBtn.addEventListener('click', function() {
+    vscode.postMessage({ command: 'applySuggestions' });
+  });
+  var rejectSuggestionsBtn = document.getElementById('rejectSuggestionsBtn');
+  rejectSuggestionsBtn.style.display = threads.some(function(t) { return t.suggestion && t.status === 'open'; }) ? '' : 'none';
+  rejectSuggestionsBtn.addEventListener('click', function() {
+    vscode.postMessage({ command: 'rejectSuggestions' });
+  });
+
+  // Old and new text, struck through and inserted. The text both share at
+  // either end (in whole words) is shown once, unmarked.
+  function buildSuggestionDiff(suggestion) {
+    var from = suggestion.original;
+    var to = suggestion.replacement;
+    var start = 0;
+    while (start < from.length && start < to.length && from[start] === to[start]) { start++; }
+    while (start > 0 && !/\\s/.test(from[start - 1])) { start--; }
+    var end = 0;
+    while (end < from.length - start && end < to.length - start && from[from.length - 1 - end] === to[to.length - 1 - end]) { end++; }
+    while (end > 0 && !/\\s/.test(from[from.length - end])) { end--; }
+
+    var diff = document.createElement('div');
+    diff.className = 'suggestion-diff';
+    diff.appendChild(document.createTextNode(from.slice(0, start)));
+    var del = document.createElement('del');
+    del.textContent = from.slice(start, from.length - end);
+    diff.appendChild(del);
+    var ins = document.createElement('ins');
+    ins.textContent = to.slice(start, to.length - end);
+    diff.appendChild(ins);
+    diff.appendChild(document.createTextNode(from.slice(from.length - end)));
+    return diff;
+  }
+
+  // ── comment on a whole section or block ────
+  var BLOCK_NAMES = {
+    section: 'section', paragraph: 'paragraph', listItem: 'list item', table: 'table', code: 'code block',
+    image: 'image', diagram: 'diagram', codeLine: 'line', tableCell: 'table cell',
+  };
+  var BLOCK_LABELS = {
+    section: '\\u00A7 Section', paragraph: '\\u00B6 Paragraph', listItem: '\\u2022 List item',
+    table: '\\u25A6 Table', code: '\\u2039\\u203A Code block', image: '\\uD83D\\uDDBC Image', diagram: '\\uD83D\\uDCCA Diagram',
+    codeLine: '\\u2039\\u203A Code line', tableCell: '\\u25A6 Table cell',
+  };
+  // 'section', 'codeLine', 'tableCell', or the type of block
+  function blockKey(target) {
+    return target.kind === 'block' ? target.blockType : target.kind;
+  }
+
+  // What a rendered section or block (see the source_lines rule) is in the source
+  function blockTarget(el) {
+    var block = el.dataset.block;
+    var target = {
+      kind: block === 'section' ? 'section' : 'block',
+      startLine: Number(el.dataset.sourceStart),
+      endLine: Number(el.dataset.sourceEnd),
+    };
+    if (block !== 'section') { target.blockType = block; }
+    if (block === 'image') { target.imageIndex = Number(el.dataset.imageIndex); }
+    return target;
+  }
+
+  // Excerpt for the new comment form
+  function blockText(el) {
+    if (el.dataset.block === 'image') { return el.getAttribute('alt') || el.getAttribute('src') || ''; }
+    if (el.dataset.block === 'diagram') { return 'Mermaid diagram'; }
+    return el.textContent.trim();
+  }
+
+  function describeRegion(region) {
+    return region.width !== undefined ? 'pinned area' : 'pinned point';
+  }
+
+  // One button, moved beside whichever section heading or block is hovered
+  var hoveredBlock = null;
+  contentEl.addEventListener('mouseover', function(e) {
+    var block = e.target.closest('[data-block]');
+    if (!block || block === hoveredBlock || trackedBlocks) { return; }
+    hoveredBlock = block;
+    var rect = block.getBoundingClientRect();
+    blockCommentBtn.title = 'Comment on this ' + BLOCK_NAMES[block.dataset.block];
+    blockCommentBtn.style.display = 'block';
+    blockCommentBtn.style.top = rect.top + 'px';
+    blockCommentBtn.style.left = Math.max(0, rect.left - 28) + 'px';
+  });
+  contentScroll.addEventListener('scroll', function() {
+    blockCommentBtn.style.display = 'none';
+    hoveredBlock = null;
+  });
+  blockCommentBtn.addEventListener('click', function() {
+    if (!hoveredBlock) { return; }
+    blockCommentBtn.style.display = 'none';
+    openNewCommentForm({ text: blockText(hoveredBlock), target: blockTarget(hoveredBlock) }, '');
+    hoveredBlock = null;
+  });
+
+  // ── comment on one line of fenced code ─────
+  // A "+" in the code block's gutter, beside whichever line is hovered
+  var hoveredLine = null;
+  function codeLineSource(line) {
+    return Number(line.parentNode.dataset.sourceStart) + 1 + Number(line.dataset.codeLine);
+  }
+  contentEl.addEventListener('mouseover', function(e) {
+    var line = e.target.closest('.code-line');
+    if (!line || line === hoveredLine || trackedBlocks) { return; }
+    hoveredLine = line;
+    if (!line.textContent.trim()) {
+      codeLineBtn.style.display = 'none';
+      return;
+    }
+    var rect = line.getBoundingClientRect();
+    codeLineBtn.style.display = 'block';
+    codeLineBtn.style.top = rect.top + 'px';
+    codeLineBtn.style.left = Math.max(0, line.parentNode.getBoundingClientRect().left - 17) + 'px';
+  });
+  contentScroll.addEventListener('scroll', function() {
+    codeLineBtn.style.display = 'none';
+    hoveredLine = null;
+  });
+  codeLineBtn.addEventListener('click', function() {
+    if (!hoveredLine) { return; }
+    codeLineBtn.style.display = 'none';
+    var line = codeLineSource(hoveredLine);
+    openNewCommentForm({
+      text: hoveredLine.textContent.trim(),
+      target: { kind: 'codeLine', startLine: line, endLine: line + 1 },
+    }, '');
+    hoveredLine = null;
+  });
+
+  // ── comment on one table cell ──────────────
+  // A "+" in the corner of whichever cell is hovered
+  var hoveredCell = null;
+  function cellOf(node) {
+    var el = node.nodeType === 1 ? node : node.parentElement;
+    return el && el.closest('[data-cell-line]');
+  }
+  function cellTarget(cell) {
+    var line = Number(cell.dataset.cellLine);
+    return { kind: 'tableCell', startLine: line, endLine: line + 1, column: Number(cell.dataset.cellColumn) };
+  }
+  contentEl.addEventListener('mouseover', function(e) {
+    var cell = cellOf(e.target);
+    if (!cell || cell === hoveredCell || trackedBlocks) { return; }
+    hoveredCell = cell;
+    if (!cell.textContent.trim()) {
+      cellCommentBtn.style.display = 'none';
+      return;
+    }
+    var rect = cell.getBoundingClientRect();
+    cellCommentBtn.style.display = 'block';
+    cellCommentBtn.style.top = (rect.top + 2) + 'px';
+    cellCommentBtn.style.left = (rect.right - 18) + 'px';
+  });
+  contentScroll.addEventListener('scroll', function() {
+    cellCommentBtn.style.display = 'none';
+    hoveredCell = null;
+  });
+  cellCommentBtn.addEventListener('click', function() {
+    if (!hoveredCell) { return; }
+    cellCommentBtn.style.display = 'none';
+    openNewCommentForm({ text: hoveredCell.textContent.trim(), target: cellTarget(hoveredCell) }, '');
+    hoveredCell = null;
+  });
+
+  // The line of a code line thread, found by its source line
+  function findCodeLine(sourceLine) {
+    var found = null;
+    contentEl.querySelectorAll('code[data-fence]').forEach(function(code) {
+      var first = Number(code.dataset.sourceStart) + 1;
+      var line = code.querySelector('.code-line[data-code-line="' + (sourceLine - first) + '"]');
+      if (line && sourceLine >= first) { found = line; }
+    });
+    return found;
+  }
+
   // ── highlight rendering ────────────────────
   function applyHighlights() {
-    // Remove existing highlights
+    // Remove existing highlights (sections and blocks are unmarked, not unwrapped)
+    contentEl.querySelectorAll('.comment-block-highlight').forEach(function(el) {
+      el.classList.remove('comment-highlight', 'comment-block-highlight', 'resolved', 'active', 'suggestion');
+      el.style.removeProperty('--thread-color');
+      delete el.dataset.threadId;
+      delete el.dataset.suggestion;
+    });
     contentEl.querySelectorAll('.comment-highlight').forEach(function(mark) {
       var parent = mark.parentNode;
       while (mark.firstChild) { parent.insertBefore(mark.firstChild, mark); }
@@ -1153,15 +2256,148 @@ const PREVIEW_JS = /* js */ `
 
     // Apply highlights for each thread
     threads.forEach(function(thread, threadIndex) {
+      if (isGeneral(thread)) { return; }
       var color = thread.color || getThreadColor(threadIndex);
       // Prefer displayText (rendered selection captured at comment time)
       // because the raw selectedText may include markdown delimiters that
       // are not present in the rendered DOM.
       var search = thread.displayText || thread.selectedText;
-      findAndWrapText(search, thread.occurrenceIndex, color, thread.id);
+      if (typeof thread.blockLine === 'number') {
+        highlightBlock(thread, color);
+      } else {
+        findAndWrapText(search, thread.occurrenceIndex, color, thread.id);
+      }
+      if (thread.status === 'resolved') {
+        contentEl.querySelectorAll('.comment-highlight[data-thread-id="' + thread.id + '"]').forEach(function(m) {
+          m.classList.add('resolved');
+        });
+      }
+      // Open suggestions read as an inline diff: the old text struck through, the new after it
+      if (thread.suggestion && thread.status === 'open') {
+        var marks = contentEl.querySelectorAll('.comment-highlight[data-thread-id="' + thread.id + '"]');
+        marks.forEach(function(m) { m.classList.add('suggestion'); });
+        if (marks.length > 0) { marks[marks.length - 1].dataset.suggestion = thread.suggestion.replacement; }
+      }
     });
   }
 
+  // Sections and blocks are marked as a whole; the first thread on one wins
+  function highlightBlock(thread, color) {
+    var block = thread.anchorKind === 'section' ? 'section' : thread.blockType;
+    var el = thread.anchorKind === 'codeLine' ? findCodeLine(thread.blockLine)
+      : thread.anchorKind === 'tableCell'
+        ? contentEl.querySelector('[data-cell-line="' + thread.blockLine + '"][data-cell-column="' + thread.cellColumn + '"]')
+        : contentEl.querySelector('[data-block="' + block + '"][data-source-start="' + thread.blockLine + '"]'
+      + (block === 'image' ? '[data-image-index="' + (thread.imageIndex || 0) + '"]' : ''));
+    if (el && thread.region) {
+      drawPin(el, thread, color);
+      return;
+    }
+    if (!el || el.classList.contains('comment-block-highlight')) { return; }
+    el.classList.add('comment-highlight', 'comment-block-highlight');
+    el.dataset.threadId = thread.id;
+    el.style.setProperty('--thread-color', color);
+  }
+
+  // ── pins on images and diagrams ────────────
+  // Pins are positioned in fractions of the image (or the diagram's SVG), so
+  // they stay on the same spot as a diagram is zoomed and panned.
+  function pinHost(el) {
+    if (el.dataset.block === 'diagram') { return el.querySelector('.pin-host'); }
+    if (el.parentNode.classList.contains('pin-host')) { return el.parentNode; }
+    var host = document.createElement('span');
+    host.className = 'pin-host';
+    el.parentNode.insertBefore(host, el);
+    host.appendChild(el);
+    return host;
+  }
+
+  function placePin(pin, region) {
+    var area = region.width !== undefined;
+    pin.classList.toggle('area', area);
+    pin.style.left = (region.x * 100) + '%';
+    pin.style.top = (region.y * 100) + '%';
+    pin.style.width = area ? (region.width * 100) + '%' : '';
+    pin.style.height = area ? (region.height * 100) + '%' : '';
+  }
+
+  function drawPin(el, thread, color) {
+    var host = pinHost(el);
+    if (!host) { return; }
+    var pin = document.createElement('span');
+    pin.className = 'comment-highlight comment-pin';
+    pin.dataset.threadId = thread.id;
+    pin.style.setProperty('--thread-color', color);
+    pin.title = describeRegion(thread.region);
+    placePin(pin, thread.region);
+    host.appendChild(pin);
+  }
+
+  // Click to pin a point, drag to pin an area; then the comment form opens
+  function startPinDraw(e, el) {
+    var host = pinHost(el);
+    var rect = host && host.getBoundingClientRect();
+    if (!rect || !rect.width || !rect.height) { return; }
+    e.preventDefault();
+    function fractionAt(ev) {
+      return {
+        x: Math.min(1, Math.max(0, (ev.clientX - rect.left) / rect.width)),
+        y: Math.min(1, Math.max(0, (ev.clientY - rect.top) / rect.height)),
+      };
+    }
+    var from = fractionAt(e);
+    var region = { x: from.x, y: from.y };
+    var draft = document.createElement('span');
+    draft.className = 'comment-pin draft';
+    placePin(draft, region);
+    host.appendChild(draft);
+
+    function move(ev) {
+      var to = fractionAt(ev);
+      region = {
+        x: Math.min(from.x, to.x), y: Math.min(from.y, to.y),
+        width: Math.abs(to.x - from.x), height: Math.abs(to.y - from.y),
+      };
+      placePin(draft, region);
+    }
+    function up() {
+      document.removeEventListener('mousemove', move);
+      document.removeEventListener('mouseup', up);
+      draft.remove();
+      // A barely moved drag is a click
+      if (region.width !== undefined && region.width < 0.02 && region.height < 0.02) {
+        region = { x: from.x, y: from.y };
+      }
+      Object.keys(region).forEach(function(key) { region[key] = Math.round(region[key] * 1000) / 1000; });
+      if (el.dataset.block === 'diagram') { setDiagramPinning(el.dataset.diagramId, false); }
+      var target = blockTarget(el);
+      target.region = region;
+      openNewCommentForm({ text: blockText(el), target: target }, '');
+    }
+    document.addEventListener('mousemove', move);
+    document.addEventListener('mouseup', up);
+  }
+
+  // Diagrams pan when dragged, so pinning is a mode toggled from their toolbar
+  function setDiagramPinning(dId, on) {
+    var viewport = document.getElementById('viewport-' + dId);
+    var btn = document.querySelector('[data-pin-diagram="' + dId + '"]');
+    if (viewport) { viewport.classList.toggle('pinning', on); }
+    if (btn) { btn.classList.toggle('active', on); }
+  }
+
+  contentEl.addEventListener('mousedown', function(e) {
+    if (e.button !== 0 || reanchorThreadId || e.target.closest('.comment-pin')) { return; }
+    var img = e.target.closest('img[data-block="image"]');
+    // Linked images keep behaving as links
+    if (img && !img.closest('a')) {
+      startPinDraw(e, img);
+      return;
+    }
+    var viewport = e.target.closest('.mermaid-frame-viewport.pinning');
+    if (viewport) { startPinDraw(e, viewport.closest('[data-block="diagram"]')); }
+  });
+
   // Collapse runs of whitespace in 's' to a single space, returning the
   // collapsed string plus a parallel index map back to the original.
   // mapStart[i] = first original index represented by collapsed char i;
@@ -1301,19 +2537,162 @@ const PREVIEW_JS = /* js */ `
   applyHighlights();
 
   // ── click highlight → scroll to sidebar thread ──
+  function focusSidebarThread(threadId) {
+    var threadBlock = document.querySelector('.comment-thread-block[data-thread-id="' + threadId + '"]');
+    if (!threadBlock) { return false; }
+    threadBlock.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    threadBlock.classList.add('focused');
+    if (threadBlock.dataset.collapsible === 'true') { expandThread(threadBlock); }
+    // Remove active from other highlights
+    contentEl.querySelectorAll('.comment-highlight.active').forEach(function(m) { m.classList.remove('active'); });
+    contentEl.querySelectorAll('.comment-highlight[data-thread-id="' + threadId + '"]').forEach(function(m) { m.classList.add('active'); });
+    return true;
+  }
+
   contentEl.addEventListener('click', function(e) {
     var mark = e.target.closest('.comment-highlight');
     if (!mark) { return; }
-    var threadId = mark.dataset.threadId;
-    var threadBlock = document.querySelector('.comment-thread-block[data-thread-id="' + threadId + '"]');
-    if (threadBlock) {
-      threadBlock.scrollIntoView({ behavior: 'smooth', block: 'center' });
-      threadBlock.classList.add('focused');
-      if (threadBlock.dataset.collapsible === 'true') { expandThread(threadBlock); }
-      // Remove active from other highlights
-      contentEl.querySelectorAll('.comment-highlight.active').forEach(function(m) { m.classList.remove('active'); });
-      contentEl.querySelectorAll('.comment-highlight[data-thread-id="' + threadId + '"]').forEach(function(m) { m.classList.add('active'); });
+    focusSidebarThread(mark.dataset.threadId);
+  });
+
+  // ── re-located anchors ─────────────────────
+  var ANCHOR_STRATEGY_NAMES = {
+    nearby: 'nearby', context: 'its surrounding text', prefix: 'the text before it',
+    suffix: 'the text after it', global: 'a search of the whole document', fuzzy: 'approximate matching',
+    history: 'the git history of the document',
+  };
+  var ANCHOR_STATE_LABELS = {
+    moved: '\\u2195 Moved', approximate: '\\u2248 Re-anchored (approximate)', uncertain: '? Uncertain match',
+    sectionChanged: '\\u270E Section changed',
+  };
+
+  // Card flag for an anchor that was re-located after the document changed.
+  function buildAnchorStateLabel(thread) {
+    var label = document.createElement('span');
+    label.className = 'anchor-state ' + thread.anchorState;
+    label.textContent = ANCHOR_STATE_LABELS[thread.anchorState];
+    if (thread.anchorState === 'sectionChanged') {
+      label.title = 'The section was edited since this comment was made.'
+        + ' Confirm the anchor once the comment still applies.';
+      return label;
     }
+    label.title = 'The commented text moved or changed since. Found by '
+      + (ANCHOR_STRATEGY_NAMES[thread.anchorStrategy] || thread.anchorStrategy)
+      + ' with ' + Math.round((thread.anchorConfidence || 0) * 100) + '% confidence.'
+      + (thread.anchorStrategy === 'fuzzy' ? ' It was: \\u201C' + thread.originalText + '\\u201D' : '')
+      + ' Confirm the anchor or re-anchor it to the right text.';
+    return label;
+  }
+
+  // ── edit history ───────────────────────────
+  // Earlier bodies of an edited comment, newest first; hidden until toggled.
+  function buildCommentHistory(history) {
+    var list = document.createElement('div');
+    list.className = 'comment-history';
+    list.style.display = 'none';
+    history.slice().reverse().forEach(function(revision) {
+      var item = document.createElement('div');
+      item.className = 'comment-revision';
+      var written = document.createElement('div');
+      written.className = 'comment-time';
+      try { written.textContent = new Date(revision.written).toLocaleString(); }
+      catch (_) { written.textContent = revision.written; }
+      item.appendChild(written);
+      var revisionBody = document.createElement('div');
+      revisionBody.className = 'comment-body';
+      revisionBody.textContent = revision.body;
+      item.appendChild(revisionBody);
+      list.appendChild(item);
+    });
+    return list;
+  }
+
+  // ── anchor history ─────────────────────────
+  // Text a re-attached comment pointed to before, oldest first; hidden until toggled.
+  function buildAnchorHistory(history) {
+    var list = document.createElement('div');
+    list.className = 'comment-history anchor-history';
+    list.style.display = 'none';
+    history.forEach(function(revision) {
+      var item = document.createElement('div');
+      item.className = 'comment-revision';
+      var replaced = document.createElement('div');
+      replaced.className = 'comment-time';
+      var when = revision.replacedAt;
+      try { when = new Date(revision.replacedAt).toLocaleString(); } catch (_) { /* keep ISO */ }
+      replaced.textContent = 'Re-attached by ' + revision.replacedBy + ' \\u00b7 ' + when;
+      item.appendChild(replaced);
+      var quote = document.createElement('div');
+      quote.className = 'comment-body';
+      quote.textContent = '\\u201C' + revision.text + '\\u201D';
+      item.appendChild(quote);
+      list.appendChild(item);
+    });
+    return list;
+  }
+
+  // ── reactions ──────────────────────────────
+  function toggleReaction(threadId, commentId, emoji) {
+    vscode.postMessage({ command: 'toggleReaction', threadId: threadId, commentId: commentId, emoji: emoji });
+  }
+
+  // Pills for every emoji that has reactors, plus a picker offering the
+  // configured emoji set. Hovering a pill lists who reacted.
+  function buildReactionBar(threadId, entry) {
+    var bar = document.createElement('div');
+    bar.className = 'comment-reactions';
+    var reactions = entry.reactions || {};
+
+    Object.keys(reactions).forEach(function(emoji) {
+      var authors = reactions[emoji] || [];
+      if (authors.length === 0) { return; }
+      var pill = document.createElement('button');
+      pill.className = 'reaction-btn' + (authors.indexOf(currentUser) !== -1 ? ' reacted' : '');
+      pill.textContent = emoji + ' ' + authors.length;
+      pill.title = authors.join(', ');
+      pill.addEventListener('click', function(e) {
+        e.stopPropagation();
+        toggleReaction(threadId, entry.id, emoji);
+      });
+      bar.appendChild(pill);
+    });
+
+    var addBtn = document.createElement('button');
+    addBtn.className = 'reaction-btn reaction-add';
+    addBtn.textContent = '\\u263A+';
+    addBtn.title = 'Add reaction';
+    bar.appendChild(addBtn);
+
+    var picker = document.createElement('div');
+    picker.className = 'reaction-picker';
+    reactionEmojis.forEach(function(emoji) {
+      var opt = document.createElement('button');
+      opt.className = 'reaction-option';
+      opt.textContent = emoji;
+      var authors = reactions[emoji] || [];
+      opt.title = authors.length > 0 ? emoji + ' ' + authors.join(', ') : 'React with ' + emoji;
+      opt.addEventListener('click', function(e) {
+        e.stopPropagation();
+        picker.classList.remove('visible');
+        toggleReaction(threadId, entry.id, emoji);
+      });
+      picker.appendChild(opt);
+    });
+    bar.appendChild(picker);
+
+    addBtn.addEventListener('click', function(e) {
+      e.stopPropagation();
+      document.querySelectorAll('.reaction-picker.visible').forEach(function(p) {
+        if (p !== picker) { p.classList.remove('visible'); }
+      });
+      picker.classList.toggle('visible');
+    });
+
+    return bar;
+  }
+
+  document.addEventListener('click', function() {
+    document.querySelectorAll('.reaction-picker.visible').forEach(function(p) { p.classList.remove('visible'); });
   });
 
   // ── build sidebar thread list ──────────────
@@ -1325,6 +2704,17 @@ const PREVIEW_JS = /* js */ `
     sidebarContent.appendChild(emptyState);
   }
 
+  // General comments are pinned in their own group above the others
+  var generalGroup = document.createElement('div');
+  generalGroup.className = 'general-comments';
+  var generalHeader = document.createElement('div');
+  generalHeader.className = 'general-comments-header';
+  generalHeader.textContent = GENERAL_LABEL;
+  generalGroup.appendChild(generalHeader);
+  if (threads.some(isGeneral)) {
+    sidebarContent.appendChild(generalGroup);
+  }
+
   threads.forEach(function(thread, threadIndex) {
     var status = thread.status;
     var color = thread.color || getThreadColor(threadIndex);
@@ -1333,13 +2723,48 @@ const PREVIEW_JS = /* js */ `
     block.className = 'comment-thread-block ' + status;
     block.dataset.threadId = thread.id;
 
-    // Status label (only shown for stale threads)
+    var isResolved = status === 'resolved';
+
+    // Status label (only shown for stale and resolved threads)
     var statusLabel = document.createElement('div');
     statusLabel.className = 'thread-status-label ' + status;
     if (status === 'stale') {
       var statusText = document.createElement('span');
       statusText.textContent = '\\u26A0 Text Changed';
       statusLabel.appendChild(statusText);
+    } else if (isResolved) {
+      var resolvedText = document.createElement('span');
+      resolvedText.textContent = '\\u2713 Resolved' + (thread.resolvedBy ? ' by ' + thread.resolvedBy : '');
+      if (thread.resolvedAt) {
+        try { resolvedText.title = new Date(thread.resolvedAt).toLocaleString(); }
+        catch (_) { resolvedText.title = thread.resolvedAt; }
+      }
+      statusLabel.appendChild(resolvedText);
+    }
+    if (typeof thread.blockLine === 'number') {
+      var kindText = document.createElement('span');
+      kindText.className = 'anchor-kind';
+      kindText.textContent = BLOCK_LABELS[blockKey({ kind: thread.anchorKind, blockType: thread.blockType })]
+        + (thread.region ? ' \\u00B7 ' + describeRegion(thread.region) : '');
+      statusLabel.appendChild(kindText);
+    }
+    if (thread.anchorState) {
+      statusLabel.appendChild(buildAnchorStateLabel(thread));
+    }
+    var anchorHistoryEl = null;
+    if (thread.anchorHistory && thread.anchorHistory.length > 0) {
+      anchorHistoryEl = buildAnchorHistory(thread.anchorHistory);
+      var anchorHistoryToggle = document.createElement('button');
+      anchorHistoryToggle.className = 'action-link anchor-history-toggle';
+      anchorHistoryToggle.textContent = '\\u2316 Re-attached \\u2014 view original text';
+      anchorHistoryToggle.addEventListener('click', function() {
+        var hidden = anchorHistoryEl.style.display === 'none';
+        anchorHistoryEl.style.display = hidden ? '' : 'none';
+        anchorHistoryToggle.textContent = hidden
+          ? '\\u2316 Re-attached \\u2014 hide original text'
+          : '\\u2316 Re-attached \\u2014 view original text';
+      });
+      statusLabel.appendChild(anchorHistoryToggle);
     }
     // statusLabel is appended after the entries (below) so the
     // author + timestamp header sits at the very top of the card.
@@ -1350,6 +2775,19 @@ const PREVIEW_JS = /* js */ `
       var entryEl = document.createElement('div');
       entryEl.className = 'comment-entry';
 
+      // Deleted comments stay in place as a placeholder so replies keep their context
+      if (entry.deletedAt) {
+        entryEl.classList.add('deleted');
+        var placeholder = document.createElement('div');
+        placeholder.className = 'comment-body comment-deleted';
+        placeholder.textContent = 'Comment deleted' + (entry.deletedBy ? ' by ' + entry.deletedBy : '');
+        try { placeholder.title = new Date(entry.deletedAt).toLocaleString(); }
+        catch (_) { placeholder.title = entry.deletedAt; }
+        entryEl.appendChild(placeholder);
+        entryElements.push(entryEl);
+        return;
+      }
+
       var header = document.createElement('div');
       header.className = 'comment-header';
 
@@ -1371,8 +2809,29 @@ const PREVIEW_JS = /* js */ `
       body.textContent = entry.body;
       entryEl.appendChild(body);
 
-      // Per-comment action links (only for the comment author)
-      if (entry.author === currentUser) {
+      if (entry.history && entry.history.length > 0) {
+        var historyEl = buildCommentHistory(entry.history);
+        var historyToggle = document.createElement('button');
+        historyToggle.className = 'action-link comment-edited';
+        historyToggle.textContent = 'edited \u2014 view history';
+        historyToggle.addEventListener('click', function(e) {
+          e.stopPropagation();
+          var hidden = historyEl.style.display === 'none';
+          historyEl.style.display = hidden ? '' : 'none';
+          historyToggle.textContent = hidden ? 'edited \u2014 hide history' : 'edited \u2014 view history';
+        });
+        time.appendChild(document.createTextNode(' \u00b7 '));
+        time.appendChild(historyToggle);
+        entryEl.appendChild(historyEl);
+      } else if (entry.edited) {
+        time.appendChild(document.createTextNode(' \u00b7 edited'));
+      }
+
+      entryEl.appendChild(buildReactionBar(thread.id, entry));
+
+      // Per-comment action links (only for the comment author, and
+      // never on resolved threads — those are locked until reopened)
+      if (entry.author === currentUser && !isResolved) {
         var commentActions = document.createElement('div');
         commentActions.className = 'comment-actions';
 
@@ -1470,26 +2929,96 @@ const PREVIEW_JS = /* js */ `
     var actionsBar = document.createElement('div');
     actionsBar.className = 'thread-actions';
 
-    var replyBtn = document.createElement('button');
-    replyBtn.className = 'action-link';
-    replyBtn.textContent = '\\u21A9 Reply';
-    replyBtn.addEventListener('click', function() {
-      var existing = block.querySelector('.comment-form');
-      if (existing) { existing.remove(); return; }
-      var result = createCommentForm({
-        placeholder: 'Write a reply...',
-        submitLabel: 'Reply',
-        onSubmit: function(text) {
-          vscode.postMessage({ command: 'replyComment', threadId: thread.id, body: text });
-        }
+    if (isResolved) {
+      var reopenBtn = document.createElement('button');
+      reopenBtn.className = 'action-link';
+      reopenBtn.textContent = '\\u21BA Reopen';
+      reopenBtn.addEventListener('click', function() {
+        vscode.postMessage({ command: 'reopenThread', threadId: thread.id });
       });
-      block.appendChild(result.form);
-      result.textarea.focus();
-    });
-    actionsBar.appendChild(replyBtn);
+      actionsBar.appendChild(reopenBtn);
+    } else {
+      var replyBtn = document.createElement('button');
+      replyBtn.className = 'action-link';
+      replyBtn.textContent = '\\u21A9 Reply';
+      replyBtn.addEventListener('click', function() {
+        var existing = block.querySelector('.comment-form');
+        if (existing) { existing.remove(); return; }
+        var result = createCommentForm({
+          placeholder: 'Write a reply...',
+          submitLabel: 'Reply',
+          onSubmit: function(text) {
+            vscode.postMessage({ command: 'replyComment', threadId: thread.id, body: text });
+          }
+        });
+        block.appendChild(result.form);
+        result.textarea.focus();
+      });
+      actionsBar.appendChild(replyBtn);
 
-    // Delete Thread link — only for the thread creator
-    if (thread.thread.length > 0 && thread.thread[0].author === currentUser) {
+      var resolveBtn = document.createElement('button');
+      resolveBtn.className = 'action-link';
+      resolveBtn.textContent = '\\u2713 Resolve';
+      resolveBtn.addEventListener('click', function() {
+        vscode.postMessage({ command: 'resolveThread', threadId: thread.id });
+      });
+      actionsBar.appendChild(resolveBtn);
+
+      if (thread.suggestion && thread.suggestion.applicable) {
+        var applyBtn = document.createElement('button');
+        applyBtn.className = 'action-link';
+        applyBtn.textContent = '\\u270E Apply suggestion';
+        applyBtn.title = 'Replace the text in the document and resolve this thread';
+        applyBtn.addEventListener('click', function() {
+          vscode.postMessage({ command: 'applySuggestion', threadId: thread.id });
+        });
+        actionsBar.appendChild(applyBtn);
+      }
+      if (thread.suggestion) {
+        var rejectBtn = document.createElement('button');
+        rejectBtn.className = 'action-link';
+        rejectBtn.textContent = '\\u2715 Reject';
+        rejectBtn.title = 'Resolve this thread without changing the document';
+        rejectBtn.addEventListener('click', function() {
+          vscode.postMessage({ command: 'resolveThread', threadId: thread.id });
+        });
+        actionsBar.appendChild(rejectBtn);
+      }
+    }
+
+    // Anchor fixes: stale threads are re-attached to new text, re-located ones
+    // confirmed or moved. Locked while resolved, like every other change.
+    if (status === 'stale') {
+      var reattachBtn = document.createElement('button');
+      reattachBtn.className = 'action-link';
+      reattachBtn.textContent = '\\u2316 Re-attach';
+      reattachBtn.title = 'Select the text this comment should now point to';
+      reattachBtn.addEventListener('click', function() {
+        startReanchor(thread.id);
+      });
+      actionsBar.appendChild(reattachBtn);
+    } else if (!isResolved && thread.anchorState) {
+      var confirmAnchorBtn = document.createElement('button');
+      confirmAnchorBtn.className = 'action-link';
+      confirmAnchorBtn.textContent = '\\u2693 Confirm Anchor';
+      confirmAnchorBtn.title = 'The highlighted text is the right place for this comment';
+      confirmAnchorBtn.addEventListener('click', function() {
+        vscode.postMessage({ command: 'confirmAnchor', threadId: thread.id });
+      });
+      actionsBar.appendChild(confirmAnchorBtn);
+
+      var reanchorBtn = document.createElement('button');
+      reanchorBtn.className = 'action-link';
+      reanchorBtn.textContent = '\\u2316 Re-anchor to Selection';
+      reanchorBtn.title = 'Select the text this comment should point to';
+      reanchorBtn.addEventListener('click', function() {
+        startReanchor(thread.id);
+      });
+      actionsBar.appendChild(reanchorBtn);
+    }
+
+    // Delete Thread link — only for the thread creator, and not while resolved
+    if (!isResolved && thread.thread.length > 0 && thread.thread[0].author === currentUser) {
       var deleteThreadLink = document.createElement('button');
       deleteThreadLink.className = 'action-link';
       deleteThreadLink.textContent = '\\u2715 Delete Thread';
@@ -1499,11 +3028,24 @@ const PREVIEW_JS = /* js */ `
       actionsBar.appendChild(deleteThreadLink);
     }
 
+    // The suggested edit sits under the comment that proposed it
+    var firstBody = thread.suggestion && entryElements.length > 0 && entryElements[0].querySelector('.comment-body');
+    if (firstBody) { firstBody.after(buildSuggestionDiff(thread.suggestion)); }
+
     block.appendChild(statusLabel);
+    if (anchorHistoryEl) { block.appendChild(anchorHistoryEl); }
     block.appendChild(actionsBar);
-    sidebarContent.appendChild(block);
+    (isGeneral(thread) ? generalGroup : sidebarContent).appendChild(block);
   });
 
+  // ── initial focus (e.g. opened from an editor hover link) ──
+  if (focusThreadId && focusSidebarThread(focusThreadId)) {
+    var focusMarks = contentEl.querySelectorAll('.comment-highlight[data-thread-id="' + focusThreadId + '"]');
+    if (focusMarks.length > 0) {
+      focusMarks[0].scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }
+
   // ── thread count badge ─────────────────────
   (function updateThreadCount() {
     var badge = document.getElementById('thread-count-badge');
@@ -1662,5 +3204,19 @@ const PREVIEW_JS = /* js */ `
     });
   })();
 
+  // ── Text box focus (undo/redo keybindings defer to native undo while typing,
+  //    including in blocks edited in track-changes mode) ──
+  function isTextInput(el) {
+    return !!el && (el.tagName === 'TEXTAREA' || el.tagName === 'INPUT' || el.isContentEditable === true);
+  }
+  document.addEventListener('focusin', function(e) {
+    if (isTextInput(e.target)) { vscode.postMessage({ command: 'inputFocus', focused: true }); }
+  });
+  document.addEventListener('focusout', function(e) {
+    if (isTextInput(e.target) && !isTextInput(e.relatedTarget)) {
+      vscode.postMessage({ command: 'inputFocus', focused: false });
+    }
+  });
+
 })();
 `;
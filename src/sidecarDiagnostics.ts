@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { sidecarManager, type SidecarValidationEvent } from './sidecarManager';
+import type { SidecarValidationError } from './utils/sidecarValidation';
+import { locateJsonPath } from './utils/jsonLocate';
+
+/**
+ * Publishes sidecar validation errors as Problems on the `.comments.json`
+ * file, so a broken hand-edit points at the thread that was skipped.
+ */
+export class SidecarDiagnostics implements vscode.Disposable {
+  private readonly collection = vscode.languages.createDiagnosticCollection('markdownReview');
+  private disposables: vscode.Disposable[] = [this.collection];
+  private watcherDisposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.watchSidecars();
+    this.disposables.push(
+      sidecarManager.onDidValidate(e => this.publish(e)),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('markdownReview.storage') || e.affectsConfiguration('markdownReview.storageDirectory')) {
+          this.collection.clear();
+          this.watchSidecars();
+        }
+      }),
+    );
+  }
+
+  /**
+   * (Re)create the sidecar watcher for the configured storage location.
+   * Re-validates on every save so fixed errors clear without opening the preview.
+   */
+  private watchSidecars(): void {
+    for (const d of this.watcherDisposables) {
+      d.dispose();
+    }
+    const watcher = vscode.workspace.createFileSystemWatcher(sidecarManager.getWatchGlob());
+    const revalidate = (uri: vscode.Uri) => {
+      sidecarManager.readSidecar(sidecarManager.getDocPath(uri.fsPath)).catch(() => undefined);
+    };
+    this.watcherDisposables = [
+      watcher,
+      watcher.onDidCreate(revalidate),
+      watcher.onDidChange(revalidate),
+      watcher.onDidDelete(uri => this.collection.delete(uri)),
+    ];
+  }
+
+  private publish(event: SidecarValidationEvent): void {
+    const uri = vscode.Uri.file(event.sidecarPath);
+    if (event.errors.length === 0) {
+      this.collection.delete(uri);
+      return;
+    }
+
+    let text = '';
+    try {
+      text = fs.readFileSync(event.sidecarPath, 'utf-8');
+    } catch {
+      // File vanished between read and publish — fall back to the first line
+    }
+
+    this.collection.set(uri, event.errors.map(error => {
+      const diagnostic = new vscode.Diagnostic(
+        locateError(text, error),
+        `${error.path || 'File'} ${error.message}` +
+          (error.threadId !== undefined || /^comments\[\d+\]/.test(error.path) ? ' — thread was skipped' : ''),
+        vscode.DiagnosticSeverity.Error,
+      );
+      diagnostic.source = 'Markdown Review';
+      return diagnostic;
+    }));
+  }
+
+  dispose(): void {
+    for (const d of [...this.watcherDisposables, ...this.disposables]) {
+      d.dispose();
+    }
+  }
+}
+
+/**
+ * Source range for an error: the offending value, or its nearest existing
+ * ancestor for missing keys. Multi-line values are narrowed to their first
+ * line so the squiggle stays readable.
+ */
+function locateError(text: string, error: SidecarValidationError): vscode.Range {
+  const span = locateJsonPath(text, error.path) ?? { start: 0, end: 0 };
+  const before = text.slice(0, span.start).split('\n');
+  const line = before.length - 1;
+  const character = before[line].length;
+  const lineEnd = text.indexOf('\n', span.start);
+  const end = Math.min(span.end, lineEnd === -1 ? text.length : lineEnd);
+  return new vscode.Range(line, character, line, character + Math.max(1, end - span.start));
+}
@@ -1,37 +1,162 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import type { SidecarFile, CommentThread, CommentEntry } from './models/types';
-import { v4 as uuidv4 } from 'uuid';
+import type { SidecarFile } from './models/types';
+import type { CommentStore, SidecarChangeEvent, WriteOrigin } from './stores/commentStore';
+import { MutationQueue, applyMutation, type RevisionedAccess, type RevisionedSidecar } from './stores/sidecarMutation';
+import { computeContentHash } from './utils/hash';
+import {
+  CURRENT_SIDECAR_VERSION,
+  DEFAULT_REACTION,
+  UnsupportedSidecarVersionError,
+  migrateSidecar,
+} from './utils/sidecarMigration';
+import * as ops from './utils/sidecarOps';
+import { validateSidecar, type SidecarValidationError } from './utils/sidecarValidation';
+import {
+  DEFAULT_STORAGE_DIRECTORY,
+  docPathFor,
+  sidecarGlob,
+  sidecarPathFor,
+  type StorageLayout,
+  type StorageMode,
+} from './utils/sidecarPaths';
 
-/** Origin tag so listeners can ignore their own writes. */
-export type WriteOrigin = 'editor' | 'preview' | 'internal';
+export { DEFAULT_REACTION, UnsupportedSidecarVersionError };
+export type { SidecarChangeEvent, WriteOrigin };
 
-export interface SidecarChangeEvent {
-  /** Absolute path of the markdown document the sidecar belongs to. */
-  docPath: string;
-  /** Who triggered the write. */
+export interface SidecarValidationEvent {
+  /** Absolute path of the `.comments.json` file that was read. */
+  sidecarPath: string;
+  /** Structural problems found; empty when the file is clean or absent. */
+  errors: SidecarValidationError[];
+}
+
+/**
+ * Records a write we made so the file watcher can tell it from external
+ * changes: the event is ours when the file still has the revision we wrote.
+ */
+interface WriteToken {
+  /** Revision of the content we wrote; null for a delete. */
+  revision: string | null;
+  /** Origin the write was already announced with. */
   origin: WriteOrigin;
 }
 
+/** Revision of a sidecar file's raw content. */
+function revisionOf(content: string): string {
+  return computeContentHash(content, content.length);
+}
+
 /**
- * Manages reading and writing of sidecar .comments.json files
+ * Read the `markdownReview.storage` settings for the open workspace.
  */
-export class SidecarManager {
-  /** True while we are writing a sidecar file ourselves (to suppress watcher reloads). */
-  writing = false;
+export function readStorageLayout(): StorageLayout {
+  const config = vscode.workspace.getConfiguration('markdownReview');
+  return {
+    mode: config.get<StorageMode>('storage', 'adjacent'),
+    directory: config.get<string>('storageDirectory', DEFAULT_STORAGE_DIRECTORY) || DEFAULT_STORAGE_DIRECTORY,
+    roots: vscode.workspace.workspaceFolders?.map(f => f.uri.fsPath) ?? [],
+  };
+}
+
+/**
+ * Manages reading and writing of sidecar .comments.json files — the default
+ * {@link CommentStore}.
+ */
+export class SidecarManager implements CommentStore, RevisionedAccess {
+  /** Last write we made per sidecar path, so the watcher can skip its echo. */
+  private readonly writeTokens = new Map<string, WriteToken>();
+
+  private readonly mutations = new MutationQueue();
 
   private readonly _onDidChange = new vscode.EventEmitter<SidecarChangeEvent>();
-  /** Fired after every successful sidecar write. */
+  /** Fired after every successful sidecar write, and for external edits while {@link watch}ing. */
   public readonly onDidChange: vscode.Event<SidecarChangeEvent> = this._onDidChange.event;
 
+  private readonly _onDidValidate = new vscode.EventEmitter<SidecarValidationEvent>();
+  /** Fired after every read with the structural errors found (if any). */
+  public readonly onDidValidate: vscode.Event<SidecarValidationEvent> = this._onDidValidate.event;
+
+  /**
+   * Threads that failed validation on the last read, keyed by sidecar path.
+   * They are hidden from callers but written back verbatim so a hand-edit
+   * typo never costs anyone their comments.
+   */
+  private readonly quarantine = new Map<string, unknown[]>();
+
+  /**
+   * @param layoutSource Supplies the storage layout; read on every call so
+   *   setting changes apply immediately. Tests pass a fixed layout.
+   */
+  constructor(private readonly layoutSource: () => StorageLayout = readStorageLayout) {}
+
+  /**
+   * The storage layout currently in effect
+   */
+  getLayout(): StorageLayout {
+    return this.layoutSource();
+  }
+
   /**
    * Get the sidecar file path for a markdown document
    */
   getSidecarPath(docPath: string): string {
-    const dir = path.dirname(docPath);
-    const base = path.basename(docPath, '.md');
-    return path.join(dir, `${base}.comments.json`);
+    return sidecarPathFor(docPath, this.layoutSource());
+  }
+
+  /**
+   * Get the markdown document path a sidecar file belongs to
+   */
+  getDocPath(sidecarPath: string): string {
+    return docPathFor(sidecarPath, this.layoutSource());
+  }
+
+  /**
+   * Workspace-relative glob matching every sidecar in the current layout, for file watchers
+   */
+  getWatchGlob(): string {
+    return sidecarGlob(this.layoutSource());
+  }
+
+  /**
+   * Absolute paths of every document that has a sidecar in the current layout
+   */
+  async listDocuments(): Promise<string[]> {
+    const files = await vscode.workspace.findFiles(this.getWatchGlob(), '**/node_modules/**');
+    return files.map(uri => this.getDocPath(uri.fsPath));
+  }
+
+  /**
+   * Watch sidecar files for changes made outside the extension (git
+   * operations, hand edits, other windows). Follows storage setting changes.
+   */
+  watch(): vscode.Disposable {
+    let watcher: vscode.FileSystemWatcher | undefined;
+    const notify = async (uri: vscode.Uri) => {
+      const token = this.writeTokens.get(uri.fsPath);
+      if (token && token.revision === await this.currentRevision(uri.fsPath)) {
+        return; // our own write — already announced with token.origin
+      }
+      this._onDidChange.fire({ docPath: this.getDocPath(uri.fsPath), origin: 'external' });
+    };
+    const start = () => {
+      watcher?.dispose();
+      watcher = vscode.workspace.createFileSystemWatcher(this.getWatchGlob());
+      watcher.onDidCreate(notify);
+      watcher.onDidChange(notify);
+      watcher.onDidDelete(notify);
+    };
+    start();
+    const configListener = vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('markdownReview.storage') || e.affectsConfiguration('markdownReview.storageDirectory')) {
+        start();
+      }
+    });
+    return new vscode.Disposable(() => {
+      watcher?.dispose();
+      configListener.dispose();
+    });
   }
 
   /**
@@ -42,23 +167,59 @@ export class SidecarManager {
   }
 
   /**
-   * Read and parse a sidecar file
+   * Read and parse a sidecar file, upgrading older schema versions in memory
+   * (the next write persists the upgrade).
+   *
+   * Threads that fail structural validation are left out of the result and
+   * quarantined; the errors are reported through {@link onDidValidate}.
+   *
+   * @throws UnsupportedSidecarVersionError when the file was written by a
+   *   newer schema — callers must not treat that as "no comments".
    */
   async readSidecar(docPath: string): Promise<SidecarFile | null> {
+    return (await this.readRevisioned(docPath)).sidecar;
+  }
+
+  /**
+   * {@link readSidecar}, plus the revision of the file that was read
+   */
+  async readRevisioned(docPath: string): Promise<RevisionedSidecar> {
     const sidecarPath = this.getSidecarPath(docPath);
-    
+    this.quarantine.delete(sidecarPath);
+
     if (!fs.existsSync(sidecarPath)) {
-      return null;
+      this._onDidValidate.fire({ sidecarPath, errors: [] });
+      return { sidecar: null, revision: null };
     }
 
+    let data: unknown;
+    let revision: string | null = null;
     try {
       const content = await fs.promises.readFile(sidecarPath, 'utf-8');
-      const data = JSON.parse(content) as SidecarFile;
-      return this.validateSidecar(data) ? data : null;
+      revision = revisionOf(content);
+      data = migrateSidecar(JSON.parse(content), {
+        loadDocSource: () => fs.existsSync(docPath) ? fs.readFileSync(docPath, 'utf-8') : undefined,
+      }).data;
     } catch (error) {
+      if (error instanceof UnsupportedSidecarVersionError) {
+        this._onDidValidate.fire({ sidecarPath, errors: [] });
+        throw new UnsupportedSidecarVersionError(error.version, sidecarPath);
+      }
       console.error(`Failed to read sidecar file: ${sidecarPath}`, error);
-      return null;
+      const message = error instanceof Error ? error.message : String(error);
+      this._onDidValidate.fire({ sidecarPath, errors: [{ path: '', message: `could not be parsed: ${message}` }] });
+      return { sidecar: null, revision };
+    }
+
+    const result = validateSidecar(data);
+    if (result.quarantined.length > 0) {
+      this.quarantine.set(sidecarPath, result.quarantined);
     }
+    if (result.errors.length > 0) {
+      console.warn(`[MarkdownReview] ${sidecarPath}: ${result.errors.length} validation error(s)`);
+    }
+    this._onDidValidate.fire({ sidecarPath, errors: result.errors });
+    return { sidecar: result.sidecar, revision };
   }
 
   /**
@@ -66,19 +227,28 @@ export class SidecarManager {
    * @param origin  Who is triggering the write (so listeners can skip their own changes).
    */
   async writeSidecar(docPath: string, sidecar: SidecarFile, origin: WriteOrigin = 'internal'): Promise<void> {
+    const sidecarPath = this.getSidecarPath(docPath);
+    const quarantined = this.quarantine.get(sidecarPath) ?? [];
+
     // If all comments have been removed, delete the sidecar file instead of writing an empty one
-    if (sidecar.comments.length === 0) {
-      await this.deleteSidecar(docPath);
-      this._onDidChange.fire({ docPath, origin });
+    if (sidecar.comments.length === 0 && quarantined.length === 0) {
+      await this.deleteSidecar(docPath, origin);
       return;
     }
 
-    const sidecarPath = this.getSidecarPath(docPath);
     const tempPath = `${sidecarPath}.tmp`;
 
-    this.writing = true;
+    // Always emit the newest schema, whatever version was read. Quarantined
+    // threads go back untouched after the valid ones.
+    const content = JSON.stringify({
+      ...sidecar,
+      version: CURRENT_SIDECAR_VERSION,
+      comments: [...sidecar.comments, ...quarantined],
+    }, null, 2);
+    this.writeTokens.set(sidecarPath, { revision: revisionOf(content), origin });
     try {
-      const content = JSON.stringify(sidecar, null, 2);
+      // Centralized storage mirrors the doc tree, so the folder may not exist yet
+      await fs.promises.mkdir(path.dirname(sidecarPath), { recursive: true });
       await fs.promises.writeFile(tempPath, content, 'utf-8');
       await fs.promises.rename(tempPath, sidecarPath);
     } catch (error) {
@@ -87,9 +257,6 @@ export class SidecarManager {
         await fs.promises.unlink(tempPath);
       }
       throw error;
-    } finally {
-      // Reset after a short delay so the file-system watcher event has time to fire
-      setTimeout(() => { this.writing = false; }, 500);
     }
 
     // Notify all listeners
@@ -98,152 +265,58 @@ export class SidecarManager {
 
   /**
    * Delete the sidecar file for a markdown document if it exists.
+   * Always fires {@link onDidChange}.
    */
-  async deleteSidecar(docPath: string): Promise<void> {
+  async deleteSidecar(docPath: string, origin: WriteOrigin = 'internal'): Promise<void> {
     const sidecarPath = this.getSidecarPath(docPath);
+    this.quarantine.delete(sidecarPath);
     if (fs.existsSync(sidecarPath)) {
+      this.writeTokens.set(sidecarPath, { revision: null, origin });
       await fs.promises.unlink(sidecarPath);
     }
+    this._onDidChange.fire({ docPath, origin });
   }
 
   /**
-   * Create a new empty sidecar file
-   */
-  createEmptySidecar(docName: string): SidecarFile {
-    return {
-      doc: docName,
-      version: '2.0',
-      comments: [],
-    };
-  }
-
-  /**
-   * Add a new comment thread to a sidecar
-   */
-  addThread(sidecar: SidecarFile, thread: Omit<CommentThread, 'id'>): CommentThread {
-    const newThread: CommentThread = {
-      ...thread,
-      id: uuidv4(),
-    };
-    sidecar.comments.push(newThread);
-    return newThread;
-  }
-
-  /**
-   * Add a reply to an existing thread
+   * Read-modify-write through {@link applyMutation}, one at a time per sidecar
    */
-  addReply(sidecar: SidecarFile, threadId: string, entry: Omit<CommentEntry, 'id'>): CommentEntry | null {
-    const thread = sidecar.comments.find(t => t.id === threadId);
-    if (!thread) {
-      return null;
-    }
-
-    const newEntry: CommentEntry = {
-      ...entry,
-      id: uuidv4(),
-    };
-    thread.thread.push(newEntry);
-    return newEntry;
+  mutate<T>(docPath: string, edit: (sidecar: SidecarFile) => T, origin: WriteOrigin = 'internal'): Promise<T> {
+    return this.mutations.run(this.getSidecarPath(docPath), () => applyMutation(this, docPath, edit, origin));
   }
 
   /**
-   * Delete a thread from the sidecar
+   * Write only if the file still has the `expected` revision (null = absent)
    */
-  deleteThread(sidecar: SidecarFile, threadId: string): boolean {
-    const index = sidecar.comments.findIndex(t => t.id === threadId);
-    if (index === -1) {
+  async writeIfRevision(docPath: string, sidecar: SidecarFile, expected: string | null, origin: WriteOrigin): Promise<boolean> {
+    if (await this.currentRevision(this.getSidecarPath(docPath)) !== expected) {
       return false;
     }
-    sidecar.comments.splice(index, 1);
+    await this.writeSidecar(docPath, sidecar, origin);
     return true;
   }
 
-  /**
-   * Delete a single comment entry from a thread by index.
-   * If it was the last comment, removes the entire thread.
-   * Returns true if something was deleted.
-   */
-  deleteComment(sidecar: SidecarFile, threadId: string, commentIndex: number): boolean {
-    const thread = sidecar.comments.find(t => t.id === threadId);
-    if (!thread || commentIndex < 0 || commentIndex >= thread.thread.length) {
-      return false;
-    }
-    thread.thread.splice(commentIndex, 1);
-    // If that was the last comment, remove the entire thread
-    if (thread.thread.length === 0) {
-      this.deleteThread(sidecar, threadId);
-    }
-    return true;
-  }
-
-  /**
-   * Delete a single comment entry from a thread by comment ID.
-   * If it was the last comment, removes the entire thread.
-   * Returns true if something was deleted.
-   */
-  deleteCommentById(sidecar: SidecarFile, threadId: string, commentId: string): boolean {
-    const thread = sidecar.comments.find(t => t.id === threadId);
-    if (!thread) { return false; }
-    const idx = thread.thread.findIndex(c => c.id === commentId);
-    if (idx === -1) { return false; }
-    return this.deleteComment(sidecar, threadId, idx);
-  }
-
-  /**
-   * Edit the body of an existing comment entry.
-   * Sets the `edited` timestamp. Returns the updated entry or null.
-   */
-  /**
-   * Toggle a thumbs-up reaction on a comment. Returns true if added, false if removed.
-   */
-  toggleReaction(sidecar: SidecarFile, threadId: string, commentId: string, author: string): boolean {
-    const thread = sidecar.comments.find(t => t.id === threadId);
-    if (!thread) { return false; }
-    const comment = thread.thread.find(c => c.id === commentId);
-    if (!comment) { return false; }
-    if (!comment.reactions) { comment.reactions = []; }
-    const idx = comment.reactions.indexOf(author);
-    if (idx === -1) {
-      comment.reactions.push(author);
-      return true;
-    } else {
-      comment.reactions.splice(idx, 1);
-      return false;
+  private async currentRevision(sidecarPath: string): Promise<string | null> {
+    try {
+      return revisionOf(await fs.promises.readFile(sidecarPath, 'utf-8'));
+    } catch {
+      return null;
     }
   }
 
-  editComment(sidecar: SidecarFile, threadId: string, commentId: string, newBody: string): CommentEntry | null {
-    const thread = sidecar.comments.find(t => t.id === threadId);
-    if (!thread) { return null; }
-    const entry = thread.thread.find(c => c.id === commentId);
-    if (!entry) { return null; }
-    entry.body = newBody;
-    entry.edited = new Date().toISOString();
-    return entry;
-  }
+  // ── Sidecar edits ─────────────────────────────────────────────────
+  // Pure helpers from utils/sidecarOps.ts, exposed here for existing callers.
+  // Code that talks to a CommentStore should import them directly.
 
-  /**
-   * Validate sidecar file structure
-   */
-  private validateSidecar(data: unknown): data is SidecarFile {
-    if (!data || typeof data !== 'object') {
-      return false;
-    }
-    
-    const sidecar = data as Record<string, unknown>;
-    
-    if (typeof sidecar.doc !== 'string') {
-      return false;
-    }
-    if (sidecar.version !== '2.0') {
-      return false;
-    }
-    if (!Array.isArray(sidecar.comments)) {
-      return false;
-    }
-    
-    return true;
-  }
+  readonly createEmptySidecar = ops.createEmptySidecar;
+  readonly addThread = ops.addThread;
+  readonly addReply = ops.addReply;
+  readonly deleteThread = ops.deleteThread;
+  readonly deleteComment = ops.deleteComment;
+  readonly deleteCommentById = ops.deleteCommentById;
+  readonly toggleReaction = ops.toggleReaction;
+  readonly editComment = ops.editComment;
+  readonly resolveThread = ops.resolveThread;
+  readonly reopenThread = ops.reopenThread;
 }
 
 export const sidecarManager = new SidecarManager();
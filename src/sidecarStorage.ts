@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { sidecarManager } from './sidecarManager';
+import { planSidecarMoves, type StorageLayout, type StorageMode } from './utils/sidecarPaths';
+
+interface StorageModeItem extends vscode.QuickPickItem {
+  mode: StorageMode;
+}
+
+/**
+ * Command handler: move every existing sidecar into the chosen layout and
+ * switch the `markdownReview.storage` setting to match.
+ */
+export async function moveSidecarStorage(): Promise<void> {
+  const current = sidecarManager.getLayout();
+  if (current.roots.length === 0) {
+    vscode.window.showWarningMessage('Open a workspace folder to move comment files.');
+    return;
+  }
+
+  const items: StorageModeItem[] = [
+    { mode: 'adjacent', label: 'Next to each document', description: 'doc.md → doc.comments.json' },
+    { mode: 'centralized', label: `Centralized under ${current.directory}/`, description: `docs/doc.md → ${current.directory}/docs/doc.comments.json` },
+  ];
+  for (const item of items) {
+    if (item.mode === current.mode) { item.detail = 'Current setting'; }
+  }
+  const picked = await vscode.window.showQuickPick(items, {
+    title: 'Move Comment Files',
+    placeHolder: 'Where should .comments.json files be stored?',
+  });
+  if (!picked) { return; }
+
+  const target: StorageLayout = { ...current, mode: picked.mode };
+  const source: StorageLayout = { ...current, mode: picked.mode === 'adjacent' ? 'centralized' : 'adjacent' };
+
+  const docs = await vscode.workspace.findFiles('**/*.md', '**/node_modules/**');
+  const plan = planSidecarMoves(docs.map(d => d.fsPath), source, target, fs.existsSync);
+
+  let moved = 0;
+  const failed: string[] = [];
+  for (const move of plan.moves) {
+    try {
+      await fs.promises.mkdir(path.dirname(move.to), { recursive: true });
+      await fs.promises.rename(move.from, move.to);
+      moved++;
+      if (source.mode === 'centralized') {
+        await removeEmptyParents(path.dirname(move.from), source);
+      }
+    } catch (err) {
+      console.error(`[MarkdownReview] Failed to move ${move.from}:`, err);
+      failed.push(move.from);
+    }
+  }
+
+  if (current.mode !== target.mode) {
+    await vscode.workspace.getConfiguration('markdownReview')
+      .update('storage', target.mode, vscode.ConfigurationTarget.Workspace);
+  }
+
+  const skipped = [
+    ...plan.conflicts.map(doc => `${vscode.workspace.asRelativePath(doc)} (exists in both locations)`),
+    ...failed.map(file => `${vscode.workspace.asRelativePath(file)} (move failed)`),
+  ];
+  const summary = `Moved ${moved} comment file${moved === 1 ? '' : 's'}.`;
+  if (skipped.length > 0) {
+    vscode.window.showWarningMessage(`${summary} Skipped ${skipped.length}: ${skipped.join(', ')}`);
+  } else {
+    vscode.window.showInformationMessage(summary);
+  }
+}
+
+/** Delete now-empty folders left behind in the centralized tree, up to and including its root. */
+async function removeEmptyParents(dir: string, layout: StorageLayout): Promise<void> {
+  const storageRoots = layout.roots.map(root => path.join(root, layout.directory));
+  let current = dir;
+  while (storageRoots.some(root => current === root || current.startsWith(root + path.sep))) {
+    const entries = await fs.promises.readdir(current).catch(() => ['<unreadable>']);
+    if (entries.length > 0) { return; }
+    await fs.promises.rmdir(current);
+    current = path.dirname(current);
+  }
+}
@@ -0,0 +1,68 @@
+import type * as vscode from 'vscode';
+import type { SidecarFile } from '../models/types';
+
+/**
+ * Origin tag so listeners can ignore their own writes. `external` marks
+ * changes the store noticed but did not make (a `git pull`, another window).
+ */
+export type WriteOrigin = 'editor' | 'preview' | 'internal' | 'external';
+
+export interface SidecarChangeEvent {
+  /** Absolute path of the markdown document whose comments changed. */
+  docPath: string;
+  /** Who triggered the write. */
+  origin: WriteOrigin;
+}
+
+/**
+ * Persistence backend for comment threads, one {@link SidecarFile} per
+ * markdown document. UI code depends only on this interface; editing a
+ * sidecar in memory is done with the helpers in `utils/sidecarOps.ts`.
+ *
+ * Implementations:
+ * - `SidecarManager` — `.comments.json` files on disk (the default)
+ * - `GitNotesCommentStore` — notes on `refs/notes/markdown-review`, no files
+ * - `InMemoryCommentStore` — a Map, for tests
+ */
+export interface CommentStore {
+  /** Fired after every write through this store and for external changes picked up by {@link watch}. */
+  readonly onDidChange: vscode.Event<SidecarChangeEvent>;
+
+  /**
+   * Load the comments for a document, or null when it has none.
+   * @throws UnsupportedSidecarVersionError when the stored data is from a newer schema.
+   */
+  readSidecar(docPath: string): Promise<SidecarFile | null>;
+
+  /**
+   * Persist the comments for a document, replacing whatever is stored.
+   * Writing a sidecar with no threads removes the document's entry.
+   * Prefer {@link mutate} for edits — this overwrites concurrent changes.
+   * @param origin Who is triggering the write (so listeners can skip their own changes).
+   */
+  writeSidecar(docPath: string, sidecar: SidecarFile, origin?: WriteOrigin): Promise<void>;
+
+  /**
+   * Read-modify-write a document's comments. `edit` changes the sidecar in
+   * place (an empty one when there are no comments yet); nothing is written
+   * if it makes no change. Mutations of one document run one at a time, and
+   * a change made elsewhere between the read and the write is merged rather
+   * than overwritten.
+   * @returns Whatever `edit` returned.
+   * @throws ConcurrentModificationError when the document keeps changing underneath.
+   * @throws UnreadableSidecarError when the stored comments exist but could not be loaded.
+   */
+  mutate<T>(docPath: string, edit: (sidecar: SidecarFile) => T, origin?: WriteOrigin): Promise<T>;
+
+  /** Remove all comments for a document (no-op when there are none). */
+  deleteSidecar(docPath: string, origin?: WriteOrigin): Promise<void>;
+
+  /** Absolute paths of every document that currently has stored comments. */
+  listDocuments(): Promise<string[]>;
+
+  /**
+   * Start reporting changes made outside this store through
+   * {@link onDidChange} with origin `external`. Dispose to stop.
+   */
+  watch(): vscode.Disposable;
+}
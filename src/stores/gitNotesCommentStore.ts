@@ -0,0 +1,354 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { SidecarFile } from '../models/types';
+import type { GitService } from '../gitService';
+import type { CommentStore, SidecarChangeEvent, WriteOrigin } from './commentStore';
+import { MutationQueue, applyMutation, type RevisionedAccess, type RevisionedSidecar } from './sidecarMutation';
+import { CURRENT_SIDECAR_VERSION, UnsupportedSidecarVersionError, migrateSidecar } from '../utils/sidecarMigration';
+import { mergeSidecars } from '../utils/sidecarMerge';
+import { createEmptySidecar } from '../utils/sidecarOps';
+import { validateSidecar } from '../utils/sidecarValidation';
+
+/** Notes ref that holds one sidecar per document. */
+export const COMMENT_NOTES_REF = 'refs/notes/markdown-review';
+
+/** Prefix of the key blob each note is attached to; the rest is the repo-relative doc path. */
+const KEY_PREFIX = 'markdown-review:';
+
+export interface NotesFetchResult {
+  /** False when the remote has no comment notes yet. */
+  found: boolean;
+  /** Documents whose comments changed locally as a result. */
+  changed: string[];
+}
+
+/**
+ * {@link CommentStore} that keeps each document's {@link SidecarFile} JSON in
+ * `git notes` instead of files, for repos where adding files is not allowed.
+ *
+ * A note must hang off a git object, so every document gets a small key blob
+ * containing `markdown-review:<repo-relative path>`; the sidecar is the note
+ * on that blob, with `doc` set to the same path. Key blobs do not travel with
+ * the notes ref, so the path is always read back from `doc`.
+ *
+ * Each write is a commit on {@link COMMENT_NOTES_REF}, which
+ * {@link push} and {@link fetch} exchange with a remote. Fetching merges
+ * concurrent edits thread by thread, like the `.comments.json` merge driver.
+ */
+export class GitNotesCommentStore implements CommentStore, RevisionedAccess, vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<SidecarChangeEvent>();
+  public readonly onDidChange: vscode.Event<SidecarChangeEvent> = this._onDidChange.event;
+
+  /** Key blob id per repo-relative document path. */
+  private readonly keys = new Map<string, string>();
+
+  /** Invalid threads from the last read, written back verbatim (see SidecarManager). */
+  private readonly quarantine = new Map<string, unknown[]>();
+
+  /** Notes commit as of our last write or change check; undefined until first looked up. */
+  private knownTip: string | null | undefined;
+
+  /** Every ref update goes through here — concurrent `git notes` calls fight over the ref lock. */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private readonly mutations = new MutationQueue();
+
+  /**
+   * @param git Git service bound to the repository.
+   * @param repoRoot Absolute path of the repository's working tree.
+   */
+  constructor(
+    private readonly git: GitService,
+    private readonly repoRoot: string,
+    private readonly notesRef: string = COMMENT_NOTES_REF,
+  ) {}
+
+  async readSidecar(docPath: string): Promise<SidecarFile | null> {
+    return (await this.readRevisioned(docPath)).sidecar;
+  }
+
+  /** The revision is the note's blob id. */
+  async readRevisioned(docPath: string): Promise<RevisionedSidecar> {
+    const relPath = this.relativePath(docPath);
+    if (!relPath) { return { sidecar: null, revision: null }; }
+    this.quarantine.delete(relPath);
+
+    const revision = await this.git.getNoteId(this.notesRef, await this.keyFor(relPath));
+    if (revision === null) { return { sidecar: null, revision }; }
+
+    const content = await this.git.readBlob(revision);
+    let data: unknown;
+    try {
+      data = this.migrate(content, docPath);
+    } catch (error) {
+      if (error instanceof UnsupportedSidecarVersionError) {
+        throw new UnsupportedSidecarVersionError(error.version, `${this.notesRef}:${relPath}`);
+      }
+      console.error(`[MarkdownReview] Failed to read comment notes for ${relPath}`, error);
+      return { sidecar: null, revision };
+    }
+
+    const result = validateSidecar(data);
+    if (result.quarantined.length > 0) {
+      this.quarantine.set(relPath, result.quarantined);
+    }
+    if (result.errors.length > 0) {
+      console.warn(`[MarkdownReview] ${this.notesRef}:${relPath}: ${result.errors.length} validation error(s)`);
+    }
+    return { sidecar: result.sidecar, revision };
+  }
+
+  async writeSidecar(docPath: string, sidecar: SidecarFile, origin: WriteOrigin = 'internal'): Promise<void> {
+    await this.commit(docPath, sidecar, origin);
+  }
+
+  async deleteSidecar(docPath: string, origin: WriteOrigin = 'internal'): Promise<void> {
+    await this.commit(docPath, null, origin);
+  }
+
+  mutate<T>(docPath: string, edit: (sidecar: SidecarFile) => T, origin: WriteOrigin = 'internal'): Promise<T> {
+    return this.mutations.run(docPath, () => applyMutation(this, docPath, edit, origin));
+  }
+
+  writeIfRevision(docPath: string, sidecar: SidecarFile, expected: string | null, origin: WriteOrigin): Promise<boolean> {
+    return this.commit(docPath, sidecar, origin, expected);
+  }
+
+  async listDocuments(): Promise<string[]> {
+    const notes = await this.git.listNotes(this.notesRef);
+    const docs = await Promise.all([...notes.values()].map(blob => this.docPathForNote(blob)));
+    return docs.filter((doc): doc is string => doc !== null);
+  }
+
+  /**
+   * Watch the notes ref for updates from outside this store (a `git fetch`
+   * on the command line, another window) and report the affected documents.
+   */
+  watch(): vscode.Disposable {
+    let watcher: vscode.FileSystemWatcher | undefined;
+    let disposed = false;
+    const check = () => { this.checkForExternalChanges().catch(err => console.error('[MarkdownReview] notes watch failed:', err)); };
+
+    this.git.getGitDir().then(async gitDir => {
+      if (this.knownTip === undefined) {
+        this.knownTip = await this.git.resolveRef(this.notesRef);
+      }
+      if (disposed) { return; }
+      // Loose ref files for normal updates, packed-refs after `git gc` / `git pack-refs`
+      watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(vscode.Uri.file(gitDir), '{refs/notes/**,packed-refs}'),
+      );
+      watcher.onDidCreate(check);
+      watcher.onDidChange(check);
+      watcher.onDidDelete(check);
+    }).catch(err => {
+      if (!disposed) { console.error('[MarkdownReview] Could not watch comment notes:', err); }
+    });
+
+    return new vscode.Disposable(() => {
+      disposed = true;
+      watcher?.dispose();
+    });
+  }
+
+  /**
+   * Push the local comment notes to `remote`. Git rejects the push when the
+   * remote has notes we have not fetched yet; {@link fetch} first.
+   */
+  async push(remote: string): Promise<void> {
+    await this.enqueue(() => this.git.pushRef(remote, this.notesRef));
+  }
+
+  /**
+   * Fetch comment notes from `remote` and merge them into the local ref.
+   * Sidecars edited on both sides are merged thread by thread.
+   */
+  async fetch(remote: string): Promise<NotesFetchResult> {
+    const trackingRef = this.trackingRefFor(remote);
+    const result = await this.enqueue(async (): Promise<NotesFetchResult> => {
+      if (!(await this.git.fetchRef(remote, this.notesRef, trackingRef))) {
+        return { found: false, changed: [] };
+      }
+
+      const local = await this.git.resolveRef(this.notesRef);
+      const theirs = (await this.git.resolveRef(trackingRef))!;
+      const base = local ? await this.git.mergeBase(local, theirs) : null;
+      if (local === theirs || base === theirs) {
+        return { found: true, changed: [] };
+      }
+
+      const before = local ? await this.git.listNotes(local) : new Map<string, string>();
+      // Resolve notes edited on both sides before touching the ref, so a bad note aborts cleanly
+      const resolved = local && base !== local
+        ? await this.resolveConflicts(before, await this.git.listNotes(theirs), base ? await this.git.listNotes(base) : new Map())
+        : [];
+
+      await this.git.mergeNotes(this.notesRef, trackingRef);
+      for (const { object, content } of resolved) {
+        if (content === null) {
+          await this.git.removeNote(this.notesRef, object);
+        } else {
+          await this.git.writeNote(this.notesRef, object, content);
+        }
+      }
+
+      const after = await this.git.listNotes(this.notesRef);
+      this.knownTip = await this.git.resolveRef(this.notesRef);
+      const changed = await this.changedDocuments(before, after);
+      // Store the key blobs locally too, so `git notes prune` keeps the fetched notes
+      for (const docPath of changed) {
+        await this.keyFor(this.requireRelativePath(docPath), true);
+      }
+      return { found: true, changed };
+    });
+
+    for (const docPath of result.changed) {
+      this._onDidChange.fire({ docPath, origin: 'external' });
+    }
+    return result;
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+  }
+
+  /**
+   * Write (or, for null / no threads, remove) a document's note as one ref
+   * update. With `expected`, nothing happens unless the note still has that
+   * blob id (null = no note).
+   */
+  private async commit(docPath: string, sidecar: SidecarFile | null, origin: WriteOrigin, expected?: string | null): Promise<boolean> {
+    const relPath = this.requireRelativePath(docPath);
+    const quarantined = sidecar ? this.quarantine.get(relPath) ?? [] : [];
+    const comments = sidecar ? [...sidecar.comments, ...quarantined] : [];
+    if (comments.length === 0) {
+      this.quarantine.delete(relPath);
+    }
+
+    const written = await this.enqueue(async () => {
+      const key = await this.keyFor(relPath, comments.length > 0);
+      if (expected !== undefined && await this.git.getNoteId(this.notesRef, key) !== expected) {
+        return false;
+      }
+      if (comments.length > 0) {
+        const content = JSON.stringify({ ...sidecar, doc: relPath, version: CURRENT_SIDECAR_VERSION, comments }, null, 2);
+        await this.git.writeNote(this.notesRef, key, content);
+      } else {
+        await this.git.removeNote(this.notesRef, key);
+      }
+      this.knownTip = await this.git.resolveRef(this.notesRef);
+      return true;
+    });
+    if (written) {
+      this._onDidChange.fire({ docPath, origin });
+    }
+    return written;
+  }
+
+  /** Merge every note that differs from the merge base on both sides. */
+  private async resolveConflicts(
+    ours: Map<string, string>,
+    theirs: Map<string, string>,
+    base: Map<string, string>,
+  ): Promise<{ object: string; content: string | null }[]> {
+    const resolved: { object: string; content: string | null }[] = [];
+    for (const object of new Set([...ours.keys(), ...theirs.keys()])) {
+      const [o, t, b] = [ours.get(object), theirs.get(object), base.get(object)];
+      if (o === t || o === b || t === b) { continue; } // unchanged on at least one side
+
+      const docPath = await this.docPathForNote((o ?? t)!) ?? this.repoRoot;
+      const load = async (blob: string | undefined, label: string) => blob ? this.loadStrict(blob, docPath, label) : null;
+      const baseSidecar = await load(b, 'base');
+      const oursSidecar = await load(o, 'ours');
+      const theirsSidecar = await load(t, 'theirs');
+      // A side that deleted the note counts as removing every thread it had
+      const empty = createEmptySidecar((oursSidecar ?? theirsSidecar)!.doc);
+      const merged = mergeSidecars(baseSidecar, oursSidecar ?? empty, theirsSidecar ?? empty);
+      resolved.push({ object, content: merged.comments.length > 0 ? JSON.stringify(merged, null, 2) : null });
+    }
+    return resolved;
+  }
+
+  /** Like a read, but any invalid thread is an error — merging must not drop data. */
+  private async loadStrict(blob: string, docPath: string, label: string): Promise<SidecarFile> {
+    const { sidecar, quarantined, errors } = validateSidecar(this.migrate(await this.git.readBlob(blob), docPath));
+    if (!sidecar || quarantined.length > 0) {
+      throw new Error(`${path.relative(this.repoRoot, docPath)}: ${label} comments are not valid: ${errors.map(e => `${e.path} ${e.message}`).join('; ')}`);
+    }
+    return sidecar;
+  }
+
+  private migrate(content: string, docPath: string): unknown {
+    return migrateSidecar(JSON.parse(content), {
+      loadDocSource: () => fs.existsSync(docPath) ? fs.readFileSync(docPath, 'utf-8') : undefined,
+    }).data;
+  }
+
+  private async checkForExternalChanges(): Promise<void> {
+    const changed = await this.enqueue(async () => {
+      const tip = await this.git.resolveRef(this.notesRef);
+      if (tip === this.knownTip) { return []; }
+      const before = this.knownTip ? await this.git.listNotes(this.knownTip) : new Map<string, string>();
+      const after = tip ? await this.git.listNotes(tip) : new Map<string, string>();
+      this.knownTip = tip;
+      return this.changedDocuments(before, after);
+    });
+    for (const docPath of changed) {
+      this._onDidChange.fire({ docPath, origin: 'external' });
+    }
+  }
+
+  private async changedDocuments(before: Map<string, string>, after: Map<string, string>): Promise<string[]> {
+    const objects = [...new Set([...before.keys(), ...after.keys()])].filter(o => before.get(o) !== after.get(o));
+    const docs = await Promise.all(objects.map(object => this.docPathForNote((after.get(object) ?? before.get(object))!)));
+    return docs.filter((doc): doc is string => doc !== null);
+  }
+
+  /** The document a note belongs to, from its `doc` field; null for notes this extension did not write. */
+  private async docPathForNote(blob: string): Promise<string | null> {
+    try {
+      const { doc } = JSON.parse(await this.git.readBlob(blob)) as { doc?: unknown };
+      return typeof doc === 'string' && doc ? path.join(this.repoRoot, ...doc.split('/')) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Key blob id for a document. Writes store the blob so it survives
+   * `git gc` / `git notes prune`; reads only need its id.
+   */
+  private async keyFor(relPath: string, store = false): Promise<string> {
+    const cached = this.keys.get(relPath);
+    if (cached && !store) { return cached; }
+    const oid = await this.git.hashObject(KEY_PREFIX + relPath, store);
+    this.keys.set(relPath, oid);
+    return oid;
+  }
+
+  /** Repo-relative path with forward slashes, so keys match across platforms; null outside the repo. */
+  private relativePath(docPath: string): string | null {
+    const rel = path.relative(this.repoRoot, docPath);
+    if (!rel || rel.startsWith('..') || path.isAbsolute(rel)) { return null; }
+    return rel.split(path.sep).join('/');
+  }
+
+  private requireRelativePath(docPath: string): string {
+    const rel = this.relativePath(docPath);
+    if (!rel) {
+      throw new Error(`${docPath} is outside the git repository, so its comments cannot be stored in git notes`);
+    }
+    return rel;
+  }
+
+  private trackingRefFor(remote: string): string {
+    return `refs/notes/remotes/${remote}/${this.notesRef.replace(/^refs\/notes\//, '')}`;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
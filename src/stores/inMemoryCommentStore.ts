@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import type { SidecarFile } from '../models/types';
+import type { CommentStore, SidecarChangeEvent, WriteOrigin } from './commentStore';
+import { MutationQueue, applyMutation, type RevisionedAccess, type RevisionedSidecar } from './sidecarMutation';
+
+/**
+ * {@link CommentStore} backed by a Map — for tests and scratch workspaces.
+ * Sidecars are deep-copied on the way in and out so callers can never
+ * mutate stored state without writing it back, matching the file store.
+ */
+export class InMemoryCommentStore implements CommentStore, RevisionedAccess, vscode.Disposable {
+  private readonly sidecars = new Map<string, SidecarFile>();
+  /** Bumped on every write; the revision is `String(counter)`. */
+  private readonly revisions = new Map<string, number>();
+  private readonly mutations = new MutationQueue();
+
+  private readonly _onDidChange = new vscode.EventEmitter<SidecarChangeEvent>();
+  public readonly onDidChange: vscode.Event<SidecarChangeEvent> = this._onDidChange.event;
+
+  async readSidecar(docPath: string): Promise<SidecarFile | null> {
+    const sidecar = this.sidecars.get(docPath);
+    return sidecar ? structuredClone(sidecar) : null;
+  }
+
+  async writeSidecar(docPath: string, sidecar: SidecarFile, origin: WriteOrigin = 'internal'): Promise<void> {
+    if (sidecar.comments.length === 0) {
+      await this.deleteSidecar(docPath, origin);
+      return;
+    }
+    this.sidecars.set(docPath, structuredClone(sidecar));
+    this.revisions.set(docPath, (this.revisions.get(docPath) ?? 0) + 1);
+    this._onDidChange.fire({ docPath, origin });
+  }
+
+  async deleteSidecar(docPath: string, origin: WriteOrigin = 'internal'): Promise<void> {
+    this.sidecars.delete(docPath);
+    this._onDidChange.fire({ docPath, origin });
+  }
+
+  mutate<T>(docPath: string, edit: (sidecar: SidecarFile) => T, origin: WriteOrigin = 'internal'): Promise<T> {
+    return this.mutations.run(docPath, () => applyMutation(this, docPath, edit, origin));
+  }
+
+  async readRevisioned(docPath: string): Promise<RevisionedSidecar> {
+    return { sidecar: await this.readSidecar(docPath), revision: this.revisionOf(docPath) };
+  }
+
+  async writeIfRevision(docPath: string, sidecar: SidecarFile, expected: string | null, origin: WriteOrigin): Promise<boolean> {
+    if (this.revisionOf(docPath) !== expected) { return false; }
+    await this.writeSidecar(docPath, sidecar, origin);
+    return true;
+  }
+
+  async listDocuments(): Promise<string[]> {
+    return [...this.sidecars.keys()];
+  }
+
+  /** Nothing changes behind an in-memory store's back. */
+  watch(): vscode.Disposable {
+    return new vscode.Disposable(() => { /* nothing to stop */ });
+  }
+
+  private revisionOf(docPath: string): string | null {
+    return this.sidecars.has(docPath) ? String(this.revisions.get(docPath)) : null;
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+  }
+}
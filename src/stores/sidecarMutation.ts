@@ -0,0 +1,105 @@
+import * as path from 'path';
+import { isDeepStrictEqual } from 'util';
+import type { SidecarFile } from '../models/types';
+import type { WriteOrigin } from './commentStore';
+import { mergeSidecars } from '../utils/sidecarMerge';
+import { createEmptySidecar } from '../utils/sidecarOps';
+
+/** How often a mutation is merged onto a newer copy before giving up. */
+const MAX_ATTEMPTS = 5;
+
+/** A sidecar together with an opaque token that changes whenever it is rewritten. */
+export interface RevisionedSidecar {
+  /** Null when there are no stored comments, or they could not be loaded. */
+  sidecar: SidecarFile | null;
+  /** Null when the document has no stored comments. */
+  revision: string | null;
+}
+
+/** What a store provides so {@link applyMutation} can detect concurrent writers. */
+export interface RevisionedAccess {
+  readRevisioned(docPath: string): Promise<RevisionedSidecar>;
+  /**
+   * Write `sidecar` only if the stored revision is still `expected`.
+   * @returns false, without writing, when someone else changed it first.
+   */
+  writeIfRevision(docPath: string, sidecar: SidecarFile, expected: string | null, origin: WriteOrigin): Promise<boolean>;
+}
+
+/**
+ * Thrown when a document's comments keep changing underneath a mutation.
+ */
+export class ConcurrentModificationError extends Error {
+  constructor(public readonly docPath: string) {
+    super(`Comments for ${path.basename(docPath)} kept changing while saving. Try again.`);
+    this.name = 'ConcurrentModificationError';
+  }
+}
+
+/**
+ * Thrown when a document has stored comments that could not be loaded (a
+ * file left with merge conflict markers, say). Writing would replace them
+ * with the edit applied to an empty sidecar, so nothing is written.
+ */
+export class UnreadableSidecarError extends Error {
+  constructor(public readonly docPath: string) {
+    super(`The comments for ${path.basename(docPath)} could not be loaded, so the change was not saved. Fix the comment file (see Problems) and try again.`);
+    this.name = 'UnreadableSidecarError';
+  }
+}
+
+/**
+ * Runs async tasks one at a time per key; different keys run independently.
+ */
+export class MutationQueue {
+  private readonly tails = new Map<string, Promise<unknown>>();
+
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const run = (this.tails.get(key) ?? Promise.resolve()).then(task, task);
+    const tail = run.catch(() => undefined);
+    this.tails.set(key, tail);
+    // Forget idle keys so the map does not grow with every document ever edited
+    tail.then(() => {
+      if (this.tails.get(key) === tail) { this.tails.delete(key); }
+    });
+    return run;
+  }
+}
+
+/**
+ * Optimistic read-modify-write. `edit` is applied to a copy of the stored
+ * sidecar (an empty one when there is none); nothing is written when it
+ * leaves the copy unchanged. If the stored revision moved in the meantime
+ * (a `git pull`, another window), the edit is three-way merged onto the newer
+ * copy with {@link mergeSidecars} and the write is tried again.
+ *
+ * @throws UnreadableSidecarError when stored comments exist but could not
+ *   be loaded; they are never written over.
+ */
+export async function applyMutation<T>(
+  access: RevisionedAccess,
+  docPath: string,
+  edit: (sidecar: SidecarFile) => T,
+  origin: WriteOrigin,
+): Promise<T> {
+  let { sidecar: base, revision } = await access.readRevisioned(docPath);
+  if (!base && revision !== null) { throw new UnreadableSidecarError(docPath); }
+  const original = base ?? createEmptySidecar(path.basename(docPath));
+  let candidate = structuredClone(original);
+  const result = edit(candidate);
+  if (isDeepStrictEqual(candidate, original)) { return result; }
+
+  for (let attempt = 1; ; attempt++) {
+    if (await access.writeIfRevision(docPath, candidate, revision, origin)) {
+      return result;
+    }
+    if (attempt === MAX_ATTEMPTS) {
+      throw new ConcurrentModificationError(docPath);
+    }
+    const current = await access.readRevisioned(docPath);
+    if (!current.sidecar && current.revision !== null) { throw new UnreadableSidecarError(docPath); }
+    candidate = mergeSidecars(base, candidate, current.sidecar ?? createEmptySidecar(candidate.doc));
+    base = current.sidecar;
+    revision = current.revision;
+  }
+}
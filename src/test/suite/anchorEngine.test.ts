@@ -1,6 +1,7 @@
 import * as assert from 'assert';
 import { AnchorEngine } from '../../anchorEngine';
 import type { CommentThread, CommentAnchor } from '../../models/types';
+import { parseMarkdownSections } from '../../utils/markdown';
 
 const SAMPLE_MD = `# Introduction
 
@@ -143,6 +144,89 @@ suite('AnchorEngine Test Suite', () => {
     assert.strictEqual(source.slice(result!.startOffset, result!.endOffset), 'unique phrase xyz');
   });
 
+  // ── anchorComment — Strategy 6: fuzzy match ─────────────────────
+
+  test('anchorComment exact strategies report full confidence', () => {
+    const engine = new AnchorEngine();
+    const result = engine.anchorComment(anchorFor('GET /users'), SAMPLE_MD);
+
+    assert.strictEqual(result!.confidence, 1);
+  });
+
+  test('anchorComment reports the strategy that found the text', () => {
+    const engine = new AnchorEngine();
+    const anchor = anchorFor('GET /users');
+
+    assert.strictEqual(engine.anchorComment(anchor, SAMPLE_MD)!.strategy, 'offsets');
+    const shifted = engine.anchorComment(anchor, 'Preface.\n\n' + SAMPLE_MD);
+    assert.strictEqual(shifted!.strategy, 'nearby');
+    assert.strictEqual(shifted!.confidence, 1);
+  });
+
+  test('anchorComment gives exact matches in a new context less than full confidence', () => {
+    const engine = new AnchorEngine();
+    const anchor = anchorFor('important text');
+    const source = 'x'.repeat(3000) + '\nCompletely different important text here.';
+
+    const result = engine.anchorComment(anchor, source);
+
+    assert.ok(result);
+    assert.strictEqual(result!.strategy, 'global');
+    assert.ok(result!.confidence < 1, `confidence ${result!.confidence}`);
+  });
+
+  test('anchorComment follows a typo fix inside the selection approximately', () => {
+    const engine = new AnchorEngine();
+    const withTypo = SAMPLE_MD.replace('handled via JWT', 'handeld via JWT');
+    const anchor = anchorFor('Authentication is handeld via JWT tokens', withTypo);
+
+    const result = engine.anchorComment(anchor, SAMPLE_MD);
+
+    assert.ok(result, 'Should match the corrected text');
+    assert.strictEqual(SAMPLE_MD.slice(result!.startOffset, result!.endOffset), 'Authentication is handled via JWT tokens');
+    assert.ok(result!.confidence < 1 && result!.confidence >= 0.75, `confidence ${result!.confidence}`);
+  });
+
+  test('anchorComment prefers the edited original over a near-copy with other context', () => {
+    const engine = new AnchorEngine();
+    const source = 'Intro line.\n\nAll requests need a valid API key header.\n\nFooter.';
+    const anchor = anchorFor('All requests need a valid API key header', source);
+
+    // Both candidates are one edit away and far from the original offsets; only the context differs
+    const edited = 'Elsewhere: All requests need a valid APl key header, see below.\n\n' +
+      'Intro line.\n\nAll requests need a valid API-key header.\n\nFooter.';
+    const result = engine.anchorComment({ ...anchor, markdownRange: { startOffset: 5000, endOffset: 5040 } }, edited);
+
+    assert.ok(result);
+    assert.strictEqual(edited.slice(result!.startOffset, result!.endOffset), 'All requests need a valid API-key header');
+  });
+
+  test('anchorComment only searches documents of bounded size for fuzzy matches anywhere', () => {
+    const engine = new AnchorEngine();
+    const anchor = { ...anchorFor('Authentication is handled via JWT tokens'), markdownRange: { startOffset: 0, endOffset: 40 } };
+    const edited = (padding: number) => 'x'.repeat(padding) + '\n' + SAMPLE_MD.replace('handled via JWT', 'handled with JWT');
+
+    assert.strictEqual(engine.anchorComment(anchor, edited(10_000))?.strategy, 'fuzzy');
+    assert.strictEqual(engine.anchorComment(anchor, edited(300_000)), null);
+  });
+
+  test('anchorComment rejects fuzzy matches below the confidence threshold', () => {
+    const engine = new AnchorEngine();
+    const anchor = anchorFor('Authentication is handled via JWT tokens');
+    const rewritten = SAMPLE_MD.replace('Authentication is handled via JWT tokens', 'Auth uses signed session cookies');
+
+    assert.strictEqual(engine.anchorComment(anchor, rewritten), null);
+  });
+
+  test('anchorComment with a threshold of 1 only matches exactly', () => {
+    const engine = new AnchorEngine();
+    const anchor = anchorFor('Authentication is handled via JWT tokens');
+    const fixed = SAMPLE_MD.replace('handled via JWT', 'handled with JWT');
+
+    assert.ok(engine.anchorComment(anchor, fixed));
+    assert.strictEqual(engine.anchorComment(anchor, fixed, 1), null);
+  });
+
   // ── anchorComment — orphaned ─────────────────────────────────────
 
   test('anchorComment returns null when text is completely gone', () => {
@@ -208,6 +292,29 @@ suite('AnchorEngine Test Suite', () => {
     assert.strictEqual(updates.length, 0);
   });
 
+  test('detectStaleThreads keeps resolved threads resolved when text is removed', () => {
+    const engine = new AnchorEngine();
+    const t = thread({
+      status: 'resolved',
+      anchor: anchorFor('important text'),
+    });
+
+    const edited = SAMPLE_MD.replace('important text', 'replaced content');
+    const { updates } = engine.detectStaleThreads(edited, [t]);
+    assert.strictEqual(updates.length, 0);
+  });
+
+  test('detectStaleThreads does not reopen resolved threads that still match', () => {
+    const engine = new AnchorEngine();
+    const t = thread({
+      status: 'resolved',
+      anchor: anchorFor('important text'),
+    });
+
+    const { updates } = engine.detectStaleThreads(SAMPLE_MD, [t]);
+    assert.strictEqual(updates.length, 0);
+  });
+
   test('detectStaleThreads updates anchor offsets when text moves', () => {
     const engine = new AnchorEngine();
     const t = thread({
@@ -275,6 +382,349 @@ suite('AnchorEngine Test Suite', () => {
     assert.ok(result!.startOffset > 10, `Expected nearest match, got offset ${result!.startOffset}`);
   });
 
+  test('detectStaleThreads keeps approximately matched threads open and marks them fuzzy', () => {
+    const engine = new AnchorEngine();
+    const t = thread({ anchor: anchorFor('Authentication is handled via JWT tokens') });
+    const fixed = SAMPLE_MD.replace('handled via JWT', 'handled with JWT');
+
+    const { updates, anchorsMoved } = engine.detectStaleThreads(fixed, [t]);
+
+    assert.deepStrictEqual(updates, []);
+    assert.strictEqual(anchorsMoved, true);
+    assert.strictEqual(t.anchor.strategy, 'fuzzy');
+    assert.ok(t.anchor.confidence! < 1);
+    assert.strictEqual(
+      fixed.slice(t.anchor.markdownRange.startOffset, t.anchor.markdownRange.endOffset),
+      'Authentication is handled with JWT tokens',
+    );
+    // The originally commented text is kept, and the range carries no extra fields
+    assert.strictEqual(t.anchor.selectedText, 'Authentication is handled via JWT tokens');
+    assert.deepStrictEqual(Object.keys(t.anchor.markdownRange), ['startOffset', 'endOffset']);
+  });
+
+  test('detectStaleThreads records how a moved anchor was found and keeps it while it stays put', () => {
+    const engine = new AnchorEngine();
+    const t = thread({ anchor: anchorFor('GET /users') });
+    const edited = 'Preface.\n\n' + SAMPLE_MD;
+
+    assert.strictEqual(engine.detectStaleThreads(edited, [t]).anchorsMoved, true);
+    assert.strictEqual(t.anchor.strategy, 'nearby');
+    assert.strictEqual(t.anchor.confidence, 1);
+
+    assert.strictEqual(engine.detectStaleThreads(edited, [t]).anchorsMoved, false);
+    assert.strictEqual(t.anchor.strategy, 'nearby');
+  });
+
+  test('detectStaleThreads leaves anchors that did not move unmarked', () => {
+    const engine = new AnchorEngine();
+    const t = thread({ anchor: anchorFor('GET /users') });
+
+    engine.detectStaleThreads(SAMPLE_MD, [t]);
+
+    assert.strictEqual(t.anchor.strategy, undefined);
+    assert.strictEqual(t.anchor.confidence, undefined);
+  });
+
+  // ── Git history ──────────────────────────────────────────────────
+
+  test('followHistory maps a rewritten line onto its replacement', () => {
+    const engine = new AnchorEngine();
+    const old = 'Intro.\nThe cache is flushed nightly.\nOutro.\n';
+    const current = 'New first line.\nIntro.\nEntries expire after one hour.\nOutro.\n';
+    const anchor = anchorFor('cache is flushed', old);
+    const hunks = [
+      { oldStart: 0, oldLines: 0, newStart: 1, newLines: 1 },
+      { oldStart: 2, oldLines: 1, newStart: 3, newLines: 1 },
+    ];
+
+    const result = engine.followHistory(anchor, old, current, hunks);
+
+    assert.ok(result);
+    assert.strictEqual(current.slice(result!.startOffset, result!.endOffset), 'Entries expire after one hour.');
+    assert.strictEqual(result!.strategy, 'history');
+    assert.ok(result!.confidence < 0.5, `confidence ${result!.confidence}`);
+  });
+
+  test('followHistory keeps columns on unchanged lines and drops deleted ones', () => {
+    const engine = new AnchorEngine();
+    const old = 'one two\nthree\nfour five\n';
+    const current = 'one two\nfour five\n';
+    const anchor = anchorFor('two\nthree\nfour', old);
+    const hunks = [{ oldStart: 2, oldLines: 1, newStart: 1, newLines: 0 }];
+
+    const result = engine.followHistory(anchor, old, current, hunks);
+
+    assert.strictEqual(current.slice(result!.startOffset, result!.endOffset), 'two\nfour');
+  });
+
+  test('followHistory returns null when the selected lines were deleted', () => {
+    const engine = new AnchorEngine();
+    const old = 'keep\ngone for good\nkeep too\n';
+    const anchor = anchorFor('gone for good', old);
+    const hunks = [{ oldStart: 2, oldLines: 1, newStart: 1, newLines: 0 }];
+
+    assert.strictEqual(engine.followHistory(anchor, old, 'keep\nkeep too\n', hunks), null);
+  });
+
+  test('followHistory ignores a commit that does not have the anchored text', () => {
+    const engine = new AnchorEngine();
+    const anchor = anchorFor('important text');
+
+    assert.strictEqual(engine.followHistory(anchor, 'Something else entirely, much longer than before.', SAMPLE_MD, []), null);
+  });
+
+  test('detectStaleThreads keeps threads found through history open, on the new text', () => {
+    const engine = new AnchorEngine();
+    const t = thread({ anchor: { ...anchorFor('important text'), commit: 'abc123' } });
+    const rewritten = SAMPLE_MD.replace('some important text', 'a rewritten passage');
+    const start = rewritten.indexOf('a rewritten passage');
+    const relocated = new Map([['thread-1', { startOffset: start, endOffset: start + 19, strategy: 'history' as const, confidence: 0.2 }]]);
+
+    const { updates, anchorsMoved } = engine.detectStaleThreads(rewritten, [t], undefined, { relocated });
+
+    assert.deepStrictEqual(updates, []);
+    assert.strictEqual(anchorsMoved, true);
+    assert.strictEqual(t.anchor.selectedText, 'a rewritten passage');
+    assert.strictEqual(t.anchor.strategy, 'history');
+    // The current text is not committed, so the old commit no longer describes the anchor
+    assert.strictEqual(t.anchor.commit, undefined);
+  });
+
+  test('detectStaleThreads records the commit anchors are valid in', () => {
+    const engine = new AnchorEngine();
+    const t = thread({ anchor: anchorFor('important text') });
+
+    assert.strictEqual(engine.detectStaleThreads(SAMPLE_MD, [t], undefined, { commit: 'abc123' }).anchorsMoved, true);
+    assert.strictEqual(t.anchor.commit, 'abc123');
+    assert.strictEqual(engine.detectStaleThreads(SAMPLE_MD, [t], undefined, { commit: 'def456' }).anchorsMoved, false);
+
+    engine.detectStaleThreads('Preface.\n\n' + SAMPLE_MD, [t], undefined, { commit: 'def456' });
+    assert.strictEqual(t.anchor.commit, 'def456');
+  });
+
+  // ── section and block anchors ────────────────────────────────────
+
+  /** Helper: a section anchor on the heading with this slug in `source` */
+  function sectionAnchor(slug: string, source = SAMPLE_MD): CommentAnchor {
+    const section = parseMarkdownSections(source).find(s => s.slug === slug);
+    if (!section) { throw new Error(`Section "${slug}" not found in source`); }
+    return new AnchorEngine().createSectionAnchor(section, source);
+  }
+
+  test('createSectionAnchor selects the heading text and records the section', () => {
+    const anchor = sectionAnchor('api-endpoints');
+    const { startOffset, endOffset } = anchor.markdownRange;
+
+    assert.strictEqual(anchor.kind, 'section');
+    assert.strictEqual(anchor.section?.slug, 'api-endpoints');
+    assert.strictEqual(SAMPLE_MD.slice(startOffset, endOffset), 'API Endpoints');
+  });
+
+  test('anchorComment keeps a section anchor however its text is rewritten', () => {
+    const engine = new AnchorEngine();
+    const anchor = sectionAnchor('api-endpoints');
+    const rewritten = SAMPLE_MD.replace(
+      'GET /users returns all users. POST /users creates a new user.',
+      'Everything here moved to the v2 API.\n\nSee the migration guide.',
+    );
+
+    const result = engine.anchorComment(anchor, rewritten);
+    assert.deepStrictEqual(result, { ...anchor.markdownRange, strategy: 'offsets', confidence: 1 });
+    assert.strictEqual(engine.sectionChanged(anchor, rewritten), true);
+    assert.strictEqual(engine.sectionChanged(anchor, SAMPLE_MD), false);
+  });
+
+  test('anchorComment follows a section anchor to its heading when the section moves', () => {
+    const engine = new AnchorEngine();
+    const anchor = sectionAnchor('authentication');
+    const moved = SAMPLE_MD.replace('# Introduction', '# Introduction\n\nA new preface paragraph.');
+
+    const result = engine.anchorComment(anchor, moved);
+    assert.strictEqual(result?.strategy, 'heading');
+    assert.strictEqual(moved.slice(result!.startOffset, result!.endOffset), 'Authentication');
+  });
+
+  test('detectStaleThreads takes a section anchor along when its heading is reworded', () => {
+    const engine = new AnchorEngine();
+    const t = thread({ anchor: sectionAnchor('api-endpoints') });
+    const renamed = SAMPLE_MD.replace('## API Endpoints', '## API Endpoint');
+
+    const { updates } = engine.detectStaleThreads(renamed, [t]);
+    assert.deepStrictEqual(updates, []);
+    assert.strictEqual(t.anchor.selectedText, 'API Endpoint');
+    assert.strictEqual(t.anchor.section?.slug, 'api-endpoint');
+  });
+
+  test('anchorComment does not move a section anchor onto body text', () => {
+    const engine = new AnchorEngine();
+    const anchor = sectionAnchor('authentication');
+    // The heading is gone; its text still appears in the paragraph
+    const removed = SAMPLE_MD.replace('## Authentication\n\n', '');
+
+    assert.strictEqual(engine.anchorComment(anchor, removed), null);
+  });
+
+  test('createBlockAnchor selects whole lines without trailing whitespace', () => {
+    const engine = new AnchorEngine();
+    const source = 'Intro.\n\n```sh\nnpm test\n```\n\nOutro.';
+
+    const anchor = engine.createBlockAnchor('code', 2, 5, source);
+    assert.strictEqual(anchor?.kind, 'block');
+    assert.strictEqual(anchor?.blockType, 'code');
+    assert.strictEqual(anchor?.selectedText, '```sh\nnpm test\n```');
+    assert.strictEqual(engine.createBlockAnchor('paragraph', 1, 2, source), null);
+  });
+
+  test('confirmedAnchor keeps the kind of anchor and refreshes a section hash', () => {
+    const engine = new AnchorEngine();
+    const anchor = sectionAnchor('api-endpoints');
+    const rewritten = SAMPLE_MD.replace('returns all users', 'returns every user');
+
+    const confirmed = engine.confirmedAnchor(anchor, anchor.markdownRange, rewritten);
+    assert.strictEqual(confirmed?.kind, 'section');
+    assert.notStrictEqual(confirmed?.section?.contentHash, anchor.section?.contentHash);
+    assert.strictEqual(engine.sectionChanged(confirmed!, rewritten), false);
+  });
+
+  test('createImageAnchor selects the image markdown and records its src and alt text', () => {
+    const engine = new AnchorEngine();
+    const source = 'Intro.\n\nSee ![Login flow](img/login.png) and ![Logout](img/logout.png).';
+
+    const anchor = engine.createImageAnchor(2, 1, source);
+    assert.strictEqual(anchor?.blockType, 'image');
+    assert.strictEqual(anchor?.selectedText, '![Logout](img/logout.png)');
+    assert.deepStrictEqual(anchor?.image, { src: 'img/logout.png', alt: 'Logout' });
+    assert.strictEqual(engine.createImageAnchor(2, 2, source), null);
+  });
+
+  test('confirmedAnchor keeps the pin of an image anchor and reads the image again', () => {
+    const engine = new AnchorEngine();
+    const source = '![Login flow](img/login.png)';
+    const anchor = { ...engine.createImageAnchor(0, 0, source)!, region: { x: 0.25, y: 0.5 } };
+    const edited = '![Login flow, v2](img/login-v2.png)';
+
+    const confirmed = engine.confirmedAnchor(anchor, { startOffset: 0, endOffset: edited.length }, edited);
+    assert.deepStrictEqual(confirmed?.image, { src: 'img/login-v2.png', alt: 'Login flow, v2' });
+    assert.deepStrictEqual(confirmed?.region, { x: 0.25, y: 0.5 });
+  });
+
+  test('createCodeLineAnchor selects a code line without its indentation', () => {
+    const engine = new AnchorEngine();
+    const source = 'Intro.\n\n```yaml\nserver:\n  port: 8080\n\n```';
+
+    const anchor = engine.createCodeLineAnchor(4, source);
+    assert.strictEqual(anchor?.kind, 'codeLine');
+    assert.strictEqual(anchor?.selectedText, 'port: 8080');
+    assert.deepStrictEqual(anchor?.codeLine, { fence: 0, language: 'yaml', line: 1 });
+    assert.deepStrictEqual(anchor?.textContext, { prefix: 'server:\n  ', suffix: '\n' });
+    assert.strictEqual(engine.createCodeLineAnchor(5, source), null, 'blank line');
+    assert.strictEqual(engine.createCodeLineAnchor(0, source), null, 'not code');
+  });
+
+  test('anchorComment follows a code line when its block moves and is re-indented', () => {
+    const engine = new AnchorEngine();
+    const block = '```yaml\nserver:\n  port: 8080\n  host: 0.0.0.0\n```';
+    const source = `# Config\n\n${block}\n\n## Later\n\nText.`;
+    const anchor = engine.createCodeLineAnchor(4, source)!;
+    const moved = `# Config\n\n## Later\n\nText.\n\n- Server:\n\n  ${block.replace(/\n/g, '\n  ')}`;
+
+    const result = engine.anchorComment(anchor, moved);
+    assert.strictEqual(result?.strategy, 'global');
+    assert.strictEqual(moved.slice(result!.startOffset, result!.endOffset), 'port: 8080');
+  });
+
+  test('anchorComment tells apart the same code line in two blocks by the lines around it', () => {
+    const engine = new AnchorEngine();
+    const source = '```ts\nconst a = 1;\nreturn a;\n```\n\n```ts\nconst b = 2;\nreturn a;\n```';
+    const anchor = engine.createCodeLineAnchor(7, source)!;
+    // Swap the blocks
+    const swapped = '```ts\nconst b = 2;\nreturn a;\n```\n\n```ts\nconst a = 1;\nreturn a;\n```';
+
+    const result = engine.anchorComment(anchor, swapped);
+    assert.strictEqual(result?.startOffset, swapped.indexOf('return a;'));
+  });
+
+  test('anchorComment only places code line anchors in code blocks', () => {
+    const engine = new AnchorEngine();
+    const source = 'Run `npm test` first.\n\n```sh\nnpm test\n```';
+    const anchor = engine.createCodeLineAnchor(3, source)!;
+
+    const edited = engine.anchorComment(anchor, source.replace('npm test\n', 'npm tests\n'));
+    assert.strictEqual(edited?.strategy, 'fuzzy');
+    assert.strictEqual(engine.anchorComment(anchor, 'Run `npm test` first.'), null);
+  });
+
+  test('detectStaleThreads records where a moved code line is now', () => {
+    const engine = new AnchorEngine();
+    const source = '```sh\nnpm ci\n```\n\n```yaml\nport: 8080\n```';
+    const t = thread({ anchor: engine.createCodeLineAnchor(5, source)! });
+    const moved = '```yaml\nport: 8080\n```\n\n```sh\nnpm ci\n```';
+
+    const { updates, anchorsMoved } = engine.detectStaleThreads(moved, [t]);
+    assert.deepStrictEqual(updates, []);
+    assert.strictEqual(anchorsMoved, true);
+    assert.deepStrictEqual(t.anchor.codeLine, { fence: 0, language: 'yaml', line: 0 });
+  });
+
+  // ── table cells ──────────────────────────────────────────────────
+
+  const TABLE_MD = '# Limits\n\n| Endpoint | Timeout | Retries |\n|---|---|---|\n| /users | 200ms | 3 |\n| /orders | 200ms | 5 |\n';
+
+  test('createTableCellAnchor selects the cell text and records its headers', () => {
+    const engine = new AnchorEngine();
+
+    const anchor = engine.createTableCellAnchor(5, 1, TABLE_MD);
+    assert.strictEqual(anchor?.kind, 'tableCell');
+    assert.strictEqual(anchor?.selectedText, '200ms');
+    assert.strictEqual(anchor?.markdownRange.startOffset, TABLE_MD.lastIndexOf('200ms'));
+    assert.deepStrictEqual(anchor?.tableCell, { table: 0, row: 2, column: 1, columnHeader: 'Timeout', rowHeader: '/orders' });
+    assert.strictEqual(engine.createTableCellAnchor(5, 3, TABLE_MD), null);
+    assert.strictEqual(engine.createTableCellAnchor(0, 0, TABLE_MD), null);
+  });
+
+  test('anchorComment keeps a table cell when rows and columns are inserted', () => {
+    const engine = new AnchorEngine();
+    const anchor = engine.createTableCellAnchor(5, 1, TABLE_MD)!;
+    const widened = '# Limits\n\n| Endpoint | Method | Timeout | Retries |\n|---|---|---|---|\n' +
+      '| /health | GET | 200ms | 0 |\n| /users | GET | 200ms | 3 |\n| /orders | POST | 200ms | 5 |\n';
+
+    const result = engine.anchorComment(anchor, widened);
+    assert.strictEqual(result?.strategy, 'global');
+    assert.strictEqual(result?.startOffset, widened.lastIndexOf('200ms'));
+  });
+
+  test('anchorComment follows an edited table cell by its headers', () => {
+    const engine = new AnchorEngine();
+    const anchor = engine.createTableCellAnchor(5, 1, TABLE_MD)!;
+    const edited = TABLE_MD.replace('| /orders | 200ms |', '| /orders | 250ms |');
+
+    const result = engine.anchorComment(anchor, edited);
+    assert.strictEqual(result?.strategy, 'fuzzy');
+    assert.strictEqual(result?.startOffset, edited.indexOf('250ms'));
+    assert.strictEqual(engine.anchorComment(anchor, '# Limits\n\nTimeouts are 200ms.'), null);
+  });
+
+  test('detectStaleThreads records where a moved table cell is now', () => {
+    const engine = new AnchorEngine();
+    const t = thread({ anchor: engine.createTableCellAnchor(5, 2, TABLE_MD)! });
+    const swapped = TABLE_MD.replace('| Timeout | Retries |', '| Retries | Timeout |')
+      .replace('| 200ms | 3 |', '| 3 | 200ms |').replace('| 200ms | 5 |', '| 5 | 200ms |');
+
+    const { updates } = engine.detectStaleThreads(swapped, [t]);
+    assert.deepStrictEqual(updates, []);
+    assert.deepStrictEqual(t.anchor.tableCell, { table: 0, row: 2, column: 1, columnHeader: 'Retries', rowHeader: '/orders' });
+  });
+
+  test('detectStaleThreads leaves general comments alone', () => {
+    const engine = new AnchorEngine();
+    const t = thread({ anchor: engine.createDocumentAnchor() });
+
+    assert.strictEqual(engine.anchorComment(t.anchor, SAMPLE_MD), null);
+    assert.deepStrictEqual(engine.detectStaleThreads(SAMPLE_MD, [t], undefined, { commit: 'abc123' }), { updates: [], anchorsMoved: false });
+    assert.strictEqual(t.status, 'open');
+    assert.strictEqual(t.anchor.commit, undefined);
+  });
+
   // ── anchorsMoved flag ────────────────────────────────────────────
 
   test('detectStaleThreads reports anchorsMoved=false when nothing changes', () => {
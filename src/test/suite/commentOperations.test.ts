@@ -0,0 +1,172 @@
+import * as assert from 'assert';
+import type { SidecarFile } from '../../models/types';
+import {
+  applyOperation,
+  describeOperation,
+  invertOperation,
+  type CommentOperation,
+} from '../../utils/commentOperations';
+
+function sidecar(): SidecarFile {
+  return {
+    doc: 'doc.md',
+    version: '3.0',
+    comments: [
+      {
+        id: 't1',
+        anchor: { selectedText: 'a', textContext: { prefix: '', suffix: '' }, markdownRange: { startOffset: 0, endOffset: 1 } },
+        status: 'open',
+        thread: [
+          { id: 'c1', author: 'alice', body: 'First', created: '2025-01-01T00:00:00Z', edited: null },
+          { id: 'c2', author: 'bob', body: 'Second', created: '2025-01-02T00:00:00Z', edited: null, reactions: { '👍': ['alice'] } },
+        ],
+      },
+      {
+        id: 't2',
+        anchor: { selectedText: 'b', textContext: { prefix: '', suffix: '' }, markdownRange: { startOffset: 2, endOffset: 3 } },
+        status: 'resolved',
+        resolvedBy: 'alice',
+        resolvedAt: '2025-01-03T00:00:00Z',
+        thread: [{ id: 'c3', author: 'alice', body: 'Third', created: '2025-01-03T00:00:00Z', edited: null }],
+      },
+    ],
+  };
+}
+
+const OPERATIONS: CommentOperation[] = [
+  { kind: 'addThread', thread: { ...sidecar().comments[0], id: 't3' }, index: 1 },
+  { kind: 'removeThread', thread: sidecar().comments[0], index: 0 },
+  { kind: 'addComment', threadId: 't1', entry: { id: 'c4', author: 'carol', body: 'Reply', created: '2025-01-04T00:00:00Z', edited: null }, index: 2 },
+  { kind: 'removeComment', threadId: 't1', entry: sidecar().comments[0].thread[1], index: 1 },
+  { kind: 'deleteThread', threadId: 't1', tombstone: { deletedBy: 'alice', deletedAt: '2025-01-04T00:00:00Z' } },
+  { kind: 'deleteComment', threadId: 't1', commentId: 'c2', tombstone: { deletedBy: 'bob', deletedAt: '2025-01-04T00:00:00Z' }, lastInThread: false },
+  { kind: 'deleteComment', threadId: 't2', commentId: 'c3', tombstone: { deletedBy: 'alice', deletedAt: '2025-01-04T00:00:00Z' }, lastInThread: true },
+  {
+    kind: 'editComment', threadId: 't1', commentId: 'c1',
+    before: { body: 'First', edited: null },
+    after: { body: 'First!', edited: '2025-01-05T00:00:00Z', history: [{ body: 'First', written: '2025-01-01T00:00:00Z' }] },
+  },
+  { kind: 'reaction', threadId: 't1', commentId: 'c2', author: 'bob', emoji: '🎉', added: true },
+  { kind: 'reaction', threadId: 't1', commentId: 'c2', author: 'alice', emoji: '👍', added: false },
+  { kind: 'setResolution', threadId: 't2', before: { status: 'resolved', resolvedBy: 'alice', resolvedAt: '2025-01-03T00:00:00Z' }, after: { status: 'open' } },
+  { kind: 'setResolution', threadId: 't1', before: { status: 'open' }, after: { status: 'resolved', resolvedBy: 'bob', resolvedAt: '2025-01-06T00:00:00Z' } },
+  {
+    kind: 'setAnchor', threadId: 't1',
+    before: { anchor: sidecar().comments[0].anchor, status: 'open' },
+    after: {
+      anchor: { selectedText: 'ab', textContext: { prefix: '', suffix: 'c' }, markdownRange: { startOffset: 0, endOffset: 2 } },
+      status: 'open',
+      anchorHistory: [{ anchor: sidecar().comments[0].anchor, replacedBy: 'bob', replacedAt: '2025-01-07T00:00:00Z' }],
+    },
+  },
+];
+
+suite('Comment Operations Test Suite', () => {
+  for (const op of OPERATIONS) {
+    test(`${describeOperation(op)} (${op.kind}) is undone exactly by its inverse`, () => {
+      const sc = sidecar();
+      assert.ok(applyOperation(sc, op));
+      assert.notDeepStrictEqual(sc, sidecar());
+      assert.ok(applyOperation(sc, invertOperation(op)));
+      assert.deepStrictEqual(sc, sidecar());
+    });
+
+    test(`${op.kind} cannot be applied twice`, () => {
+      const sc = sidecar();
+      assert.ok(applyOperation(sc, op));
+      const after = structuredClone(sc);
+      assert.strictEqual(applyOperation(sc, op), false);
+      assert.deepStrictEqual(sc, after);
+    });
+  }
+
+  test('undoing an edit is refused once someone else changed the body', () => {
+    const sc = sidecar();
+    const op = OPERATIONS.find(o => o.kind === 'editComment')!;
+    applyOperation(sc, op);
+    sc.comments[0].thread[0].body = 'Changed elsewhere';
+    assert.strictEqual(applyOperation(sc, invertOperation(op)), false);
+    assert.strictEqual(sc.comments[0].thread[0].body, 'Changed elsewhere');
+  });
+
+  test('undoing a re-anchor is refused once the anchor moved again', () => {
+    const sc = sidecar();
+    const op = OPERATIONS.find(o => o.kind === 'setAnchor')!;
+    applyOperation(sc, op);
+    sc.comments[0].anchor.markdownRange = { startOffset: 5, endOffset: 7 };
+    assert.strictEqual(applyOperation(sc, invertOperation(op)), false);
+  });
+
+  test('re-attaching a stale thread reopens it, and undoing makes it stale again', () => {
+    const sc = sidecar();
+    sc.comments[0].status = 'stale';
+    const stale = structuredClone(sc);
+    const op: CommentOperation = {
+      kind: 'setAnchor', threadId: 't1',
+      before: { anchor: sc.comments[0].anchor, status: 'stale' },
+      after: { anchor: { ...sc.comments[0].anchor, selectedText: 'c' }, status: 'open' },
+    };
+
+    assert.strictEqual(describeOperation(op), 're-attach comment');
+    assert.ok(applyOperation(sc, op));
+    assert.strictEqual(sc.comments[0].status, 'open');
+    assert.ok(applyOperation(sc, invertOperation(op)));
+    assert.deepStrictEqual(sc, stale);
+  });
+
+  test('a removed thread goes back to its old position', () => {
+    const sc = sidecar();
+    const op: CommentOperation = { kind: 'removeThread', thread: sc.comments[0], index: 0 };
+    applyOperation(sc, op);
+    applyOperation(sc, invertOperation(op));
+    assert.deepStrictEqual(sc.comments.map(t => t.id), ['t1', 't2']);
+  });
+
+  test('undoing a new thread is refused once someone replied to it', () => {
+    const sc = sidecar();
+    const op = OPERATIONS.find(o => o.kind === 'addThread')!;
+    applyOperation(sc, op);
+    sc.comments[1].thread.push({ id: 'c9', author: 'carol', body: 'Their reply', created: '2025-01-08T00:00:00Z', edited: null });
+    const replied = structuredClone(sc);
+    assert.strictEqual(applyOperation(sc, invertOperation(op)), false);
+    assert.deepStrictEqual(sc, replied);
+  });
+
+  test('undoing a reply is refused once it changed', () => {
+    const sc = sidecar();
+    const op = OPERATIONS.find(o => o.kind === 'addComment')!;
+    applyOperation(sc, op);
+    sc.comments[0].thread[2].reactions = { '👍': ['bob'] };
+    assert.strictEqual(applyOperation(sc, invertOperation(op)), false);
+    assert.strictEqual(sc.comments[0].thread.length, 3);
+  });
+
+  test('the only comment of a thread is not removed as a comment', () => {
+    const sc = sidecar();
+    const op: CommentOperation = { kind: 'removeComment', threadId: 't2', entry: sc.comments[1].thread[0], index: 0 };
+    assert.strictEqual(applyOperation(sc, op), false);
+  });
+
+  test('deleting the last live comment deletes its thread too', () => {
+    const sc = sidecar();
+    const op = OPERATIONS.find(o => o.kind === 'deleteComment' && o.lastInThread)!;
+    applyOperation(sc, op);
+    assert.strictEqual(sc.comments[1].deletedBy, 'alice');
+    assert.strictEqual(sc.comments[1].thread[0].deletedBy, 'alice');
+  });
+
+  test('restoring is refused once the tombstone changed', () => {
+    const sc = sidecar();
+    const op = OPERATIONS.find(o => o.kind === 'deleteThread')!;
+    applyOperation(sc, op);
+    sc.comments[0].deletedAt = '2025-02-01T00:00:00Z';
+    assert.strictEqual(applyOperation(sc, invertOperation(op)), false);
+    assert.strictEqual(sc.comments[0].deletedAt, '2025-02-01T00:00:00Z');
+  });
+
+  test('a deleted comment cannot be edited', () => {
+    const sc = sidecar();
+    sc.comments[0].thread[0].deletedAt = '2025-02-01T00:00:00Z';
+    assert.strictEqual(applyOperation(sc, OPERATIONS.find(o => o.kind === 'editComment')!), false);
+  });
+});
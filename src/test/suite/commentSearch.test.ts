@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import type { CommentEntry, CommentThread } from '../../models/types';
+import { describeFilter, matchesFilter, mentions, parseDateRange, type IndexedThread } from '../../utils/commentSearch';
+
+function entry(author: string, body: string, created: string, overrides: Partial<CommentEntry> = {}): CommentEntry {
+  return { id: `${author}-${created}`, author, body, created, edited: null, ...overrides };
+}
+
+/** A thread on docs/guide/setup.md */
+function indexed(comments: CommentEntry[], overrides: Partial<CommentThread> = {}): IndexedThread {
+  return {
+    docPath: '/workspace/docs/guide/setup.md',
+    relativePath: 'docs/guide/setup.md',
+    thread: {
+      id: 't1',
+      anchor: {
+        selectedText: 'cache',
+        textContext: { prefix: '', suffix: '' },
+        markdownRange: { startOffset: 0, endOffset: 5 },
+      },
+      status: 'open',
+      thread: comments,
+      ...overrides,
+    },
+  };
+}
+
+suite('Comment Search Test Suite', () => {
+  const thread = indexed([
+    entry('alice', 'Is the Cache size configurable?', '2025-03-01T10:00:00Z'),
+    entry('bob', 'Yes, see @Jane Doe for the defaults.', '2025-03-05T09:00:00Z'),
+  ]);
+
+  test('mentions matches @name in any case, with or without spaces', () => {
+    assert.strictEqual(mentions('ping @Jane Doe', 'Jane Doe'), true);
+    assert.strictEqual(mentions('ping @janedoe, thanks', 'Jane Doe'), true);
+    assert.strictEqual(mentions('ping @janedoes', 'Jane Doe'), false);
+    assert.strictEqual(mentions('Thanks @alice.', 'alice'), true);
+    assert.strictEqual(mentions('(@alice)', 'alice'), true);
+    assert.strictEqual(mentions('ping @alice.smith', 'alice'), false);
+    assert.strictEqual(mentions('ping @alice-b', 'alice'), false);
+    assert.strictEqual(mentions('Jane Doe wrote this', 'Jane Doe'), false);
+  });
+
+  test('matchesFilter searches all words across the thread, in any case', () => {
+    assert.strictEqual(matchesFilter(thread, {}), true);
+    assert.strictEqual(matchesFilter(thread, { query: 'cache defaults' }), true);
+    assert.strictEqual(matchesFilter(thread, { query: 'cache eviction' }), false);
+  });
+
+  test('matchesFilter applies author, status, date, folder and mention filters together', () => {
+    assert.strictEqual(matchesFilter(thread, { authors: ['bob', 'carol'] }), true);
+    assert.strictEqual(matchesFilter(thread, { authors: ['carol'] }), false);
+    assert.strictEqual(matchesFilter(thread, { statuses: ['resolved', 'stale'] }), false);
+    assert.strictEqual(matchesFilter(thread, { since: '2025-03-05', until: '2025-03-05' }), true);
+    assert.strictEqual(matchesFilter(thread, { since: '2025-03-02', until: '2025-03-04' }), false);
+    assert.strictEqual(matchesFilter(thread, { folder: 'docs' }), true);
+    assert.strictEqual(matchesFilter(thread, { folder: 'doc' }), false);
+    assert.strictEqual(matchesFilter(thread, { mentioning: 'jane doe', authors: ['bob'], statuses: ['open'] }), true);
+    assert.strictEqual(matchesFilter(thread, { mentioning: 'alice' }), false);
+  });
+
+  test('matchesFilter ignores deleted comments', () => {
+    const deleted = indexed([
+      entry('alice', 'Is the cache size configurable?', '2025-03-01T10:00:00Z'),
+      entry('bob', 'Ask @alice', '2025-03-05T09:00:00Z', { deletedBy: 'bob', deletedAt: '2025-03-06T00:00:00Z' }),
+    ]);
+    assert.strictEqual(matchesFilter(deleted, { authors: ['bob'] }), false);
+    assert.strictEqual(matchesFilter(deleted, { mentioning: 'alice' }), false);
+  });
+
+  test('parseDateRange accepts open and single-day ranges', () => {
+    assert.deepStrictEqual(parseDateRange('2025-01-01..2025-03-31'), { since: '2025-01-01', until: '2025-03-31' });
+    assert.deepStrictEqual(parseDateRange(' 2025-01-01.. '), { since: '2025-01-01' });
+    assert.deepStrictEqual(parseDateRange('..2025-03-31'), { until: '2025-03-31' });
+    assert.deepStrictEqual(parseDateRange('2025-02-14'), { since: '2025-02-14', until: '2025-02-14' });
+    assert.strictEqual(parseDateRange('..'), null);
+    assert.strictEqual(parseDateRange('2025-03-31..2025-01-01'), null);
+    assert.strictEqual(parseDateRange('last week'), null);
+  });
+
+  test('describeFilter summarizes the filters that are set', () => {
+    assert.strictEqual(describeFilter({}), '');
+    assert.strictEqual(
+      describeFilter({ query: 'cache', statuses: ['open'], authors: ['alice'], since: '2025-01-01', folder: 'docs', mentioning: 'bob' }),
+      '"cache" · open · by alice · 2025-01-01.. · in docs · mentions me',
+    );
+  });
+});
@@ -0,0 +1,279 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { GitService } from '../../gitService';
+import { SidecarManager } from '../../sidecarManager';
+import { InMemoryCommentStore } from '../../stores/inMemoryCommentStore';
+import { COMMENT_NOTES_REF, GitNotesCommentStore } from '../../stores/gitNotesCommentStore';
+import type { CommentStore, SidecarChangeEvent } from '../../stores/commentStore';
+import { addReply, addThread, createEmptySidecar } from '../../utils/sidecarOps';
+import type { SidecarFile } from '../../models/types';
+
+/** Create an empty git repo with a committer identity; returns its path. */
+function initRepo(dir: string, bare = false): string {
+  fs.mkdirSync(dir, { recursive: true });
+  execFileSync('git', ['init', '--quiet', ...(bare ? ['--bare'] : []), dir]);
+  if (!bare) {
+    execFileSync('git', ['-C', dir, 'config', 'user.name', 'Test']);
+    execFileSync('git', ['-C', dir, 'config', 'user.email', 'test@example.com']);
+  }
+  return dir;
+}
+
+function sidecarWithThread(doc: string): SidecarFile {
+  const sidecar = createEmptySidecar(doc);
+  addThread(sidecar, {
+    anchor: {
+      selectedText: 'text',
+      textContext: { prefix: '', suffix: '' },
+      markdownRange: { startOffset: 0, endOffset: 4 },
+    },
+    status: 'open',
+    thread: [{ id: 'c1', author: 'alice', body: 'Hi', created: '2025-01-01T00:00:00Z', edited: null }],
+  });
+  return sidecar;
+}
+
+/**
+ * Behaviour every CommentStore must share. `docDir` is where document paths
+ * live; `cleanup` runs after each test.
+ */
+function commentStoreContract(name: string, create: () => { store: CommentStore; docDir: string; cleanup(): void }) {
+  suite(`CommentStore contract: ${name}`, () => {
+    let store: CommentStore;
+    let docDir: string;
+    let cleanup: () => void;
+
+    setup(() => {
+      ({ store, docDir, cleanup } = create());
+    });
+
+    teardown(() => cleanup());
+
+    test('readSidecar returns null for a document without comments', async () => {
+      assert.strictEqual(await store.readSidecar(path.join(docDir, 'none.md')), null);
+    });
+
+    test('write then read round-trips the sidecar', async () => {
+      const docPath = path.join(docDir, 'doc.md');
+      const sidecar = sidecarWithThread('doc.md');
+      await store.writeSidecar(docPath, sidecar);
+
+      const loaded = await store.readSidecar(docPath);
+      assert.deepStrictEqual(loaded, sidecar);
+    });
+
+    test('returned sidecars are copies, not live state', async () => {
+      const docPath = path.join(docDir, 'doc.md');
+      await store.writeSidecar(docPath, sidecarWithThread('doc.md'));
+
+      const first = await store.readSidecar(docPath);
+      first!.comments[0].thread[0].body = 'changed without writing';
+      const second = await store.readSidecar(docPath);
+      assert.strictEqual(second!.comments[0].thread[0].body, 'Hi');
+    });
+
+    test('writing an empty sidecar removes the document', async () => {
+      const docPath = path.join(docDir, 'doc.md');
+      await store.writeSidecar(docPath, sidecarWithThread('doc.md'));
+      await store.writeSidecar(docPath, createEmptySidecar('doc.md'));
+
+      assert.strictEqual(await store.readSidecar(docPath), null);
+    });
+
+    test('writes and deletes fire onDidChange with the origin', async () => {
+      const docPath = path.join(docDir, 'doc.md');
+      const events: SidecarChangeEvent[] = [];
+      const sub = store.onDidChange(e => events.push(e));
+
+      await store.writeSidecar(docPath, sidecarWithThread('doc.md'), 'preview');
+      await store.deleteSidecar(docPath, 'editor');
+      sub.dispose();
+
+      assert.deepStrictEqual(events, [
+        { docPath, origin: 'preview' },
+        { docPath, origin: 'editor' },
+      ]);
+    });
+
+    test('mutate edits an empty sidecar and returns the edit result', async () => {
+      const docPath = path.join(docDir, 'doc.md');
+      const thread = await store.mutate(docPath, sidecar => addThread(sidecar, sidecarWithThread('doc.md').comments[0]));
+
+      const loaded = await store.readSidecar(docPath);
+      assert.deepStrictEqual(loaded!.comments.map(t => t.id), [thread.id]);
+    });
+
+    test('mutate does not write when the edit changes nothing', async () => {
+      const docPath = path.join(docDir, 'doc.md');
+      const events: SidecarChangeEvent[] = [];
+      const sub = store.onDidChange(e => events.push(e));
+
+      const result = await store.mutate(docPath, sidecar => sidecar.comments.length);
+      sub.dispose();
+
+      assert.strictEqual(result, 0);
+      assert.deepStrictEqual(events, []);
+      assert.strictEqual(await store.readSidecar(docPath), null);
+    });
+
+    test('concurrent mutations of one document are not lost', async () => {
+      const docPath = path.join(docDir, 'doc.md');
+      await store.writeSidecar(docPath, sidecarWithThread('doc.md'));
+      const threadId = (await store.readSidecar(docPath))!.comments[0].id;
+
+      await Promise.all(['a', 'b', 'c', 'd'].map(body => store.mutate(docPath, sidecar => {
+        addReply(sidecar, threadId, { author: 'bob', body, created: new Date().toISOString(), edited: null });
+      })));
+
+      const loaded = await store.readSidecar(docPath);
+      assert.deepStrictEqual(loaded!.comments[0].thread.map(c => c.body).sort(), ['Hi', 'a', 'b', 'c', 'd']);
+    });
+
+    test('watch returns a disposable', () => {
+      const watcher = store.watch();
+      assert.strictEqual(typeof watcher.dispose, 'function');
+      watcher.dispose();
+    });
+  });
+}
+
+commentStoreContract('InMemoryCommentStore', () => {
+  const store = new InMemoryCommentStore();
+  return { store, docDir: path.join(os.tmpdir(), 'in-memory'), cleanup: () => store.dispose() };
+});
+
+commentStoreContract('SidecarManager', () => {
+  const docDir = fs.mkdtempSync(path.join(os.tmpdir(), 'comment-store-test-'));
+  return {
+    store: new SidecarManager(),
+    docDir,
+    cleanup: () => fs.rmSync(docDir, { recursive: true, force: true }),
+  };
+});
+
+commentStoreContract('GitNotesCommentStore', () => {
+  const docDir = initRepo(fs.mkdtempSync(path.join(os.tmpdir(), 'notes-store-test-')));
+  const store = new GitNotesCommentStore(new GitService(docDir), docDir);
+  return {
+    store,
+    docDir,
+    cleanup: () => {
+      store.dispose();
+      fs.rmSync(docDir, { recursive: true, force: true });
+    },
+  };
+});
+
+suite('InMemoryCommentStore Test Suite', () => {
+  test('listDocuments returns documents with comments', async () => {
+    const store = new InMemoryCommentStore();
+    const a = path.join(os.tmpdir(), 'a.md');
+    const b = path.join(os.tmpdir(), 'b.md');
+    await store.writeSidecar(a, sidecarWithThread('a.md'));
+    await store.writeSidecar(b, sidecarWithThread('b.md'));
+    await store.deleteSidecar(a);
+
+    assert.deepStrictEqual(await store.listDocuments(), [b]);
+    store.dispose();
+  });
+});
+
+suite('GitNotesCommentStore Test Suite', () => {
+  let tmpDir: string;
+  let remote: string;
+
+  setup(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'notes-sync-test-'));
+    remote = initRepo(path.join(tmpDir, 'remote.git'), true);
+  });
+
+  teardown(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function clone(name: string): { root: string; store: GitNotesCommentStore } {
+    const root = initRepo(path.join(tmpDir, name));
+    execFileSync('git', ['-C', root, 'remote', 'add', 'origin', remote]);
+    return { root, store: new GitNotesCommentStore(new GitService(root), root) };
+  }
+
+  test('stores sidecars as notes without adding files to the work tree', async () => {
+    const { root, store } = clone('a');
+    const docPath = path.join(root, 'docs', 'guide.md');
+    await store.writeSidecar(docPath, sidecarWithThread('guide.md'));
+
+    assert.deepStrictEqual(fs.readdirSync(root), ['.git']);
+    const notes = execFileSync('git', ['-C', root, 'notes', `--ref=${COMMENT_NOTES_REF}`, 'list'], { encoding: 'utf-8' });
+    assert.strictEqual(notes.trim().split('\n').length, 1);
+    assert.deepStrictEqual(await store.listDocuments(), [docPath]);
+    store.dispose();
+  });
+
+  test('rejects documents outside the repository', async () => {
+    const { store } = clone('a');
+    await assert.rejects(store.writeSidecar(path.join(tmpDir, 'elsewhere.md'), sidecarWithThread('elsewhere.md')));
+    assert.strictEqual(await store.readSidecar(path.join(tmpDir, 'elsewhere.md')), null);
+    store.dispose();
+  });
+
+  test('push then fetch shares comments between clones', async () => {
+    const a = clone('a');
+    const b = clone('b');
+    await a.store.writeSidecar(path.join(a.root, 'doc.md'), sidecarWithThread('doc.md'));
+    await a.store.push('origin');
+
+    const result = await b.store.fetch('origin');
+    assert.deepStrictEqual(result, { found: true, changed: [path.join(b.root, 'doc.md')] });
+    const loaded = await b.store.readSidecar(path.join(b.root, 'doc.md'));
+    assert.strictEqual(loaded!.comments[0].thread[0].body, 'Hi');
+    assert.deepStrictEqual(await b.store.fetch('origin'), { found: true, changed: [] });
+    a.store.dispose();
+    b.store.dispose();
+  });
+
+  test('fetch reports a remote without comment notes', async () => {
+    const { store } = clone('a');
+    assert.deepStrictEqual(await store.fetch('origin'), { found: false, changed: [] });
+    store.dispose();
+  });
+
+  test('fetch merges threads added concurrently to the same document', async () => {
+    const a = clone('a');
+    const b = clone('b');
+    const docA = path.join(a.root, 'doc.md');
+    const docB = path.join(b.root, 'doc.md');
+    await a.store.writeSidecar(docA, sidecarWithThread('doc.md'));
+    await a.store.push('origin');
+    await b.store.fetch('origin');
+
+    // Both clones reply to the shared thread and add a thread of their own
+    const edit = async (store: GitNotesCommentStore, docPath: string, who: string) => {
+      const sidecar = (await store.readSidecar(docPath))!;
+      addReply(sidecar, sidecar.comments[0].id, { author: who, body: `reply from ${who}`, created: new Date().toISOString(), edited: null });
+      addThread(sidecar, { ...sidecar.comments[0], thread: [{ id: `${who}-1`, author: who, body: who, created: '2025-02-01T00:00:00Z', edited: null }] });
+      await store.writeSidecar(docPath, sidecar);
+    };
+    await edit(a.store, docA, 'alice');
+    await edit(b.store, docB, 'bob');
+    await a.store.push('origin');
+
+    await assert.rejects(b.store.push('origin'));
+    await b.store.fetch('origin');
+    await b.store.push('origin');
+
+    const merged = (await b.store.readSidecar(docB))!;
+    assert.strictEqual(merged.comments.length, 3);
+    assert.deepStrictEqual(
+      merged.comments[0].thread.map(c => c.body).sort(),
+      ['Hi', 'reply from alice', 'reply from bob'],
+    );
+
+    await a.store.fetch('origin');
+    assert.deepStrictEqual(await a.store.readSidecar(docA), merged);
+    a.store.dispose();
+    b.store.dispose();
+  });
+});
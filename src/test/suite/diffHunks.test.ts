@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { mapLine, parseDiffHunks } from '../../utils/diffHunks';
+
+/** `git diff --unified=0` of "a b c d" (one per line) against "a X Y c d new" */
+const DIFF = `diff --git a/1 b/2
+index 1111111..2222222 100644
+--- a/1
++++ b/2
+@@ -2 +2,2 @@ a
+-b
++X
++Y
+@@ -4,0 +6 @@ d
++new
+`;
+
+suite('Diff Hunks Test Suite', () => {
+  test('parseDiffHunks reads hunk headers, with omitted counts meaning one line', () => {
+    assert.deepStrictEqual(parseDiffHunks(DIFF), [
+      { oldStart: 2, oldLines: 1, newStart: 2, newLines: 2 },
+      { oldStart: 4, oldLines: 0, newStart: 6, newLines: 1 },
+    ]);
+    assert.deepStrictEqual(parseDiffHunks(''), []);
+  });
+
+  test('mapLine shifts unchanged lines past earlier changes', () => {
+    const hunks = parseDiffHunks(DIFF);
+    assert.deepStrictEqual(mapLine(hunks, 0, 'start'), { line: 0, exact: true });
+    assert.deepStrictEqual(mapLine(hunks, 2, 'start'), { line: 3, exact: true });
+    assert.deepStrictEqual(mapLine(hunks, 3, 'end'), { line: 4, exact: true });
+  });
+
+  test('mapLine maps a rewritten line onto the edges of its replacement', () => {
+    const hunks = parseDiffHunks(DIFF);
+    assert.deepStrictEqual(mapLine(hunks, 1, 'start'), { line: 1, exact: false });
+    assert.deepStrictEqual(mapLine(hunks, 1, 'end'), { line: 2, exact: false });
+  });
+
+  test('mapLine returns null for deleted lines and follows insertions at the top', () => {
+    const deleted = parseDiffHunks('@@ -2 +1,0 @@ a\n-b\n');
+    assert.strictEqual(mapLine(deleted, 1, 'start'), null);
+    assert.deepStrictEqual(mapLine(deleted, 2, 'start'), { line: 1, exact: true });
+
+    const prepended = parseDiffHunks('@@ -0,0 +1 @@\n+z\n');
+    assert.deepStrictEqual(mapLine(prepended, 0, 'start'), { line: 1, exact: true });
+  });
+});
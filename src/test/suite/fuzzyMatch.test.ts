@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { editDistance, findApproximateMatches, similarity } from '../../utils/fuzzyMatch';
+
+suite('Fuzzy Match Test Suite', () => {
+  test('finds an exact occurrence with distance 0', () => {
+    assert.deepStrictEqual(findApproximateMatches('token', 'a token here', 1), [{ start: 2, end: 7, distance: 0 }]);
+  });
+
+  test('finds substitutions, insertions and deletions within the limit', () => {
+    const text = 'one tokan, two tokken, three tokn';
+    const hits = findApproximateMatches('token', text, 1);
+
+    assert.deepStrictEqual(hits.map(h => text.slice(h.start, h.end)), ['tokan', 'tokken', 'tokn']);
+    assert.ok(hits.every(h => h.distance === 1));
+  });
+
+  test('ignores regions beyond the error limit', () => {
+    assert.deepStrictEqual(findApproximateMatches('token', 'a tkan here', 1), []);
+    assert.strictEqual(findApproximateMatches('token', 'a tkan here', 2).length, 1);
+  });
+
+  test('collapses overlapping hits to the closest one', () => {
+    const hits = findApproximateMatches('abcdef', 'xxabcdefxx', 2);
+
+    assert.deepStrictEqual(hits, [{ start: 2, end: 8, distance: 0 }]);
+  });
+
+  test('finds a match that starts at the very beginning', () => {
+    assert.deepStrictEqual(findApproximateMatches('hello', 'helo world', 1), [{ start: 0, end: 4, distance: 1 }]);
+  });
+
+  test('returns nothing for an empty pattern', () => {
+    assert.deepStrictEqual(findApproximateMatches('', 'anything', 3), []);
+  });
+
+  test('editDistance counts single-character edits', () => {
+    assert.strictEqual(editDistance('kitten', 'sitting'), 3);
+    assert.strictEqual(editDistance('', 'abc'), 3);
+    assert.strictEqual(editDistance('same', 'same'), 0);
+  });
+
+  test('similarity is 1 for identical strings and 0 for disjoint ones', () => {
+    assert.strictEqual(similarity('', ''), 1);
+    assert.strictEqual(similarity('abc', 'abc'), 1);
+    assert.strictEqual(similarity('abc', 'xyz'), 0);
+    assert.strictEqual(similarity('abcd', 'abcx'), 0.75);
+  });
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { GitService } from '../../gitService';
+
+suite('GitService Test Suite', () => {
+  let root: string;
+  let git: GitService;
+
+  setup(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'git-service-test-')));
+    execFileSync('git', ['init', '--quiet', root]);
+    execFileSync('git', ['-C', root, 'config', 'user.name', 'Test']);
+    execFileSync('git', ['-C', root, 'config', 'user.email', 'test@example.com']);
+    git = new GitService(root);
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('readFileAt returns a file as committed, or null when it was not there', async () => {
+    const docPath = path.join(root, 'docs', 'guide.md');
+    fs.mkdirSync(path.dirname(docPath));
+    fs.writeFileSync(docPath, 'First version\n');
+    execFileSync('git', ['-C', root, 'add', '.']);
+    execFileSync('git', ['-C', root, 'commit', '--quiet', '-m', 'Add guide']);
+    const commit = (await git.resolveRef('HEAD'))!;
+    fs.writeFileSync(docPath, 'Second version\n');
+
+    assert.strictEqual(await git.readFileAt(commit, docPath), 'First version\n');
+    assert.strictEqual(await git.readFileAt(commit, path.join(root, 'missing.md')), null);
+    assert.strictEqual(await git.readFileAt(commit, path.join(os.tmpdir(), 'elsewhere.md')), null);
+  });
+
+  test('diffTexts reports the changed line blocks', async () => {
+    assert.deepStrictEqual(await git.diffTexts('a\nb\nc\n', 'a\nB\nc\nd\n'), [
+      { oldStart: 2, oldLines: 1, newStart: 2, newLines: 1 },
+      { oldStart: 3, oldLines: 0, newStart: 4, newLines: 1 },
+    ]);
+    assert.deepStrictEqual(await git.diffTexts('same\n', 'same\n'), []);
+  });
+
+  test('diffTexts writes nothing to the repository', async () => {
+    const objectCount = () => execFileSync('git', ['-C', root, 'count-objects', '-v'], { encoding: 'utf-8' });
+    const before = objectCount();
+
+    await git.diffTexts('old text\n', 'new text\n');
+
+    assert.strictEqual(objectCount(), before);
+  });
+});
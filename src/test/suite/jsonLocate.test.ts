@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { locateJsonPath, parseJsonPath } from '../../utils/jsonLocate';
+
+const SOURCE = JSON.stringify({
+  doc: 'doc.md',
+  comments: [
+    { id: 'a', thread: [] },
+    { id: 'b', anchor: { markdownRange: { startOffset: 4 } }, thread: [{ reactions: { '👍': 'x' } }] },
+  ],
+}, null, 2);
+
+function textAt(path: string): string | undefined {
+  const span = locateJsonPath(SOURCE, path);
+  return span && SOURCE.slice(span.start, span.end);
+}
+
+suite('JSON Locate Test Suite', () => {
+  test('parseJsonPath splits keys, indices and quoted keys', () => {
+    assert.deepStrictEqual(
+      parseJsonPath('comments[1].thread[0].reactions["👍"]'),
+      ['comments', 1, 'thread', 0, 'reactions', '👍'],
+    );
+    assert.deepStrictEqual(parseJsonPath(''), []);
+  });
+
+  test('locates nested values', () => {
+    assert.strictEqual(textAt('comments[1].id'), '"b"');
+    assert.strictEqual(textAt('comments[1].anchor.markdownRange.startOffset'), '4');
+    assert.strictEqual(textAt('comments[1].thread[0].reactions["👍"]'), '"x"');
+  });
+
+  test('falls back to the deepest existing ancestor', () => {
+    assert.strictEqual(textAt('comments[1].anchor.markdownRange.endOffset'), '{\n          "startOffset": 4\n        }');
+    assert.strictEqual(textAt('comments[9]')!.startsWith('['), true);
+  });
+
+  test('returns undefined for invalid JSON', () => {
+    assert.strictEqual(locateJsonPath('{ "doc": ', 'doc'), undefined);
+  });
+});
@@ -1,5 +1,17 @@
 import * as assert from 'assert';
-import { parseMarkdownSections, findSectionBySlug, findSectionByLine, hasContentDrifted, findSelectionInRawMarkdown, stripMarkdownPreservingMap } from '../../utils/markdown';
+import {
+  parseMarkdownSections,
+  findSectionBySlug,
+  findSectionByLine,
+  hasContentDrifted,
+  findSelectionInRawMarkdown,
+  stripMarkdownPreservingMap,
+  findImageSyntax,
+  imagePosition,
+  parseImageSyntax,
+  parseFencedCodeBlocks,
+  parseMarkdownTables,
+} from '../../utils/markdown';
 
 suite('Markdown Utils Test Suite', () => {
   test('parseMarkdownSections extracts sections correctly', () => {
@@ -519,3 +531,59 @@ suite('stripMarkdownPreservingMap Test Suite', () => {
     assert.ok(stripped.includes('1'));
   });
 });
+
+suite('parseFencedCodeBlocks Test Suite', () => {
+  test('finds fenced blocks with their language and code lines', () => {
+    const source = 'Intro.\n\n```yaml\nport: 8080\n```\n\n- item\n\n  ~~~\n  ```not a close\n  ~~~\n\n````ts\nconst a = 1;\n';
+    assert.deepStrictEqual(parseFencedCodeBlocks(source), [
+      { language: 'yaml', openLine: 2, lineCount: 1 },
+      { language: '', openLine: 8, lineCount: 1 },
+      // Left open: runs to the end of the document
+      { language: 'ts', openLine: 12, lineCount: 2 },
+    ]);
+  });
+});
+
+suite('parseMarkdownTables Test Suite', () => {
+  test('finds table rows and the source range of each cell', () => {
+    const source = 'Intro.\n\n| Name | Type |\n|:-----|-----:|\n| `a \\| b` |  union |\n| id\n\nAfter.';
+    const [table, ...rest] = parseMarkdownTables(source);
+    assert.strictEqual(rest.length, 0);
+    assert.deepStrictEqual(table.rows.map(r => r.line), [2, 4, 5]);
+    assert.deepStrictEqual(table.rows.map(r => r.cells.map(c => c.text)), [['Name', 'Type'], ['`a \\| b`', 'union'], ['id']]);
+    const union = table.rows[1].cells[1];
+    assert.strictEqual(source.slice(union.start, union.end), 'union');
+  });
+
+  test('skips tables in code, rows without a delimiter, and cuts rows to the header', () => {
+    const source = '```\n| a | b |\n|---|---|\n```\n\n| a | b |\n| not | a delimiter |\n\na | b\n--- | ---\n1 | 2 | 3';
+    const tables = parseMarkdownTables(source);
+    assert.strictEqual(tables.length, 1);
+    assert.deepStrictEqual(tables[0].rows.map(r => r.cells.map(c => c.text)), [['a', 'b'], ['1', '2']]);
+  });
+});
+
+suite('Image syntax Test Suite', () => {
+  const source = 'Intro.\n\n![Login flow](img/login.png "Login") and ![](img/logout.png)\n\n![Ref][diagram]';
+
+  test('findImageSyntax finds the n-th image on a line', () => {
+    const second = findImageSyntax(source, 2, 1);
+    assert.deepStrictEqual(second && source.slice(second.start, second.end), '![](img/logout.png)');
+    assert.deepStrictEqual(findImageSyntax(source, 2, 0), {
+      start: 8, end: 8 + '![Login flow](img/login.png "Login")'.length, src: 'img/login.png', alt: 'Login flow',
+    });
+    assert.deepStrictEqual(findImageSyntax(source, 4, 0)?.alt, 'Ref');
+    assert.strictEqual(findImageSyntax(source, 2, 2), undefined);
+    assert.strictEqual(findImageSyntax(source, 9, 0), undefined);
+  });
+
+  test('imagePosition is the inverse of findImageSyntax', () => {
+    assert.deepStrictEqual(imagePosition(source, source.indexOf('![](')), { line: 2, index: 1 });
+    assert.deepStrictEqual(imagePosition(source, source.indexOf('![Ref]')), { line: 4, index: 0 });
+  });
+
+  test('parseImageSyntax reads src and alt text of a single image', () => {
+    assert.deepStrictEqual(parseImageSyntax('![A chart](<charts/q1.svg>)'), { src: 'charts/q1.svg', alt: 'A chart' });
+    assert.strictEqual(parseImageSyntax('see ![A chart](q1.svg)'), undefined);
+  });
+});
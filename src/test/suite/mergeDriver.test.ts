@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runMergeDriver } from '../../mergeDriver';
+import { addMergeAttribute, buildDriverCommand } from '../../utils/mergeDriverConfig';
+
+function threadJson(id: string, replies: string[] = []) {
+  const entry = (cid: string, created: string) => ({ id: cid, author: 'alice', body: cid, created, edited: null });
+  return {
+    id,
+    anchor: { selectedText: 'x', textContext: { prefix: '', suffix: '' }, markdownRange: { startOffset: 0, endOffset: 1 } },
+    status: 'open',
+    thread: [entry(`${id}-c1`, '2025-01-01T00:00:00Z'), ...replies.map((r, i) => entry(r, `2025-01-0${i + 2}T00:00:00Z`))],
+  };
+}
+
+suite('Merge Driver Test Suite', () => {
+  let tmpDir: string;
+  const logs: string[] = [];
+  const log = (m: string) => { logs.push(m); };
+
+  setup(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'merge-driver-test-'));
+    logs.length = 0;
+  });
+
+  teardown(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function write(name: string, data: unknown): string {
+    const file = path.join(tmpDir, name);
+    fs.writeFileSync(file, typeof data === 'string' ? data : JSON.stringify(data), 'utf-8');
+    return file;
+  }
+
+  test('merges both sides into the ours file and exits 0', () => {
+    const base = write('base', { doc: 'doc.md', version: '3.0', comments: [threadJson('a')] });
+    const ours = write('ours', { doc: 'doc.md', version: '3.0', comments: [threadJson('a', ['r1'])] });
+    const theirs = write('theirs', { doc: 'doc.md', version: '3.0', comments: [threadJson('a'), threadJson('b')] });
+
+    assert.strictEqual(runMergeDriver([base, ours, theirs, 'doc.comments.json'], log), 0);
+    const merged = JSON.parse(fs.readFileSync(ours, 'utf-8'));
+    assert.deepStrictEqual(merged.comments.map((t: { id: string }) => t.id), ['a', 'b']);
+    assert.strictEqual(merged.comments[0].thread.length, 2);
+  });
+
+  test('treats an empty base as no common ancestor and upgrades older sides', () => {
+    const base = write('base', '');
+    const legacy = threadJson('a');
+    (legacy.thread[0] as Record<string, unknown>).reactions = ['bob'];
+    const ours = write('ours', { doc: 'doc.md', version: '2.0', comments: [legacy] });
+    const theirs = write('theirs', { doc: 'doc.md', version: '3.0', comments: [threadJson('b')] });
+
+    assert.strictEqual(runMergeDriver([base, ours, theirs], log), 0);
+    const merged = JSON.parse(fs.readFileSync(ours, 'utf-8'));
+    assert.strictEqual(merged.version, '3.0');
+    assert.deepStrictEqual(merged.comments[0].thread[0].reactions, { '👍': ['bob'] });
+  });
+
+  test('finds the document of a centralized sidecar to upgrade v1 anchors', () => {
+    fs.mkdirSync(path.join(tmpDir, 'docs'));
+    fs.writeFileSync(path.join(tmpDir, 'docs', 'guide.md'), '# Intro\n\n## Setup\n\nSteps\n', 'utf-8');
+    const v1 = {
+      doc: 'guide.md',
+      version: '1.0',
+      comments: [{
+        id: 'a',
+        anchor: { sectionSlug: 'setup', contentHash: 'abc', lineHint: 2 },
+        status: 'open',
+        thread: [{ id: 'c1', author: 'alice', body: 'Needs detail', created: '2025-01-01T00:00:00Z', edited: null }],
+      }],
+    };
+    const base = write('base', v1);
+    const ours = write('ours', v1);
+    const theirs = write('theirs', v1);
+
+    assert.strictEqual(runMergeDriver([base, ours, theirs, '.reviews/docs/guide.comments.json'], log, tmpDir), 0);
+    const merged = JSON.parse(fs.readFileSync(ours, 'utf-8'));
+    assert.strictEqual(merged.comments[0].anchor.selectedText, 'Setup');
+    assert.strictEqual(merged.comments[0].anchor.markdownRange.startOffset, '# Intro\n\n## '.length);
+  });
+
+  test('leaves the conflict in place for unparseable input', () => {
+    const base = write('base', { doc: 'doc.md', version: '3.0', comments: [] });
+    const ours = write('ours', '<<<<<<< HEAD\n{}');
+    const theirs = write('theirs', { doc: 'doc.md', version: '3.0', comments: [] });
+
+    assert.strictEqual(runMergeDriver([base, ours, theirs, 'doc.comments.json'], log), 1);
+    assert.strictEqual(fs.readFileSync(ours, 'utf-8'), '<<<<<<< HEAD\n{}');
+    assert.ok(logs[0].startsWith('markdown-review: doc.comments.json:'));
+  });
+
+  test('refuses to merge sides with invalid threads', () => {
+    const base = write('base', { doc: 'doc.md', version: '3.0', comments: [] });
+    const ours = write('ours', { doc: 'doc.md', version: '3.0', comments: [{ id: 'bad', thread: 'x' }] });
+    const theirs = write('theirs', { doc: 'doc.md', version: '3.0', comments: [] });
+
+    assert.strictEqual(runMergeDriver([base, ours, theirs], log), 1);
+  });
+
+  test('exits 2 on missing arguments', () => {
+    assert.strictEqual(runMergeDriver(['only-one'], log), 2);
+  });
+
+  test('buildDriverCommand uses forward slashes and git placeholders', () => {
+    assert.strictEqual(
+      buildDriverCommand('C:\\ext\\dist\\mergeDriver.js'),
+      'node "C:/ext/dist/mergeDriver.js" %O %A %B %P',
+    );
+  });
+
+  test('addMergeAttribute appends once, preserving existing content', () => {
+    assert.strictEqual(addMergeAttribute(''), '*.comments.json merge=markdown-review\n');
+    assert.strictEqual(addMergeAttribute('* text=auto'), '* text=auto\n*.comments.json merge=markdown-review\n');
+    assert.strictEqual(addMergeAttribute('* text=auto\r\n'), '* text=auto\r\n*.comments.json merge=markdown-review\r\n');
+    assert.strictEqual(addMergeAttribute('*.comments.json  text merge=markdown-review\n'), null);
+  });
+});
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { OperationLog } from '../../operationLog';
+import { InMemoryCommentStore } from '../../stores/inMemoryCommentStore';
+import { applyOperation, type CommentOperation } from '../../utils/commentOperations';
+
+const DOC = path.join(os.tmpdir(), 'doc.md');
+
+function addThreadOp(id: string): CommentOperation {
+  return {
+    kind: 'addThread',
+    thread: {
+      id,
+      anchor: { selectedText: id, textContext: { prefix: '', suffix: '' }, markdownRange: { startOffset: 0, endOffset: 1 } },
+      status: 'open',
+      thread: [{ id: `${id}-c1`, author: 'alice', body: id, created: '2025-01-01T00:00:00Z', edited: null }],
+    },
+    index: 0,
+  };
+}
+
+suite('Operation Log Test Suite', () => {
+  let store: InMemoryCommentStore;
+  let log: OperationLog;
+
+  setup(() => {
+    store = new InMemoryCommentStore();
+    log = new OperationLog(store);
+  });
+
+  teardown(() => store.dispose());
+
+  async function perform(op: CommentOperation): Promise<void> {
+    await store.mutate(DOC, sidecar => applyOperation(sidecar, op));
+    log.record(DOC, op);
+  }
+
+  async function threadIds(): Promise<string[]> {
+    return (await store.readSidecar(DOC))?.comments.map(t => t.id) ?? [];
+  }
+
+  test('undo and redo walk the history', async () => {
+    await perform(addThreadOp('a'));
+    await perform(addThreadOp('b'));
+
+    assert.strictEqual((await log.undo(DOC))!.applied, true);
+    assert.deepStrictEqual(await threadIds(), ['a']);
+    await log.undo(DOC);
+    assert.deepStrictEqual(await threadIds(), []);
+    assert.strictEqual(await log.undo(DOC), undefined);
+
+    await log.redo(DOC);
+    await log.redo(DOC);
+    assert.deepStrictEqual(await threadIds(), ['b', 'a']);
+    assert.strictEqual(log.canRedo(DOC), false);
+  });
+
+  test('a new operation clears the redo stack', async () => {
+    await perform(addThreadOp('a'));
+    await log.undo(DOC);
+    assert.ok(log.canRedo(DOC));
+
+    await perform(addThreadOp('b'));
+    assert.strictEqual(log.canRedo(DOC), false);
+  });
+
+  test('undo with an expected operation only reverts that operation', async () => {
+    const first = addThreadOp('a');
+    await perform(first);
+    await perform(addThreadOp('b'));
+
+    assert.strictEqual(await log.undo(DOC, first), undefined);
+    assert.deepStrictEqual(await threadIds(), ['b', 'a']);
+  });
+
+  test('an operation that no longer applies is reported and dropped', async () => {
+    await perform(addThreadOp('a'));
+    await store.deleteSidecar(DOC);
+
+    const step = await log.undo(DOC);
+    assert.strictEqual(step!.applied, false);
+    assert.strictEqual(log.canUndo(DOC), false);
+    assert.strictEqual(log.canRedo(DOC), false);
+  });
+
+  test('an undo or redo that fails to save stays on its stack to retry', async () => {
+    await perform(addThreadOp('a'));
+    const mutate = store.mutate.bind(store);
+    store.mutate = () => Promise.reject(new Error('disk full'));
+
+    await assert.rejects(log.undo(DOC), /disk full/);
+    assert.strictEqual(log.canUndo(DOC), true);
+    assert.strictEqual(log.canRedo(DOC), false);
+
+    store.mutate = mutate;
+    await log.undo(DOC);
+    assert.deepStrictEqual(await threadIds(), []);
+
+    store.mutate = () => Promise.reject(new Error('disk full'));
+    await assert.rejects(log.redo(DOC), /disk full/);
+    assert.strictEqual(log.canRedo(DOC), true);
+
+    store.mutate = mutate;
+    await log.redo(DOC);
+    assert.deepStrictEqual(await threadIds(), ['a']);
+  });
+
+  test('history is kept per document', async () => {
+    await perform(addThreadOp('a'));
+    assert.strictEqual(log.canUndo(path.join(os.tmpdir(), 'other.md')), false);
+    assert.strictEqual(log.canUndo(DOC), true);
+  });
+});
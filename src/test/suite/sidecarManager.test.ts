@@ -2,8 +2,10 @@ import * as assert from 'assert';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { SidecarManager } from '../../sidecarManager';
+import { SidecarManager, DEFAULT_REACTION, UnsupportedSidecarVersionError } from '../../sidecarManager';
 import type { SidecarFile, CommentThread } from '../../models/types';
+import { liveThreads, purgeTombstones } from '../../utils/sidecarOps';
+import { UnreadableSidecarError } from '../../stores/sidecarMutation';
 
 /**
  * Helper: create a fresh SidecarManager instance for test isolation.
@@ -15,7 +17,7 @@ function makeSidecar(): SidecarManager {
 
 /** Helper: build a minimal valid SidecarFile */
 function emptySidecar(doc = 'test.md'): SidecarFile {
-  return { doc, version: '2.0', comments: [] };
+  return { doc, version: '3.0', comments: [] };
 }
 
 /** Helper: build a text-selection anchor */
@@ -72,7 +74,7 @@ suite('SidecarManager Test Suite', () => {
     const mgr = makeSidecar();
     const sc = mgr.createEmptySidecar('design.md');
     assert.strictEqual(sc.doc, 'design.md');
-    assert.strictEqual(sc.version, '2.0');
+    assert.strictEqual(sc.version, '3.0');
     assert.ok(Array.isArray(sc.comments));
     assert.strictEqual(sc.comments.length, 0);
   });
@@ -137,26 +139,34 @@ suite('SidecarManager Test Suite', () => {
 
   // ── deleteThread ─────────────────────────────────────────────────
 
-  test('deleteThread removes the thread', () => {
+  test('deleteThread leaves a tombstone', () => {
     const mgr = makeSidecar();
     const sc = emptySidecar();
     const thread = mgr.addThread(sc, threadStub());
 
-    const deleted = mgr.deleteThread(sc, thread.id);
+    const deleted = mgr.deleteThread(sc, thread.id, 'carol');
     assert.strictEqual(deleted, true);
-    assert.strictEqual(sc.comments.length, 0);
+    assert.strictEqual(sc.comments.length, 1);
+    assert.strictEqual(thread.deletedBy, 'carol');
+    assert.ok(thread.deletedAt, 'deletedAt should be set');
+    assert.strictEqual(thread.thread[0].body, 'Looks good!', 'comments are kept');
+    assert.deepStrictEqual(liveThreads(sc), []);
   });
 
-  test('deleteThread returns false for unknown id', () => {
+  test('deleteThread returns false for unknown or already deleted thread', () => {
     const mgr = makeSidecar();
     const sc = emptySidecar();
+    const thread = mgr.addThread(sc, threadStub());
+    mgr.deleteThread(sc, thread.id, 'carol');
 
-    assert.strictEqual(mgr.deleteThread(sc, 'no-such-id'), false);
+    assert.strictEqual(mgr.deleteThread(sc, 'no-such-id', 'carol'), false);
+    assert.strictEqual(mgr.deleteThread(sc, thread.id, 'dave'), false);
+    assert.strictEqual(thread.deletedBy, 'carol');
   });
 
   // ── deleteComment (by index) ─────────────────────────────────────
 
-  test('deleteComment removes a comment by index', () => {
+  test('deleteComment tombstones a comment by index', () => {
     const mgr = makeSidecar();
     const sc = emptySidecar();
     const thread = mgr.addThread(sc, threadStub());
@@ -170,21 +180,36 @@ suite('SidecarManager Test Suite', () => {
     });
 
     assert.strictEqual(thread.thread.length, 2);
-    const deleted = mgr.deleteComment(sc, thread.id, 0);
+    const deleted = mgr.deleteComment(sc, thread.id, 0, 'alice');
     assert.strictEqual(deleted, true);
-    assert.strictEqual(thread.thread.length, 1);
-    assert.strictEqual(thread.thread[0].author, 'bob');
+    assert.strictEqual(thread.thread.length, 2);
+    assert.strictEqual(thread.thread[0].deletedBy, 'alice');
+    assert.ok(thread.thread[0].deletedAt);
+    assert.strictEqual(thread.thread[1].deletedAt, undefined);
+    assert.strictEqual(thread.deletedAt, undefined, 'thread stays while a comment is left');
   });
 
-  test('deleteComment removes entire thread when last comment is deleted', () => {
+  test('deleteComment deletes the thread when its last live comment is deleted', () => {
     const mgr = makeSidecar();
     const sc = emptySidecar();
     const thread = mgr.addThread(sc, threadStub());
 
     assert.strictEqual(sc.comments.length, 1);
-    const deleted = mgr.deleteComment(sc, thread.id, 0);
+    const deleted = mgr.deleteComment(sc, thread.id, 0, 'alice');
     assert.strictEqual(deleted, true);
-    assert.strictEqual(sc.comments.length, 0);
+    assert.strictEqual(sc.comments.length, 1);
+    assert.strictEqual(thread.deletedBy, 'alice');
+    assert.deepStrictEqual(liveThreads(sc), []);
+  });
+
+  test('deleteComment returns false for an already deleted comment', () => {
+    const mgr = makeSidecar();
+    const sc = emptySidecar();
+    const thread = mgr.addThread(sc, threadStub());
+    mgr.deleteComment(sc, thread.id, 0, 'alice');
+
+    assert.strictEqual(mgr.deleteComment(sc, thread.id, 0, 'bob'), false);
+    assert.strictEqual(thread.thread[0].deletedBy, 'alice');
   });
 
   test('deleteComment returns false for out-of-range index', () => {
@@ -192,20 +217,20 @@ suite('SidecarManager Test Suite', () => {
     const sc = emptySidecar();
     const thread = mgr.addThread(sc, threadStub());
 
-    assert.strictEqual(mgr.deleteComment(sc, thread.id, -1), false);
-    assert.strictEqual(mgr.deleteComment(sc, thread.id, 99), false);
+    assert.strictEqual(mgr.deleteComment(sc, thread.id, -1, 'alice'), false);
+    assert.strictEqual(mgr.deleteComment(sc, thread.id, 99, 'alice'), false);
   });
 
   test('deleteComment returns false for unknown thread', () => {
     const mgr = makeSidecar();
     const sc = emptySidecar();
 
-    assert.strictEqual(mgr.deleteComment(sc, 'no-such-id', 0), false);
+    assert.strictEqual(mgr.deleteComment(sc, 'no-such-id', 0, 'alice'), false);
   });
 
   // ── deleteCommentById ────────────────────────────────────────────
 
-  test('deleteCommentById removes the correct entry', () => {
+  test('deleteCommentById tombstones the correct entry', () => {
     const mgr = makeSidecar();
     const sc = emptySidecar();
     const thread = mgr.addThread(sc, threadStub());
@@ -218,10 +243,10 @@ suite('SidecarManager Test Suite', () => {
     });
 
     assert.strictEqual(thread.thread.length, 2);
-    const deleted = mgr.deleteCommentById(sc, thread.id, reply!.id);
+    const deleted = mgr.deleteCommentById(sc, thread.id, reply!.id, 'bob');
     assert.strictEqual(deleted, true);
-    assert.strictEqual(thread.thread.length, 1);
-    assert.strictEqual(thread.thread[0].id, 'entry-1'); // original remains
+    assert.strictEqual(thread.thread[1].deletedBy, 'bob');
+    assert.strictEqual(thread.thread[0].deletedAt, undefined); // original remains
   });
 
   test('deleteCommentById returns false for unknown comment id', () => {
@@ -229,14 +254,14 @@ suite('SidecarManager Test Suite', () => {
     const sc = emptySidecar();
     const thread = mgr.addThread(sc, threadStub());
 
-    assert.strictEqual(mgr.deleteCommentById(sc, thread.id, 'no-such-comment'), false);
+    assert.strictEqual(mgr.deleteCommentById(sc, thread.id, 'no-such-comment', 'alice'), false);
   });
 
   test('deleteCommentById returns false for unknown thread id', () => {
     const mgr = makeSidecar();
     const sc = emptySidecar();
 
-    assert.strictEqual(mgr.deleteCommentById(sc, 'no-such-thread', 'any'), false);
+    assert.strictEqual(mgr.deleteCommentById(sc, 'no-such-thread', 'any', 'alice'), false);
   });
 
   // ── editComment ──────────────────────────────────────────────────
@@ -255,6 +280,32 @@ suite('SidecarManager Test Suite', () => {
     assert.ok(updated!.edited, 'edited should be set');
   });
 
+  test('editComment keeps earlier bodies in history', () => {
+    const mgr = makeSidecar();
+    const sc = emptySidecar();
+    const thread = mgr.addThread(sc, threadStub());
+    const entry = thread.thread[0];
+
+    mgr.editComment(sc, thread.id, entry.id, 'Second');
+    const firstEdit = entry.edited!;
+    mgr.editComment(sc, thread.id, entry.id, 'Third');
+
+    assert.strictEqual(entry.body, 'Third');
+    assert.deepStrictEqual(entry.history, [
+      { body: 'Looks good!', written: entry.created },
+      { body: 'Second', written: firstEdit },
+    ]);
+  });
+
+  test('editComment returns null for a deleted comment', () => {
+    const mgr = makeSidecar();
+    const sc = emptySidecar();
+    const thread = mgr.addThread(sc, threadStub());
+    mgr.deleteComment(sc, thread.id, 0, 'alice');
+
+    assert.strictEqual(mgr.editComment(sc, thread.id, thread.thread[0].id, 'x'), null);
+  });
+
   test('editComment returns null for unknown thread', () => {
     const mgr = makeSidecar();
     const sc = emptySidecar();
@@ -270,6 +321,162 @@ suite('SidecarManager Test Suite', () => {
     assert.strictEqual(mgr.editComment(sc, thread.id, 'no-comment', 'x'), null);
   });
 
+  // ── purgeTombstones ──────────────────────────────────────────────
+
+  test('purgeTombstones removes tombstones deleted before the cutoff', () => {
+    const mgr = makeSidecar();
+    const sc = emptySidecar();
+    const old = mgr.addThread(sc, threadStub());
+    const recent = mgr.addThread(sc, threadStub());
+    const live = mgr.addThread(sc, threadStub());
+    mgr.addReply(sc, live.id, { author: 'bob', body: 'Old reply', created: new Date().toISOString(), edited: null });
+    mgr.addReply(sc, live.id, { author: 'bob', body: 'New reply', created: new Date().toISOString(), edited: null });
+    mgr.deleteThread(sc, old.id, 'alice');
+    mgr.deleteThread(sc, recent.id, 'alice');
+    mgr.deleteComment(sc, live.id, 1, 'bob');
+    mgr.deleteComment(sc, live.id, 2, 'bob');
+    old.deletedAt = '2020-01-01T00:00:00.000Z';
+    live.thread[1].deletedAt = '2020-01-01T00:00:00.000Z';
+
+    const purged = purgeTombstones(sc, new Date('2021-01-01T00:00:00.000Z'));
+
+    assert.strictEqual(purged, 2);
+    assert.deepStrictEqual(sc.comments.map(t => t.id), [recent.id, live.id]);
+    assert.deepStrictEqual(live.thread.map(c => c.body), ['Looks good!', 'New reply']);
+  });
+
+  test('purgeTombstones keeps the first comment of a live thread', () => {
+    const mgr = makeSidecar();
+    const sc = emptySidecar();
+    const thread = mgr.addThread(sc, threadStub());
+    mgr.addReply(sc, thread.id, { author: 'bob', body: 'Reply', created: new Date().toISOString(), edited: null });
+    mgr.deleteComment(sc, thread.id, 0, 'alice');
+
+    assert.strictEqual(purgeTombstones(sc, new Date(Date.now() + 1000)), 0);
+    assert.strictEqual(thread.thread.length, 2);
+  });
+
+  // ── toggleReaction ───────────────────────────────────────────────
+
+  test('toggleReaction adds the author under the default emoji', () => {
+    const mgr = makeSidecar();
+    const sc = emptySidecar();
+    const thread = mgr.addThread(sc, threadStub());
+
+    const added = mgr.toggleReaction(sc, thread.id, 'entry-1', 'bob');
+    assert.strictEqual(added, true);
+    assert.deepStrictEqual(thread.thread[0].reactions, { [DEFAULT_REACTION]: ['bob'] });
+  });
+
+  test('toggleReaction keeps separate reactor lists per emoji', () => {
+    const mgr = makeSidecar();
+    const sc = emptySidecar();
+    const thread = mgr.addThread(sc, threadStub());
+
+    mgr.toggleReaction(sc, thread.id, 'entry-1', 'bob', '🎉');
+    mgr.toggleReaction(sc, thread.id, 'entry-1', 'carol', '🎉');
+    mgr.toggleReaction(sc, thread.id, 'entry-1', 'bob', '👀');
+    assert.deepStrictEqual(thread.thread[0].reactions, { '🎉': ['bob', 'carol'], '👀': ['bob'] });
+  });
+
+  test('toggleReaction removes an existing reaction and prunes empty emojis', () => {
+    const mgr = makeSidecar();
+    const sc = emptySidecar();
+    const thread = mgr.addThread(sc, threadStub());
+
+    mgr.toggleReaction(sc, thread.id, 'entry-1', 'bob', '🎉');
+    const added = mgr.toggleReaction(sc, thread.id, 'entry-1', 'bob', '🎉');
+    assert.strictEqual(added, false);
+    assert.strictEqual(thread.thread[0].reactions, undefined);
+  });
+
+  test('toggleReaction returns false for unknown thread or comment', () => {
+    const mgr = makeSidecar();
+    const sc = emptySidecar();
+    const thread = mgr.addThread(sc, threadStub());
+
+    assert.strictEqual(mgr.toggleReaction(sc, 'no-thread', 'entry-1', 'bob'), false);
+    assert.strictEqual(mgr.toggleReaction(sc, thread.id, 'no-comment', 'bob'), false);
+  });
+
+  test('readSidecar migrates legacy string[] reactions to the emoji map', async () => {
+    const mgr = makeSidecar();
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sidecar-test-'));
+    const docPath = path.join(tmpDir, 'doc.md');
+    const legacy = emptySidecar('doc.md');
+    legacy.comments.push({
+      id: 't1',
+      ...threadStub(),
+    });
+    (legacy.comments[0].thread[0] as unknown as { reactions: string[] }).reactions = ['bob', 'carol'];
+    fs.writeFileSync(mgr.getSidecarPath(docPath), JSON.stringify({ ...legacy, version: '2.0' }), 'utf-8');
+
+    const loaded = await mgr.readSidecar(docPath);
+    assert.ok(loaded);
+    assert.deepStrictEqual(loaded!.comments[0].thread[0].reactions, { [DEFAULT_REACTION]: ['bob', 'carol'] });
+
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  // ── resolveThread / reopenThread ────────────────────────────────
+
+  test('resolveThread sets status and resolution metadata', () => {
+    const mgr = makeSidecar();
+    const sc = emptySidecar();
+    const thread = mgr.addThread(sc, threadStub());
+
+    const resolved = mgr.resolveThread(sc, thread.id, 'bob');
+    assert.ok(resolved);
+    assert.strictEqual(resolved!.status, 'resolved');
+    assert.strictEqual(resolved!.resolvedBy, 'bob');
+    assert.ok(resolved!.resolvedAt, 'resolvedAt should be set');
+  });
+
+  test('resolveThread returns null for unknown thread', () => {
+    const mgr = makeSidecar();
+    const sc = emptySidecar();
+
+    assert.strictEqual(mgr.resolveThread(sc, 'no-such-id', 'bob'), null);
+  });
+
+  test('reopenThread restores open status and clears resolution metadata', () => {
+    const mgr = makeSidecar();
+    const sc = emptySidecar();
+    const thread = mgr.addThread(sc, threadStub());
+    mgr.resolveThread(sc, thread.id, 'bob');
+
+    const reopened = mgr.reopenThread(sc, thread.id);
+    assert.ok(reopened);
+    assert.strictEqual(reopened!.status, 'open');
+    assert.strictEqual(reopened!.resolvedBy, undefined);
+    assert.strictEqual(reopened!.resolvedAt, undefined);
+  });
+
+  test('reopenThread returns null for unknown thread', () => {
+    const mgr = makeSidecar();
+    const sc = emptySidecar();
+
+    assert.strictEqual(mgr.reopenThread(sc, 'no-such-id'), null);
+  });
+
+  test('resolved thread survives a write/read round-trip', async () => {
+    const mgr = makeSidecar();
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sidecar-test-'));
+    const docPath = path.join(tmpDir, 'design.md');
+
+    const sc = emptySidecar('design.md');
+    const thread = mgr.addThread(sc, threadStub());
+    mgr.resolveThread(sc, thread.id, 'bob');
+    await mgr.writeSidecar(docPath, sc);
+
+    const loaded = await mgr.readSidecar(docPath);
+    assert.ok(loaded);
+    assert.strictEqual(loaded!.comments[0].status, 'resolved');
+    assert.strictEqual(loaded!.comments[0].resolvedBy, 'bob');
+
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
   // ── File I/O round-trip ──────────────────────────────────────────
 
   test('writeSidecar and readSidecar round-trip correctly', async () => {
@@ -288,7 +495,7 @@ suite('SidecarManager Test Suite', () => {
     const loaded = await mgr.readSidecar(docPath);
     assert.ok(loaded);
     assert.strictEqual(loaded!.doc, 'design.md');
-    assert.strictEqual(loaded!.version, '2.0');
+    assert.strictEqual(loaded!.version, '3.0');
     assert.strictEqual(loaded!.comments.length, 1);
     assert.strictEqual(loaded!.comments[0].anchor.selectedText, 'important text');
 
@@ -330,13 +537,13 @@ suite('SidecarManager Test Suite', () => {
     fs.rmSync(tmpDir, { recursive: true, force: true });
   });
 
-  test('readSidecar returns null for wrong version', async () => {
+  test('readSidecar returns null for unrecognised version', async () => {
     const mgr = makeSidecar();
     const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sidecar-test-'));
     const docPath = path.join(tmpDir, 'doc.md');
     const sidecarPath = mgr.getSidecarPath(docPath);
 
-    fs.writeFileSync(sidecarPath, JSON.stringify({ doc: 'doc.md', version: '3.0', comments: [] }), 'utf-8');
+    fs.writeFileSync(sidecarPath, JSON.stringify({ doc: 'doc.md', version: 'beta', comments: [] }), 'utf-8');
 
     const result = await mgr.readSidecar(docPath);
     assert.strictEqual(result, null);
@@ -344,6 +551,124 @@ suite('SidecarManager Test Suite', () => {
     fs.rmSync(tmpDir, { recursive: true, force: true });
   });
 
+  test('readSidecar rejects sidecars from a newer schema', async () => {
+    const mgr = makeSidecar();
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sidecar-test-'));
+    const docPath = path.join(tmpDir, 'doc.md');
+    const sidecarPath = mgr.getSidecarPath(docPath);
+
+    fs.writeFileSync(sidecarPath, JSON.stringify({ doc: 'doc.md', version: '4.0', comments: [] }), 'utf-8');
+
+    await assert.rejects(
+      () => mgr.readSidecar(docPath),
+      (err: unknown) => err instanceof UnsupportedSidecarVersionError && err.sidecarPath === sidecarPath,
+    );
+    // The file must be left untouched
+    assert.ok(fs.readFileSync(sidecarPath, 'utf-8').includes('"4.0"'));
+
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('readSidecar upgrades a v1 section anchor using the document on disk', async () => {
+    const mgr = makeSidecar();
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sidecar-test-'));
+    const docPath = path.join(tmpDir, 'doc.md');
+    fs.writeFileSync(docPath, '# Intro\n\nHello\n\n## Setup\n\nSteps here\n', 'utf-8');
+    fs.writeFileSync(mgr.getSidecarPath(docPath), JSON.stringify({
+      doc: 'doc.md',
+      version: '1.0',
+      comments: [{
+        id: 't1',
+        anchor: { sectionSlug: 'setup', contentHash: 'abc', lineHint: 4 },
+        status: 'open',
+        isDraft: false,
+        thread: [{ id: 'c1', author: 'alice', body: 'Needs detail', created: '2025-01-01T00:00:00Z', edited: null }],
+      }],
+    }), 'utf-8');
+
+    const loaded = await mgr.readSidecar(docPath);
+    assert.ok(loaded);
+    assert.strictEqual(loaded!.version, '3.0');
+    assert.strictEqual(loaded!.comments[0].anchor.selectedText, 'Setup');
+    assert.strictEqual(loaded!.comments[0].anchor.markdownRange.startOffset, '# Intro\n\nHello\n\n## '.length);
+
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('readSidecar quarantines malformed threads and writes them back verbatim', async () => {
+    const mgr = makeSidecar();
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sidecar-test-'));
+    const docPath = path.join(tmpDir, 'doc.md');
+    const broken = { id: 'bad', status: 'open', anchor: { selectedText: 'x' }, thread: 'oops' };
+    fs.writeFileSync(mgr.getSidecarPath(docPath), JSON.stringify({
+      doc: 'doc.md',
+      version: '3.0',
+      comments: [{ id: 'good', ...threadStub() }, broken],
+    }), 'utf-8');
+
+    const events: { sidecarPath: string; errors: { path: string }[] }[] = [];
+    mgr.onDidValidate(e => events.push(e));
+
+    const loaded = await mgr.readSidecar(docPath);
+    assert.deepStrictEqual(loaded!.comments.map(t => t.id), ['good']);
+    assert.strictEqual(events.length, 1);
+    assert.strictEqual(events[0].sidecarPath, mgr.getSidecarPath(docPath));
+    assert.deepStrictEqual(events[0].errors.map(e => e.path), [
+      'comments[1].anchor.textContext',
+      'comments[1].anchor.markdownRange',
+      'comments[1].thread',
+    ]);
+
+    // Deleting every valid thread must not delete the quarantined one
+    loaded!.comments.splice(0);
+    await mgr.writeSidecar(docPath, loaded!);
+    const onDisk = JSON.parse(fs.readFileSync(mgr.getSidecarPath(docPath), 'utf-8'));
+    assert.deepStrictEqual(onDisk.comments, [broken]);
+
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('readSidecar reports unparseable JSON through onDidValidate', async () => {
+    const mgr = makeSidecar();
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sidecar-test-'));
+    const docPath = path.join(tmpDir, 'doc.md');
+    fs.writeFileSync(mgr.getSidecarPath(docPath), '{ "doc": ', 'utf-8');
+
+    const events: { errors: { path: string; message: string }[] }[] = [];
+    mgr.onDidValidate(e => events.push(e));
+
+    assert.strictEqual(await mgr.readSidecar(docPath), null);
+    assert.strictEqual(events[0].errors.length, 1);
+    assert.ok(events[0].errors[0].message.startsWith('could not be parsed'));
+
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('centralized storage writes into the mirrored tree and reads it back', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sidecar-test-'));
+    const mgr = new SidecarManager(() => ({ mode: 'centralized', directory: '.reviews', roots: [tmpDir] }));
+    const docPath = path.join(tmpDir, 'docs', 'guide.md');
+
+    const sc = emptySidecar('guide.md');
+    mgr.addThread(sc, threadStub());
+    await mgr.writeSidecar(docPath, sc);
+
+    const expected = path.join(tmpDir, '.reviews', 'docs', 'guide.comments.json');
+    assert.strictEqual(mgr.getSidecarPath(docPath), expected);
+    assert.ok(fs.existsSync(expected));
+    assert.ok(!fs.existsSync(path.join(tmpDir, 'docs', 'guide.comments.json')));
+    assert.strictEqual((await mgr.readSidecar(docPath))!.comments.length, 1);
+    assert.strictEqual(mgr.getDocPath(expected), docPath);
+
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('getDocPath inverts getSidecarPath', () => {
+    const mgr = makeSidecar();
+    const docPath = path.join('/repo', 'design', 'doc.md');
+    assert.strictEqual(mgr.getDocPath(mgr.getSidecarPath(docPath)), docPath);
+  });
+
   test('readSidecar returns null when comments is not an array', async () => {
     const mgr = makeSidecar();
     const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sidecar-test-'));
@@ -576,7 +901,7 @@ suite('SidecarManager Test Suite', () => {
     fs.rmSync(tmpDir, { recursive: true, force: true });
   });
 
-  test('deleteThread + writeSidecar deletes file when last thread removed', async () => {
+  test('purging the last tombstone + writeSidecar deletes the file', async () => {
     const mgr = makeSidecar();
     const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sidecar-test-'));
     const docPath = path.join(tmpDir, 'doc.md');
@@ -586,8 +911,13 @@ suite('SidecarManager Test Suite', () => {
     await mgr.writeSidecar(docPath, sc);
     assert.strictEqual(mgr.sidecarExists(docPath), true);
 
-    // Delete the only thread, then write
-    mgr.deleteThread(sc, thread.id);
+    // A deleted thread is kept as a tombstone
+    mgr.deleteThread(sc, thread.id, 'alice');
+    await mgr.writeSidecar(docPath, sc, 'preview');
+    assert.strictEqual(mgr.sidecarExists(docPath), true);
+
+    // Purging it leaves nothing to store
+    purgeTombstones(sc, new Date(Date.now() + 1000));
     await mgr.writeSidecar(docPath, sc, 'preview');
     assert.strictEqual(mgr.sidecarExists(docPath), false);
 
@@ -633,4 +963,73 @@ suite('SidecarManager Test Suite', () => {
 
     fs.rmSync(tmpDir, { recursive: true, force: true });
   });
+
+  // ── Optimistic locking ────────────────────────────────────────────
+
+  test('mutate merges a change written to disk between its read and write', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sidecar-test-'));
+    const mgr = makeSidecar();
+    const docPath = path.join(tmpDir, 'doc.md');
+    const sc = emptySidecar('doc.md');
+    const ours = mgr.addThread(sc, threadStub());
+    await mgr.writeSidecar(docPath, sc);
+
+    await mgr.mutate(docPath, sidecar => {
+      // Simulate a `git pull` landing mid-operation
+      const pulled = structuredClone(sc);
+      mgr.addThread(pulled, threadStub({ anchor: makeAnchor('pulled text', 0, 11) }));
+      fs.writeFileSync(mgr.getSidecarPath(docPath), JSON.stringify(pulled), 'utf-8');
+
+      mgr.addReply(sidecar, ours.id, { author: 'bob', body: 'Mine', created: new Date().toISOString(), edited: null });
+    });
+
+    const result = await mgr.readSidecar(docPath);
+    assert.strictEqual(result!.comments.length, 2);
+    assert.deepStrictEqual(result!.comments[0].thread.map(c => c.body).sort(), ['Looks good!', 'Mine']);
+    assert.strictEqual(result!.comments[1].anchor.selectedText, 'pulled text');
+
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('mutate never writes over a sidecar that could not be loaded', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sidecar-test-'));
+    const mgr = makeSidecar();
+    const docPath = path.join(tmpDir, 'doc.md');
+    const sc = emptySidecar('doc.md');
+    mgr.addThread(sc, threadStub());
+    const json = JSON.stringify(sc, null, 2);
+    // A merge left unresolved: both sides' versions, between conflict markers
+    const conflicted = `<<<<<<< HEAD\n${json}\n=======\n${json}\n>>>>>>> feature\n`;
+    fs.writeFileSync(mgr.getSidecarPath(docPath), conflicted, 'utf-8');
+
+    await assert.rejects(
+      mgr.mutate(docPath, sidecar => { mgr.addThread(sidecar, threadStub({ anchor: makeAnchor('new text', 0, 8) })); }),
+      UnreadableSidecarError,
+    );
+    assert.strictEqual(fs.readFileSync(mgr.getSidecarPath(docPath), 'utf-8'), conflicted);
+
+    // File-level validation failures are just as unloadable
+    const invalid = JSON.stringify({ ...sc, comments: 'none' });
+    fs.writeFileSync(mgr.getSidecarPath(docPath), invalid, 'utf-8');
+    await assert.rejects(mgr.mutate(docPath, () => undefined), UnreadableSidecarError);
+    assert.strictEqual(fs.readFileSync(mgr.getSidecarPath(docPath), 'utf-8'), invalid);
+
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('writeIfRevision refuses to overwrite a newer file', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sidecar-test-'));
+    const mgr = makeSidecar();
+    const docPath = path.join(tmpDir, 'doc.md');
+    const sc = emptySidecar('doc.md');
+    mgr.addThread(sc, threadStub());
+    await mgr.writeSidecar(docPath, sc);
+    const { revision } = await mgr.readRevisioned(docPath);
+
+    fs.writeFileSync(mgr.getSidecarPath(docPath), JSON.stringify({ ...sc, comments: [] }), 'utf-8');
+    assert.strictEqual(await mgr.writeIfRevision(docPath, sc, revision, 'preview'), false);
+    assert.strictEqual((await mgr.readSidecar(docPath))!.comments.length, 0);
+
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
 });
@@ -0,0 +1,240 @@
+import * as assert from 'assert';
+import { mergeSidecars } from '../../utils/sidecarMerge';
+import type { CommentEntry, CommentThread, SidecarFile } from '../../models/types';
+
+/** Helper: a comment entry with a predictable timestamp */
+function entry(id: string, created: string, overrides: Partial<CommentEntry> = {}): CommentEntry {
+  return { id, author: 'alice', body: `body of ${id}`, created, edited: null, ...overrides };
+}
+
+/** Helper: a thread with one opening comment */
+function thread(id: string, overrides: Partial<CommentThread> = {}): CommentThread {
+  return {
+    id,
+    anchor: {
+      selectedText: 'text',
+      textContext: { prefix: '', suffix: '' },
+      markdownRange: { startOffset: 0, endOffset: 4 },
+    },
+    status: 'open',
+    thread: [entry(`${id}-c1`, '2025-01-01T00:00:00Z')],
+    ...overrides,
+  };
+}
+
+function sidecar(...comments: CommentThread[]): SidecarFile {
+  return { doc: 'doc.md', version: '3.0', comments };
+}
+
+/** Deep clone so each side can be mutated independently of base */
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+suite('Sidecar Merge Test Suite', () => {
+  test('unions threads added on both sides', () => {
+    const base = sidecar(thread('a'));
+    const ours = sidecar(thread('a'), thread('b'));
+    const theirs = sidecar(thread('a'), thread('c'));
+
+    const merged = mergeSidecars(base, ours, theirs);
+    assert.deepStrictEqual(merged.comments.map(t => t.id), ['a', 'b', 'c']);
+  });
+
+  test('unions everything when there is no common ancestor', () => {
+    const merged = mergeSidecars(null, sidecar(thread('a')), sidecar(thread('b')));
+    assert.deepStrictEqual(merged.comments.map(t => t.id), ['a', 'b']);
+  });
+
+  test('unions replies ordered by created', () => {
+    const base = sidecar(thread('a'));
+    const ours = clone(base);
+    ours.comments[0].thread.push(entry('ours-reply', '2025-01-03T00:00:00Z'));
+    const theirs = clone(base);
+    theirs.comments[0].thread.push(entry('theirs-reply', '2025-01-02T00:00:00Z'));
+
+    const merged = mergeSidecars(base, ours, theirs);
+    assert.deepStrictEqual(merged.comments[0].thread.map(c => c.id), ['a-c1', 'theirs-reply', 'ours-reply']);
+  });
+
+  test('last writer wins on edited comments', () => {
+    const base = sidecar(thread('a'));
+    const ours = clone(base);
+    Object.assign(ours.comments[0].thread[0], { body: 'ours', edited: '2025-02-01T00:00:00Z' });
+    const theirs = clone(base);
+    Object.assign(theirs.comments[0].thread[0], { body: 'theirs', edited: '2025-02-02T00:00:00Z' });
+
+    const merged = mergeSidecars(base, ours, theirs);
+    assert.strictEqual(merged.comments[0].thread[0].body, 'theirs');
+    assert.strictEqual(merged.comments[0].thread[0].edited, '2025-02-02T00:00:00Z');
+
+    // Symmetric: an edit beats an untouched side regardless of which side it is on
+    const onlyOurs = mergeSidecars(base, ours, clone(base));
+    assert.strictEqual(onlyOurs.comments[0].thread[0].body, 'ours');
+  });
+
+  test('keeps the losing body of a concurrent edit in history', () => {
+    const base = sidecar(thread('a'));
+    const created = base.comments[0].thread[0].created;
+    const ours = clone(base);
+    Object.assign(ours.comments[0].thread[0], {
+      body: 'ours', edited: '2025-02-01T00:00:00Z', history: [{ body: 'body of a-c1', written: created }],
+    });
+    const theirs = clone(base);
+    Object.assign(theirs.comments[0].thread[0], {
+      body: 'theirs', edited: '2025-02-02T00:00:00Z', history: [{ body: 'body of a-c1', written: created }],
+    });
+
+    const merged = mergeSidecars(base, ours, theirs);
+    assert.strictEqual(merged.comments[0].thread[0].body, 'theirs');
+    assert.deepStrictEqual(merged.comments[0].thread[0].history, [
+      { body: 'body of a-c1', written: created },
+      { body: 'ours', written: '2025-02-01T00:00:00Z' },
+    ]);
+  });
+
+  test('takes an undone edit from the side that undid it', () => {
+    const base = sidecar(thread('a'));
+    Object.assign(base.comments[0].thread[0], {
+      body: 'edited', edited: '2025-02-01T00:00:00Z', history: [{ body: 'original', written: '2025-01-01T00:00:00Z' }],
+    });
+    const ours = clone(base);
+    Object.assign(ours.comments[0].thread[0], { body: 'original', edited: null });
+    delete ours.comments[0].thread[0].history;
+
+    const merged = mergeSidecars(base, ours, clone(base));
+    assert.strictEqual(merged.comments[0].thread[0].body, 'original');
+    assert.strictEqual(merged.comments[0].thread[0].edited, null);
+    assert.strictEqual('history' in merged.comments[0].thread[0], false);
+  });
+
+  test('unions reactions per emoji and keeps removals', () => {
+    const base = sidecar(thread('a'));
+    base.comments[0].thread[0].reactions = { '👍': ['bob', 'carol'] };
+    const ours = clone(base);
+    ours.comments[0].thread[0].reactions = { '👍': ['bob', 'carol', 'dave'] };
+    const theirs = clone(base);
+    theirs.comments[0].thread[0].reactions = { '👍': ['bob'], '🎉': ['erin'] };
+
+    const merged = mergeSidecars(base, ours, theirs);
+    assert.deepStrictEqual(merged.comments[0].thread[0].reactions, { '👍': ['bob', 'dave'], '🎉': ['erin'] });
+  });
+
+  test('drops reactions entirely when every emoji is removed', () => {
+    const base = sidecar(thread('a'));
+    base.comments[0].thread[0].reactions = { '👍': ['bob'] };
+    const ours = clone(base);
+    delete ours.comments[0].thread[0].reactions;
+
+    const merged = mergeSidecars(base, ours, clone(base));
+    assert.strictEqual('reactions' in merged.comments[0].thread[0], false);
+  });
+
+  test('a thread deleted on one side stays deleted if the other side did not touch it', () => {
+    const base = sidecar(thread('a'), thread('b'));
+    const ours = sidecar(thread('a'));
+
+    const merged = mergeSidecars(base, ours, clone(base));
+    assert.deepStrictEqual(merged.comments.map(t => t.id), ['a']);
+  });
+
+  test('a thread deleted on one side but replied to on the other is kept', () => {
+    const base = sidecar(thread('a'), thread('b'));
+    const ours = sidecar(thread('a'));
+    const theirs = clone(base);
+    theirs.comments[1].thread.push(entry('late-reply', '2025-01-05T00:00:00Z'));
+
+    const merged = mergeSidecars(base, ours, theirs);
+    assert.deepStrictEqual(merged.comments.map(t => t.id), ['a', 'b']);
+    assert.strictEqual(merged.comments[1].thread.length, 2);
+  });
+
+  test('a tombstoned thread stays deleted when the other side replied', () => {
+    const base = sidecar(thread('a'));
+    const ours = clone(base);
+    Object.assign(ours.comments[0], { deletedBy: 'alice', deletedAt: '2025-03-01T00:00:00Z' });
+    const theirs = clone(base);
+    theirs.comments[0].thread.push(entry('late-reply', '2025-01-05T00:00:00Z'));
+
+    const merged = mergeSidecars(base, ours, theirs);
+    assert.strictEqual(merged.comments[0].deletedBy, 'alice');
+    assert.strictEqual(merged.comments[0].deletedAt, '2025-03-01T00:00:00Z');
+    assert.strictEqual(merged.comments[0].thread.length, 2);
+  });
+
+  test('a comment restored on one side is restored in the merge', () => {
+    const base = sidecar(thread('a'));
+    Object.assign(base.comments[0].thread[0], { deletedBy: 'alice', deletedAt: '2025-03-01T00:00:00Z' });
+    const theirs = clone(base);
+    delete theirs.comments[0].thread[0].deletedBy;
+    delete theirs.comments[0].thread[0].deletedAt;
+
+    const merged = mergeSidecars(base, clone(base), theirs);
+    assert.strictEqual('deletedBy' in merged.comments[0].thread[0], false);
+    assert.strictEqual('deletedAt' in merged.comments[0].thread[0], false);
+  });
+
+  test('takes resolution from the side that changed it, as a unit', () => {
+    const base = sidecar(thread('a'));
+    const theirs = clone(base);
+    Object.assign(theirs.comments[0], { status: 'resolved', resolvedBy: 'bob', resolvedAt: '2025-03-01T00:00:00Z' });
+
+    const merged = mergeSidecars(base, clone(base), theirs);
+    assert.strictEqual(merged.comments[0].status, 'resolved');
+    assert.strictEqual(merged.comments[0].resolvedBy, 'bob');
+
+    // Reopened on our side after being resolved in base: the metadata goes away
+    const resolvedBase = clone(theirs);
+    const reopened = clone(resolvedBase);
+    reopened.comments[0].status = 'open';
+    delete reopened.comments[0].resolvedBy;
+    delete reopened.comments[0].resolvedAt;
+    const back = mergeSidecars(resolvedBase, reopened, clone(resolvedBase));
+    assert.strictEqual(back.comments[0].status, 'open');
+    assert.strictEqual('resolvedBy' in back.comments[0], false);
+  });
+
+  test('keeps earlier anchors from whichever side re-attached the thread', () => {
+    const base = sidecar(thread('a'));
+    const previous = base.comments[0].anchor;
+    const ours = clone(base);
+    ours.comments[0].anchorHistory = [{ anchor: previous, replacedBy: 'alice', replacedAt: '2025-02-01T00:00:00Z' }];
+    const theirs = clone(base);
+    theirs.comments[0].anchorHistory = [{ anchor: previous, replacedBy: 'bob', replacedAt: '2025-01-15T00:00:00Z' }];
+
+    assert.deepStrictEqual(mergeSidecars(base, ours, clone(base)).comments[0].anchorHistory, ours.comments[0].anchorHistory);
+    assert.deepStrictEqual(
+      mergeSidecars(base, ours, theirs).comments[0].anchorHistory!.map(r => r.replacedBy),
+      ['bob', 'alice'],
+    );
+
+    // Undone on our side while the other side left it alone: it stays gone
+    const undone = mergeSidecars(ours, clone(base), clone(ours));
+    assert.strictEqual('anchorHistory' in undone.comments[0], false);
+  });
+
+  test('merges both sides of an independent field change', () => {
+    const base = sidecar(thread('a'));
+    const ours = clone(base);
+    ours.comments[0].color = '#FF0000';
+    const theirs = clone(base);
+    theirs.comments[0].thread.push(entry('reply', '2025-01-02T00:00:00Z'));
+
+    const merged = mergeSidecars(base, ours, theirs);
+    assert.strictEqual(merged.comments[0].color, '#FF0000');
+    assert.strictEqual(merged.comments[0].thread.length, 2);
+  });
+
+  test('keeps an optional field that only one side set', () => {
+    const base = sidecar(thread('a'));
+    const colored = clone(base);
+    colored.comments[0].color = '#00FF00';
+
+    assert.strictEqual(mergeSidecars(base, clone(base), colored).comments[0].color, '#00FF00');
+    assert.strictEqual(mergeSidecars(base, colored, clone(base)).comments[0].color, '#00FF00');
+
+    // Cleared on one side while the other left it alone: it stays cleared
+    const cleared = mergeSidecars(colored, clone(colored), clone(base));
+    assert.strictEqual('color' in cleared.comments[0], false);
+  });
+});
@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import {
+  CURRENT_SIDECAR_VERSION,
+  DEFAULT_REACTION,
+  UnsupportedSidecarVersionError,
+  migrateSidecar,
+} from '../../utils/sidecarMigration';
+import type { SidecarFile } from '../../models/types';
+
+const DOC = `# Intro
+
+Hello world.
+
+## Setup
+
+Install things.
+`;
+
+function v1Sidecar(slug: string, lineHint?: number): Record<string, unknown> {
+  return {
+    doc: 'doc.md',
+    version: '1.0',
+    comments: [{
+      id: 't1',
+      anchor: { sectionSlug: slug, contentHash: 'deadbeef', lineHint },
+      status: 'open',
+      isDraft: true,
+      thread: [{ id: 'c1', author: 'alice', body: 'Hi', created: '2025-01-01T00:00:00Z', reactions: ['bob'] }],
+    }],
+  };
+}
+
+suite('Sidecar Migration Test Suite', () => {
+  test('v1 section anchors become text anchors on the heading', () => {
+    const { data, migrated } = migrateSidecar(v1Sidecar('setup'), { loadDocSource: () => DOC });
+    const sidecar = data as SidecarFile;
+
+    assert.strictEqual(migrated, true);
+    assert.strictEqual(sidecar.version, CURRENT_SIDECAR_VERSION);
+    const thread = sidecar.comments[0];
+    assert.strictEqual(thread.anchor.selectedText, 'Setup');
+    assert.strictEqual(DOC.slice(thread.anchor.markdownRange.startOffset, thread.anchor.markdownRange.endOffset), 'Setup');
+    assert.strictEqual('sectionSlug' in thread.anchor, false);
+    assert.strictEqual('isDraft' in thread, false);
+  });
+
+  test('v1 falls back to lineHint when the slug no longer matches', () => {
+    const { data } = migrateSidecar(v1Sidecar('old-setup-name', 4), { loadDocSource: () => DOC });
+    assert.strictEqual((data as SidecarFile).comments[0].anchor.selectedText, 'Setup');
+  });
+
+  test('v1 without the document source keeps the slug as selected text', () => {
+    const { data } = migrateSidecar(v1Sidecar('setup'), {});
+    const anchor = (data as SidecarFile).comments[0].anchor;
+    assert.strictEqual(anchor.selectedText, 'setup');
+    assert.deepStrictEqual(anchor.markdownRange, { startOffset: 0, endOffset: 0 });
+  });
+
+  test('v1 runs through every step up to the current version', () => {
+    const { data } = migrateSidecar(v1Sidecar('intro'), { loadDocSource: () => DOC });
+    const entry = (data as SidecarFile).comments[0].thread[0];
+    assert.deepStrictEqual(entry.reactions, { [DEFAULT_REACTION]: ['bob'] });
+  });
+
+  test('v2 string[] reactions become the emoji map; empty arrays are dropped', () => {
+    const input = {
+      doc: 'doc.md',
+      version: '2.0',
+      comments: [{
+        id: 't1',
+        anchor: { selectedText: 'x', textContext: { prefix: '', suffix: '' }, markdownRange: { startOffset: 0, endOffset: 1 } },
+        status: 'open',
+        thread: [
+          { id: 'c1', author: 'alice', body: 'a', created: '2025-01-01T00:00:00Z', reactions: ['bob', 'carol'] },
+          { id: 'c2', author: 'bob', body: 'b', created: '2025-01-01T00:00:00Z', reactions: [] },
+        ],
+      }],
+    };
+    const { data, migrated } = migrateSidecar(input);
+    const entries = (data as SidecarFile).comments[0].thread;
+
+    assert.strictEqual(migrated, true);
+    assert.deepStrictEqual(entries[0].reactions, { [DEFAULT_REACTION]: ['bob', 'carol'] });
+    assert.strictEqual(entries[1].reactions, undefined);
+  });
+
+  test('current-version sidecars pass through untouched', () => {
+    const input = { doc: 'doc.md', version: CURRENT_SIDECAR_VERSION, comments: [] };
+    const { data, migrated } = migrateSidecar(input);
+    assert.strictEqual(migrated, false);
+    assert.deepStrictEqual(data, { doc: 'doc.md', version: CURRENT_SIDECAR_VERSION, comments: [] });
+  });
+
+  test('newer schema versions throw UnsupportedSidecarVersionError', () => {
+    assert.throws(
+      () => migrateSidecar({ doc: 'doc.md', version: '4.0', comments: [] }),
+      (err: unknown) => err instanceof UnsupportedSidecarVersionError && err.version === '4.0',
+    );
+    assert.throws(() => migrateSidecar({ doc: 'doc.md', version: '3.1', comments: [] }), UnsupportedSidecarVersionError);
+  });
+
+  test('malformed input is returned as-is for validation to reject', () => {
+    assert.deepStrictEqual(migrateSidecar(null), { data: null, migrated: false });
+    assert.deepStrictEqual(migrateSidecar([1, 2]), { data: [1, 2], migrated: false });
+    assert.deepStrictEqual(migrateSidecar({ doc: 'x' }), { data: { doc: 'x' }, migrated: false });
+  });
+});
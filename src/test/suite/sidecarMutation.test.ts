@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import type { SidecarFile } from '../../models/types';
+import {
+  ConcurrentModificationError,
+  MutationQueue,
+  applyMutation,
+  type RevisionedAccess,
+  type RevisionedSidecar,
+} from '../../stores/sidecarMutation';
+import { addThread, createEmptySidecar } from '../../utils/sidecarOps';
+
+function thread(text: string) {
+  return {
+    anchor: { selectedText: text, textContext: { prefix: '', suffix: '' }, markdownRange: { startOffset: 0, endOffset: text.length } },
+    status: 'open' as const,
+    thread: [{ id: `${text}-1`, author: 'alice', body: text, created: '2025-01-01T00:00:00Z', edited: null }],
+  };
+}
+
+/** Revisioned access to one sidecar; `interfere` runs before every write attempt. */
+class FakeAccess implements RevisionedAccess {
+  revision = 0;
+  writes = 0;
+  interfere: (() => void) | undefined;
+
+  constructor(public stored: SidecarFile | null) {}
+
+  async readRevisioned(): Promise<RevisionedSidecar> {
+    return { sidecar: structuredClone(this.stored), revision: this.stored ? String(this.revision) : null };
+  }
+
+  async writeIfRevision(_docPath: string, sidecar: SidecarFile, expected: string | null): Promise<boolean> {
+    this.interfere?.();
+    if ((this.stored ? String(this.revision) : null) !== expected) { return false; }
+    this.stored = structuredClone(sidecar);
+    this.revision++;
+    this.writes++;
+    return true;
+  }
+
+  /** Someone else adds a thread. */
+  externalAdd(text: string): void {
+    this.stored ??= createEmptySidecar('doc.md');
+    addThread(this.stored, thread(text));
+    this.revision++;
+  }
+}
+
+suite('Sidecar Mutation Test Suite', () => {
+  test('creates the sidecar when there is none', async () => {
+    const access = new FakeAccess(null);
+    await applyMutation(access, '/repo/doc.md', sc => { addThread(sc, thread('a')); }, 'preview');
+
+    assert.strictEqual(access.stored!.doc, 'doc.md');
+    assert.strictEqual(access.stored!.comments.length, 1);
+  });
+
+  test('merges the edit onto a copy changed before the write', async () => {
+    const access = new FakeAccess(null);
+    access.externalAdd('a');
+    let interfered = false;
+    access.interfere = () => {
+      if (!interfered) { interfered = true; access.externalAdd('b'); }
+    };
+
+    const added = await applyMutation(access, '/repo/doc.md', sc => addThread(sc, thread('c')), 'preview');
+
+    assert.deepStrictEqual(access.stored!.comments.map(t => t.anchor.selectedText), ['a', 'c', 'b']);
+    assert.strictEqual(access.stored!.comments[1].id, added.id);
+    assert.strictEqual(access.writes, 1);
+  });
+
+  test('keeps a deletion when the other writer did not touch the thread', async () => {
+    const access = new FakeAccess(null);
+    access.externalAdd('a');
+    access.externalAdd('b');
+    let interfered = false;
+    access.interfere = () => {
+      if (!interfered) { interfered = true; access.externalAdd('c'); }
+    };
+
+    await applyMutation(access, '/repo/doc.md', sc => { sc.comments.splice(0, 1); }, 'preview');
+
+    assert.deepStrictEqual(access.stored!.comments.map(t => t.anchor.selectedText), ['b', 'c']);
+  });
+
+  test('gives up when the sidecar keeps changing', async () => {
+    const access = new FakeAccess(null);
+    access.externalAdd('a');
+    let n = 0;
+    access.interfere = () => access.externalAdd(`x${n++}`);
+
+    await assert.rejects(
+      applyMutation(access, '/repo/doc.md', sc => { addThread(sc, thread('c')); }, 'preview'),
+      ConcurrentModificationError,
+    );
+    assert.strictEqual(access.writes, 0);
+  });
+
+  test('MutationQueue runs tasks for one key in order and other keys independently', async () => {
+    const queue = new MutationQueue();
+    const order: string[] = [];
+    let releaseFirst!: () => void;
+    const first = queue.run('a', () => new Promise<void>(resolve => { releaseFirst = resolve; }).then(() => { order.push('a1'); }));
+    const second = queue.run('a', async () => { order.push('a2'); });
+    const other = queue.run('b', async () => { order.push('b1'); });
+
+    await other;
+    assert.deepStrictEqual(order, ['b1']);
+    releaseFirst();
+    await Promise.all([first, second]);
+    assert.deepStrictEqual(order, ['b1', 'a1', 'a2']);
+  });
+
+  test('MutationQueue keeps going after a failed task', async () => {
+    const queue = new MutationQueue();
+    await assert.rejects(queue.run('a', async () => { throw new Error('boom'); }), /boom/);
+    assert.strictEqual(await queue.run('a', async () => 42), 42);
+  });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+  ADJACENT_LAYOUT,
+  docPathFor,
+  planSidecarMoves,
+  sidecarGlob,
+  sidecarPathFor,
+  type StorageLayout,
+} from '../../utils/sidecarPaths';
+
+const ROOT = path.join(path.sep, 'repo');
+const CENTRALIZED: StorageLayout = { mode: 'centralized', directory: '.reviews', roots: [ROOT] };
+
+suite('Sidecar Paths Test Suite', () => {
+  test('adjacent layout puts the sidecar next to the document', () => {
+    const doc = path.join(ROOT, 'docs', 'guide.md');
+    assert.strictEqual(sidecarPathFor(doc, ADJACENT_LAYOUT), path.join(ROOT, 'docs', 'guide.comments.json'));
+  });
+
+  test('centralized layout mirrors the doc tree under the storage directory', () => {
+    const doc = path.join(ROOT, 'docs', 'api', 'guide.md');
+    assert.strictEqual(
+      sidecarPathFor(doc, CENTRALIZED),
+      path.join(ROOT, '.reviews', 'docs', 'api', 'guide.comments.json'),
+    );
+    assert.strictEqual(
+      sidecarPathFor(path.join(ROOT, 'README.md'), CENTRALIZED),
+      path.join(ROOT, '.reviews', 'README.comments.json'),
+    );
+  });
+
+  test('centralized layout falls back to adjacent outside every workspace root', () => {
+    const doc = path.join(path.sep, 'elsewhere', 'notes.md');
+    assert.strictEqual(sidecarPathFor(doc, CENTRALIZED), path.join(path.sep, 'elsewhere', 'notes.comments.json'));
+  });
+
+  test('centralized layout uses the deepest containing root', () => {
+    const nested = path.join(ROOT, 'packages', 'web');
+    const layout: StorageLayout = { ...CENTRALIZED, roots: [ROOT, nested] };
+    const doc = path.join(nested, 'docs', 'a.md');
+    assert.strictEqual(sidecarPathFor(doc, layout), path.join(nested, '.reviews', 'docs', 'a.comments.json'));
+  });
+
+  test('docPathFor inverts sidecarPathFor in both layouts', () => {
+    const doc = path.join(ROOT, 'docs', 'api', 'guide.md');
+    for (const layout of [ADJACENT_LAYOUT, CENTRALIZED]) {
+      assert.strictEqual(docPathFor(sidecarPathFor(doc, layout), layout), doc);
+    }
+  });
+
+  test('sidecarGlob follows the configured directory', () => {
+    assert.strictEqual(sidecarGlob(ADJACENT_LAYOUT), '**/*.comments.json');
+    assert.strictEqual(sidecarGlob(CENTRALIZED), '**/.reviews/**/*.comments.json');
+    assert.strictEqual(sidecarGlob({ ...CENTRALIZED, directory: './review\\data/' }), '**/review/data/**/*.comments.json');
+  });
+
+  test('planSidecarMoves moves existing sidecars and reports conflicts', () => {
+    const a = path.join(ROOT, 'a.md');
+    const b = path.join(ROOT, 'docs', 'b.md');
+    const c = path.join(ROOT, 'c.md');
+    const existing = new Set([
+      path.join(ROOT, 'a.comments.json'),
+      path.join(ROOT, 'docs', 'b.comments.json'),
+      path.join(ROOT, '.reviews', 'docs', 'b.comments.json'),
+    ]);
+
+    const plan = planSidecarMoves([a, b, c], ADJACENT_LAYOUT, CENTRALIZED, p => existing.has(p));
+    assert.deepStrictEqual(plan.moves, [
+      { from: path.join(ROOT, 'a.comments.json'), to: path.join(ROOT, '.reviews', 'a.comments.json') },
+    ]);
+    assert.deepStrictEqual(plan.conflicts, [b]);
+  });
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import Ajv from 'ajv';
+import { validateSidecar } from '../../utils/sidecarValidation';
+import { CURRENT_SIDECAR_VERSION } from '../../utils/sidecarMigration';
+
+// Compiled to out/test/suite — resolve back to the extension root
+const EXTENSION_ROOT = path.resolve(__dirname, '../../..');
+const SCHEMA_PATH = path.join(EXTENSION_ROOT, 'schemas', 'comments.schema.json');
+const FIXTURES = path.join(EXTENSION_ROOT, 'test', 'fixtures', 'sidecars');
+
+function loadFixtures(kind: 'valid' | 'invalid'): [string, unknown][] {
+  const dir = path.join(FIXTURES, kind);
+  return fs.readdirSync(dir)
+    .filter(f => f.endsWith('.json'))
+    .map(f => [f, JSON.parse(fs.readFileSync(path.join(dir, f), 'utf-8'))]);
+}
+
+suite('Sidecar JSON Schema Test Suite', () => {
+  const schema = JSON.parse(fs.readFileSync(SCHEMA_PATH, 'utf-8'));
+  const validateWithSchema = new Ajv({ allErrors: true }).compile(schema);
+
+  test('schema version matches the current sidecar version (run `npm run generate-schema` after bumping)', () => {
+    assert.strictEqual(schema.definitions.SidecarFile.properties.version.const, CURRENT_SIDECAR_VERSION);
+  });
+
+  test('fixtures exist', () => {
+    assert.ok(loadFixtures('valid').length > 0);
+    assert.ok(loadFixtures('invalid').length > 0);
+  });
+
+  for (const [name, data] of loadFixtures('valid')) {
+    test(`valid/${name} passes both the schema and the validator`, () => {
+      assert.ok(validateWithSchema(data), JSON.stringify(validateWithSchema.errors));
+      assert.deepStrictEqual(validateSidecar(data).errors, []);
+    });
+  }
+
+  for (const [name, data] of loadFixtures('invalid')) {
+    test(`invalid/${name} is rejected by both the schema and the validator`, () => {
+      assert.strictEqual(validateWithSchema(data), false, 'schema accepted it');
+      assert.ok(validateSidecar(data).errors.length > 0, 'validator accepted it');
+    });
+  }
+});
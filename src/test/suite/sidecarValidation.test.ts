@@ -0,0 +1,195 @@
+import * as assert from 'assert';
+import { validateSidecar, validateThread } from '../../utils/sidecarValidation';
+
+/** Helper: a thread that passes validation; override fields to break it */
+function validThread(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 't1',
+    anchor: {
+      selectedText: 'important text',
+      textContext: { prefix: 'before ', suffix: ' after' },
+      markdownRange: { startOffset: 10, endOffset: 24 },
+    },
+    status: 'open',
+    thread: [{ id: 'c1', author: 'alice', body: 'Hi', created: '2025-01-01T00:00:00Z', edited: null }],
+    ...overrides,
+  };
+}
+
+function sidecarWith(...comments: unknown[]): Record<string, unknown> {
+  return { doc: 'doc.md', version: '3.0', comments };
+}
+
+suite('Sidecar Validation Test Suite', () => {
+  test('accepts a fully populated valid sidecar', () => {
+    const thread = validThread({
+      color: '#FFD700',
+      status: 'resolved',
+      resolvedBy: 'bob',
+      resolvedAt: '2025-01-02T00:00:00Z',
+      thread: [{
+        id: 'c1', author: 'alice', body: 'Hi', created: '2025-01-01T00:00:00Z',
+        edited: '2025-01-01T01:00:00Z', reactions: { '👍': ['bob'] },
+        history: [{ body: 'Hello', written: '2025-01-01T00:00:00Z' }],
+      }, {
+        id: 'c2', author: 'bob', body: 'Gone', created: '2025-01-01T02:00:00Z', edited: null,
+        deletedBy: 'bob', deletedAt: '2025-01-01T03:00:00Z',
+      }],
+    });
+    const result = validateSidecar(sidecarWith(thread));
+
+    assert.deepStrictEqual(result.errors, []);
+    assert.deepStrictEqual(result.quarantined, []);
+    assert.strictEqual(result.sidecar!.comments.length, 1);
+  });
+
+  test('file-level errors make the sidecar unloadable', () => {
+    const result = validateSidecar({ version: '3.0', comments: 'nope' });
+
+    assert.strictEqual(result.sidecar, null);
+    assert.deepStrictEqual(result.errors.map(e => e.path), ['doc', 'comments']);
+  });
+
+  test('rejects non-object input', () => {
+    assert.strictEqual(validateSidecar([]).sidecar, null);
+    assert.strictEqual(validateSidecar('x').errors[0].path, '');
+  });
+
+  test('quarantines broken threads and keeps valid ones', () => {
+    const broken = validThread({ id: 't2', anchor: { selectedText: 'x', textContext: { prefix: '', suffix: '' } } });
+    const result = validateSidecar(sidecarWith(validThread(), broken));
+
+    assert.deepStrictEqual(result.sidecar!.comments.map(t => t.id), ['t1']);
+    assert.deepStrictEqual(result.quarantined, [broken]);
+    assert.deepStrictEqual(result.errors, [
+      { path: 'comments[1].anchor.markdownRange', message: 'is required', threadId: 't2' },
+    ]);
+  });
+
+  test('reports path-qualified errors for every bad field', () => {
+    const errors = validateThread({
+      id: 7,
+      status: 'closed',
+      anchor: {
+        selectedText: 'x',
+        textContext: { prefix: '' },
+        markdownRange: { startOffset: -1, endOffset: 'end' },
+      },
+      thread: [{ id: 'c1', author: 'a', created: 'now', edited: 3, reactions: { '👍': 'bob' } }],
+    }, 'comments[0]').map(e => e.path);
+
+    assert.deepStrictEqual(errors, [
+      'comments[0].id',
+      'comments[0].status',
+      'comments[0].anchor.textContext.suffix',
+      'comments[0].anchor.markdownRange.startOffset',
+      'comments[0].anchor.markdownRange.endOffset',
+      'comments[0].thread[0].body',
+      'comments[0].thread[0].edited',
+      'comments[0].thread[0].reactions["👍"]',
+    ]);
+  });
+
+  test('validates comment history and tombstones', () => {
+    const errors = validateThread(validThread({
+      deletedAt: 5,
+      thread: [
+        { id: 'c1', author: 'a', body: 'b', created: 'now', edited: null, history: [{ body: 'old' }, 'x'] },
+        { id: 'c2', author: 'a', body: 'b', created: 'now', edited: null, history: {}, deletedBy: null },
+      ],
+    }), 'comments[0]').map(e => e.path);
+
+    assert.deepStrictEqual(errors, [
+      'comments[0].deletedAt',
+      'comments[0].thread[0].history[0].written',
+      'comments[0].thread[0].history[1]',
+      'comments[0].thread[1].deletedBy',
+      'comments[0].thread[1].history',
+    ]);
+  });
+
+  test('validates how a relocated anchor was found', () => {
+    const relocated = validThread();
+    Object.assign(relocated.anchor as Record<string, unknown>, { strategy: 'fuzzy', confidence: 0.82 });
+    assert.deepStrictEqual(validateThread(relocated, 't'), []);
+
+    const broken = validThread();
+    Object.assign(broken.anchor as Record<string, unknown>, { strategy: 'guess', confidence: 1.5 });
+    assert.deepStrictEqual(validateThread(broken, 't').map(e => e.path), ['t.anchor.strategy', 't.anchor.confidence']);
+  });
+
+  test('validates section and block anchors', () => {
+    const section = validThread();
+    Object.assign(section.anchor as Record<string, unknown>, { kind: 'section', section: { slug: 'intro', contentHash: 'abc' } });
+    const block = validThread();
+    Object.assign(block.anchor as Record<string, unknown>, { kind: 'block', blockType: 'table' });
+    assert.deepStrictEqual(validateThread(section, 't'), []);
+    assert.deepStrictEqual(validateThread(block, 't'), []);
+
+    const noSection = validThread();
+    Object.assign(noSection.anchor as Record<string, unknown>, { kind: 'section' });
+    const badBlock = validThread();
+    Object.assign(badBlock.anchor as Record<string, unknown>, { kind: 'block', blockType: 'figure' });
+    const badKind = validThread();
+    Object.assign(badKind.anchor as Record<string, unknown>, { kind: 'page' });
+    assert.deepStrictEqual(validateThread(noSection, 't').map(e => e.path), ['t.anchor.section']);
+    assert.deepStrictEqual(validateThread(badBlock, 't').map(e => e.path), ['t.anchor.blockType']);
+    assert.deepStrictEqual(validateThread(badKind, 't').map(e => e.path), ['t.anchor.kind']);
+  });
+
+  test('validates image anchors and pins', () => {
+    const pinned = validThread();
+    Object.assign(pinned.anchor as Record<string, unknown>, {
+      kind: 'block', blockType: 'image', image: { src: 'a.png', alt: 'A' }, region: { x: 0.1, y: 0.2, width: 0.3, height: 0.4 },
+    });
+    assert.deepStrictEqual(validateThread(pinned, 't'), []);
+
+    const broken = validThread();
+    Object.assign(broken.anchor as Record<string, unknown>, {
+      kind: 'block', blockType: 'diagram', image: { src: 'a.png' }, region: { x: 1.5, width: 0.3 },
+    });
+    assert.deepStrictEqual(validateThread(broken, 't').map(e => e.path), ['t.anchor.image.alt', 't.anchor.region.x', 't.anchor.region.y']);
+  });
+
+  test('validates the earlier anchors of a re-attached thread', () => {
+    const previous = validThread().anchor;
+    assert.deepStrictEqual(validateThread(validThread({
+      anchorHistory: [{ anchor: previous, replacedBy: 'bob', replacedAt: '2025-01-02T00:00:00Z' }],
+    }), 't'), []);
+
+    const errors = validateThread(validThread({
+      anchorHistory: [{ anchor: { selectedText: 'x' }, replacedBy: 'bob' }, 'x'],
+    }), 't').map(e => e.path);
+    assert.deepStrictEqual(errors, [
+      't.anchorHistory[0].anchor.textContext',
+      't.anchorHistory[0].anchor.markdownRange',
+      't.anchorHistory[0].replacedAt',
+      't.anchorHistory[1]',
+    ]);
+    assert.strictEqual(validateThread(validThread({ anchorHistory: {} }), 't')[0].path, 't.anchorHistory');
+  });
+
+  test('a non-array thread is quarantined instead of crashing consumers', () => {
+    const result = validateSidecar(sidecarWith(validThread({ thread: 'oops' })));
+
+    assert.strictEqual(result.sidecar!.comments.length, 0);
+    assert.strictEqual(result.errors[0].path, 'comments[0].thread');
+    assert.strictEqual(result.errors[0].message, 'must be an array');
+  });
+
+  test('rejects empty threads and inverted ranges', () => {
+    assert.strictEqual(validateThread(validThread({ thread: [] }), 't')[0].message, 'must contain at least one comment');
+
+    const inverted = validThread();
+    (inverted.anchor as Record<string, unknown>).markdownRange = { startOffset: 20, endOffset: 5 };
+    assert.deepStrictEqual(validateThread(inverted, 't').map(e => e.path), ['t.anchor.markdownRange.endOffset']);
+  });
+
+  test('quarantines a thread whose id duplicates an earlier one', () => {
+    const result = validateSidecar(sidecarWith(validThread(), validThread()));
+
+    assert.strictEqual(result.sidecar!.comments.length, 1);
+    assert.strictEqual(result.quarantined.length, 1);
+    assert.strictEqual(result.errors[0].path, 'comments[1].id');
+  });
+});
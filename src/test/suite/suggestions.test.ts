@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import type { CommentThread } from '../../models/types';
+import { applySuggestions, canApplySuggestion } from '../../utils/suggestions';
+
+const SOURCE = 'The cache holds 100 entries and expires after 5 minutes.';
+
+/** A suggestion thread replacing `text` (its first occurrence in SOURCE) */
+function suggestion(id: string, text: string, replacement: string, overrides: Partial<CommentThread> = {}): CommentThread {
+  const start = SOURCE.indexOf(text);
+  return {
+    id,
+    anchor: {
+      selectedText: text,
+      textContext: { prefix: '', suffix: '' },
+      markdownRange: { startOffset: start, endOffset: start + text.length },
+    },
+    status: 'open',
+    thread: [{ id: `${id}-c1`, author: 'alice', body: 'Suggest', created: '2025-01-01T00:00:00Z', edited: null }],
+    suggestion: replacement,
+    ...overrides,
+  };
+}
+
+suite('Suggestions Test Suite', () => {
+  test('canApplySuggestion needs an open suggestion whose text is still in place', () => {
+    assert.strictEqual(canApplySuggestion(suggestion('a', '100', '500'), SOURCE), true);
+    assert.strictEqual(canApplySuggestion(suggestion('a', '100', '500'), SOURCE.replace('100', '200')), false);
+    assert.strictEqual(canApplySuggestion(suggestion('a', '100', '500', { status: 'resolved' }), SOURCE), false);
+    assert.strictEqual(canApplySuggestion(suggestion('a', '100', '500', { deletedAt: '2025-01-02T00:00:00Z' }), SOURCE), false);
+    const plain = suggestion('a', '100', '500');
+    delete plain.suggestion;
+    assert.strictEqual(canApplySuggestion(plain, SOURCE), false);
+  });
+
+  test('applySuggestions applies several suggestions in one pass, in any order', () => {
+    const threads = [suggestion('b', '5 minutes', '10 minutes'), suggestion('a', '100 ', '')];
+
+    const { text, applied, skipped } = applySuggestions(SOURCE, threads);
+    assert.strictEqual(text, 'The cache holds entries and expires after 10 minutes.');
+    assert.deepStrictEqual(applied.map(t => t.id), ['a', 'b']);
+    assert.deepStrictEqual(skipped, []);
+  });
+
+  test('applySuggestions skips overlapping and outdated suggestions', () => {
+    const threads = [
+      suggestion('a', '100 entries', '1,000 entries'),
+      suggestion('b', 'entries', 'items'),
+      suggestion('c', 'expires', 'expire', { anchor: { ...suggestion('c', 'expires', '').anchor, selectedText: 'expired' } }),
+    ];
+
+    const { text, applied, skipped } = applySuggestions(SOURCE, threads);
+    assert.strictEqual(text, 'The cache holds 1,000 entries and expires after 5 minutes.');
+    assert.deepStrictEqual(applied.map(t => t.id), ['a']);
+    assert.deepStrictEqual(skipped.map(t => t.id), ['b', 'c']);
+  });
+});
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { diffWords, trackedChanges } from '../../utils/trackChanges';
+
+/** Apply text changes to `before`, to check they really produce the edited text */
+function patch(before: string, changes: Array<{ start: number; end: number; replacement: string }>): string {
+  let text = '';
+  let copied = 0;
+  for (const change of changes) {
+    text += before.slice(copied, change.start) + change.replacement;
+    copied = change.end;
+  }
+  return text + before.slice(copied);
+}
+
+suite('Track Changes Test Suite', () => {
+  test('diffWords reports replaced and deleted words', () => {
+    const before = 'The cache holds 100 entries and expires after 5 minutes.';
+    const after = 'The cache holds 500 entries and expires after 5 minutes.';
+    assert.deepStrictEqual(diffWords(before, after), [{ start: 16, end: 19, replacement: '500' }]);
+
+    const deleted = 'The cache holds entries and expires after 5 minutes.';
+    const changes = diffWords(before, deleted) ?? [];
+    assert.strictEqual(changes.length, 1);
+    assert.strictEqual(patch(before, changes), deleted);
+  });
+
+  test('diffWords widens insertions to a neighbouring word', () => {
+    const before = 'Expires after 5 minutes.';
+    assert.deepStrictEqual(diffWords(before, 'Expires after about 5 minutes.'), [
+      { start: 8, end: 14, replacement: 'after about ' },
+    ]);
+    assert.deepStrictEqual(diffWords('expires soon', 'usually expires soon'), [
+      { start: 0, end: 7, replacement: 'usually expires' },
+    ]);
+    assert.strictEqual(diffWords('', 'New text'), null);
+  });
+
+  test('diffWords keeps separate edits separate, and merges ones that touch', () => {
+    const before = 'one two three four five six';
+    const after = 'one 2 three four five 6';
+    assert.deepStrictEqual(diffWords(before, after), [
+      { start: 4, end: 7, replacement: '2' },
+      { start: 24, end: 27, replacement: '6' },
+    ]);
+
+    const touching = 'one 2 extra three four five six';
+    const changes = diffWords(before, touching) ?? [];
+    assert.strictEqual(changes.length, 1);
+    assert.strictEqual(patch(before, changes), touching);
+  });
+
+  test('trackedChanges maps rendered edits to the source of their block', () => {
+    const source = '# Cache\n\nThe cache holds 100 entries.\n\nIt holds **100** entries at most.\n';
+    const first = trackedChanges(source, {
+      startLine: 2, endLine: 3, before: 'The cache holds 100 entries.', after: 'The cache holds 500 entries.',
+    });
+    const start = source.indexOf('100');
+    assert.deepStrictEqual(first, {
+      changes: [{ startOffset: start, endOffset: start + 3, original: '100', replacement: '500' }],
+      unmapped: 0,
+    });
+
+    // The same text in a later block, partly inside emphasis: the markup is replaced too
+    const second = trackedChanges(source, {
+      startLine: 4, endLine: 5, before: 'It holds 100 entries at most.', after: 'It holds many at most.',
+    });
+    assert.deepStrictEqual(second.changes.map(c => source.slice(c.startOffset, c.endOffset)), ['**100** entries']);
+    assert.strictEqual(second.changes[0].replacement, 'many');
+  });
+
+  test('trackedChanges counts edits it cannot find in the source', () => {
+    const source = 'Say "hello" to everyone.\n';
+    const result = trackedChanges(source, {
+      startLine: 0, endLine: 1, before: 'Say “hello” to everyone.', after: 'Say “hi” to everyone.',
+    });
+    assert.deepStrictEqual(result, { changes: [], unmapped: 1 });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Invertible comment operations — the unit of undo/redo. Each operation
+ * carries enough state to apply it and to build its inverse, and
+ * {@link applyOperation} refuses to apply one whose preconditions no longer
+ * hold (say, a comment edited by someone else since), so undo never silently
+ * overwrites another change.
+ */
+import { isDeepStrictEqual } from 'util';
+import type { AnchorRevision, CommentAnchor, CommentEntry, CommentThread, SidecarFile, ThreadStatus } from '../models/types';
+
+/** The fields resolve / reopen change together. */
+export interface ThreadResolution {
+  status: ThreadStatus;
+  resolvedBy?: string;
+  resolvedAt?: string;
+}
+
+/** The fields re-anchoring changes together. */
+export interface ThreadAnchoring {
+  anchor: CommentAnchor;
+  status: ThreadStatus;
+  anchorHistory?: AnchorRevision[];
+}
+
+/** The fields a soft delete sets, and a restore clears. */
+export interface Tombstone {
+  deletedBy: string;
+  deletedAt: string;
+}
+
+/** The fields an edit changes together. */
+export type CommentText = Pick<CommentEntry, 'body' | 'edited' | 'history'>;
+
+/**
+ * `add*` / `remove*` insert and drop items outright (adding, and undoing an
+ * add while the item is still exactly as added); `delete*` / `restore*` set
+ * and clear tombstones.
+ */
+export type CommentOperation =
+  | { kind: 'addThread'; thread: CommentThread; index: number }
+  | { kind: 'removeThread'; thread: CommentThread; index: number }
+  | { kind: 'addComment'; threadId: string; entry: CommentEntry; index: number }
+  | { kind: 'removeComment'; threadId: string; entry: CommentEntry; index: number }
+  | { kind: 'deleteThread'; threadId: string; tombstone: Tombstone }
+  | { kind: 'restoreThread'; threadId: string; tombstone: Tombstone }
+  /** `lastInThread`: the thread's last live comment, so the thread is deleted with it */
+  | { kind: 'deleteComment'; threadId: string; commentId: string; tombstone: Tombstone; lastInThread: boolean }
+  | { kind: 'restoreComment'; threadId: string; commentId: string; tombstone: Tombstone; lastInThread: boolean }
+  | { kind: 'editComment'; threadId: string; commentId: string; before: CommentText; after: CommentText }
+  | { kind: 'reaction'; threadId: string; commentId: string; author: string; emoji: string; added: boolean }
+  | { kind: 'setResolution'; threadId: string; before: ThreadResolution; after: ThreadResolution }
+  | { kind: 'setAnchor'; threadId: string; before: ThreadAnchoring; after: ThreadAnchoring };
+
+/**
+ * The operation that undoes `op`
+ */
+export function invertOperation(op: CommentOperation): CommentOperation {
+  switch (op.kind) {
+    case 'addThread': return { ...op, kind: 'removeThread' };
+    case 'removeThread': return { ...op, kind: 'addThread' };
+    case 'addComment': return { ...op, kind: 'removeComment' };
+    case 'removeComment': return { ...op, kind: 'addComment' };
+    case 'deleteThread': return { ...op, kind: 'restoreThread' };
+    case 'restoreThread': return { ...op, kind: 'deleteThread' };
+    case 'deleteComment': return { ...op, kind: 'restoreComment' };
+    case 'restoreComment': return { ...op, kind: 'deleteComment' };
+    case 'editComment': return { ...op, before: op.after, after: op.before };
+    case 'reaction': return { ...op, added: !op.added };
+    case 'setResolution': return { ...op, before: op.after, after: op.before };
+    case 'setAnchor': return { ...op, before: op.after, after: op.before };
+  }
+}
+
+/**
+ * Apply an operation to a sidecar in place. Returns false, leaving the
+ * sidecar untouched, when its target is gone or has changed since the
+ * operation was recorded.
+ */
+export function applyOperation(sidecar: SidecarFile, op: CommentOperation): boolean {
+  switch (op.kind) {
+    case 'addThread': {
+      if (sidecar.comments.some(t => t.id === op.thread.id)) { return false; }
+      sidecar.comments.splice(Math.min(op.index, sidecar.comments.length), 0, structuredClone(op.thread));
+      return true;
+    }
+    case 'removeThread': {
+      // Only the thread as it was added: a reply or edit since would be lost with it
+      const index = sidecar.comments.findIndex(t => t.id === op.thread.id);
+      if (index === -1 || !isDeepStrictEqual(sidecar.comments[index], op.thread)) { return false; }
+      sidecar.comments.splice(index, 1);
+      return true;
+    }
+    case 'addComment': {
+      const thread = sidecar.comments.find(t => t.id === op.threadId);
+      if (!thread || thread.thread.some(c => c.id === op.entry.id)) { return false; }
+      thread.thread.splice(Math.min(op.index, thread.thread.length), 0, structuredClone(op.entry));
+      return true;
+    }
+    case 'removeComment': {
+      const thread = sidecar.comments.find(t => t.id === op.threadId);
+      const index = thread?.thread.findIndex(c => c.id === op.entry.id) ?? -1;
+      // A thread needs at least one comment; removing the last one is a removeThread
+      if (!thread || index === -1 || thread.thread.length === 1) { return false; }
+      if (!isDeepStrictEqual(thread.thread[index], op.entry)) { return false; }
+      thread.thread.splice(index, 1);
+      return true;
+    }
+    case 'deleteThread': {
+      const thread = sidecar.comments.find(t => t.id === op.threadId);
+      if (!thread || thread.deletedAt !== undefined) { return false; }
+      Object.assign(thread, op.tombstone);
+      return true;
+    }
+    case 'restoreThread': {
+      const thread = sidecar.comments.find(t => t.id === op.threadId);
+      if (!thread || !isDeepStrictEqual(tombstoneOf(thread), op.tombstone)) { return false; }
+      clearTombstone(thread);
+      return true;
+    }
+    case 'deleteComment': {
+      const thread = sidecar.comments.find(t => t.id === op.threadId);
+      const entry = thread?.thread.find(c => c.id === op.commentId);
+      if (!thread || !entry || entry.deletedAt !== undefined) { return false; }
+      if (op.lastInThread && thread.deletedAt !== undefined) { return false; }
+      Object.assign(entry, op.tombstone);
+      if (op.lastInThread) { Object.assign(thread, op.tombstone); }
+      return true;
+    }
+    case 'restoreComment': {
+      const thread = sidecar.comments.find(t => t.id === op.threadId);
+      const entry = thread?.thread.find(c => c.id === op.commentId);
+      if (!thread || !entry || !isDeepStrictEqual(tombstoneOf(entry), op.tombstone)) { return false; }
+      if (op.lastInThread && !isDeepStrictEqual(tombstoneOf(thread), op.tombstone)) { return false; }
+      clearTombstone(entry);
+      if (op.lastInThread) { clearTombstone(thread); }
+      return true;
+    }
+    case 'editComment': {
+      const entry = findEntry(sidecar, op.threadId, op.commentId);
+      if (!entry || entry.deletedAt !== undefined || !isDeepStrictEqual(textOf(entry), op.before)) { return false; }
+      entry.body = op.after.body;
+      entry.edited = op.after.edited;
+      delete entry.history;
+      if (op.after.history !== undefined) { entry.history = structuredClone(op.after.history); }
+      return true;
+    }
+    case 'reaction': {
+      const entry = findEntry(sidecar, op.threadId, op.commentId);
+      const authors = entry?.reactions?.[op.emoji] ?? [];
+      if (!entry || authors.includes(op.author) === op.added) { return false; }
+      const next = op.added ? [...authors, op.author] : authors.filter(a => a !== op.author);
+      entry.reactions = { ...entry.reactions, [op.emoji]: next };
+      if (next.length === 0) { delete entry.reactions[op.emoji]; }
+      if (Object.keys(entry.reactions).length === 0) { delete entry.reactions; }
+      return true;
+    }
+    case 'setResolution': {
+      const thread = sidecar.comments.find(t => t.id === op.threadId);
+      if (!thread || !isDeepStrictEqual(resolutionOf(thread), op.before)) { return false; }
+      delete thread.resolvedBy;
+      delete thread.resolvedAt;
+      Object.assign(thread, op.after);
+      return true;
+    }
+    case 'setAnchor': {
+      const thread = sidecar.comments.find(t => t.id === op.threadId);
+      if (!thread || !isDeepStrictEqual(anchoringOf(thread), op.before)) { return false; }
+      thread.anchor = structuredClone(op.after.anchor);
+      thread.status = op.after.status;
+      delete thread.anchorHistory;
+      if (op.after.anchorHistory !== undefined) { thread.anchorHistory = structuredClone(op.after.anchorHistory); }
+      return true;
+    }
+  }
+}
+
+/**
+ * A thread's resolve / reopen state, without unset fields
+ */
+export function resolutionOf(thread: CommentThread): ThreadResolution {
+  const resolution: ThreadResolution = { status: thread.status };
+  if (thread.resolvedBy !== undefined) { resolution.resolvedBy = thread.resolvedBy; }
+  if (thread.resolvedAt !== undefined) { resolution.resolvedAt = thread.resolvedAt; }
+  return resolution;
+}
+
+/**
+ * A thread's anchor, status and `anchorHistory`, without unset fields
+ */
+export function anchoringOf(thread: CommentThread): ThreadAnchoring {
+  const anchoring: ThreadAnchoring = { anchor: thread.anchor, status: thread.status };
+  if (thread.anchorHistory !== undefined) { anchoring.anchorHistory = thread.anchorHistory; }
+  return anchoring;
+}
+
+/**
+ * An entry's body, `edited` and `history`, without unset fields
+ */
+export function textOf(entry: CommentEntry): CommentText {
+  const text: CommentText = { body: entry.body, edited: entry.edited };
+  if (entry.history !== undefined) { text.history = entry.history; }
+  return text;
+}
+
+/**
+ * Short user-facing description, e.g. for "Undid delete thread"
+ */
+export function describeOperation(op: CommentOperation): string {
+  switch (op.kind) {
+    case 'addThread': return 'add comment';
+    case 'removeThread': return 'remove comment';
+    case 'addComment': return 'reply';
+    case 'removeComment': return 'remove reply';
+    case 'deleteThread': return 'delete thread';
+    case 'restoreThread': return 'restore thread';
+    case 'deleteComment': return 'delete comment';
+    case 'restoreComment': return 'restore comment';
+    case 'editComment': return 'edit comment';
+    case 'reaction': return op.added ? 'add reaction' : 'remove reaction';
+    case 'setResolution': return op.after.status === 'resolved' ? 'resolve thread' : 'reopen thread';
+    case 'setAnchor': return op.before.status === 'stale' ? 're-attach comment' : 're-anchor comment';
+  }
+}
+
+function tombstoneOf(item: CommentThread | CommentEntry): Partial<Tombstone> {
+  const tombstone: Partial<Tombstone> = {};
+  if (item.deletedBy !== undefined) { tombstone.deletedBy = item.deletedBy; }
+  if (item.deletedAt !== undefined) { tombstone.deletedAt = item.deletedAt; }
+  return tombstone;
+}
+
+function clearTombstone(item: CommentThread | CommentEntry): void {
+  delete item.deletedBy;
+  delete item.deletedAt;
+}
+
+function findEntry(sidecar: SidecarFile, threadId: string, commentId: string): CommentEntry | undefined {
+  return sidecar.comments.find(t => t.id === threadId)?.thread.find(c => c.id === commentId);
+}
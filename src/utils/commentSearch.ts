@@ -0,0 +1,115 @@
+/**
+ * Search and filters for comment threads across every document in the
+ * workspace. Pure helpers, so the Comments view's matching can be tested
+ * without the editor.
+ */
+import type { CommentEntry, CommentThread, ThreadStatus } from '../models/types';
+import { isDeleted } from './sidecarOps';
+
+/** What the Comments view shows; unset fields do not filter */
+export interface CommentFilter {
+  /** Words that must all appear in the thread's comments, in any case */
+  query?: string;
+  /** Threads with a comment by any of these authors */
+  authors?: string[];
+  statuses?: ThreadStatus[];
+  /** Threads with a comment written on or after this day (`YYYY-MM-DD`) */
+  since?: string;
+  /** Threads with a comment written on or before this day (`YYYY-MM-DD`) */
+  until?: string;
+  /** Documents in this folder, relative to the workspace, with `/` separators */
+  folder?: string;
+  /** Threads with a comment that mentions this user (see {@link mentions}) */
+  mentioning?: string;
+}
+
+/** A thread found in the workspace, with the document it belongs to */
+export interface IndexedThread {
+  /** Absolute path of the markdown document */
+  docPath: string;
+  /** The document's path relative to the workspace, with `/` separators */
+  relativePath: string;
+  thread: CommentThread;
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Whether `body` mentions `user`: `@` followed by their name, in any case,
+ * with or without the spaces in it (`@Jane Doe` or `@janedoe`).
+ */
+export function mentions(body: string, user: string): boolean {
+  const name = user.trim().toLowerCase();
+  if (!name) { return false; }
+  const text = body.toLowerCase();
+  return [name, name.replace(/\s+/g, '')].some(form => {
+    for (let at = text.indexOf('@' + form); at !== -1; at = text.indexOf('@' + form, at + 1)) {
+      // A whole name, not the start of a longer one; `.` and `-` only
+      // continue it when a letter or digit follows (`@alice.b`, not `@alice.`)
+      const rest = text.slice(at + form.length + 1);
+      if (!/^(?:[\p{L}\p{N}_]|[.-][\p{L}\p{N}])/u.test(rest)) { return true; }
+    }
+    return false;
+  });
+}
+
+/**
+ * Whether an indexed thread passes every filter that is set. Deleted
+ * comments take no part.
+ */
+export function matchesFilter(item: IndexedThread, filter: CommentFilter): boolean {
+  const { authors, since, until, mentioning } = filter;
+  const comments = item.thread.thread.filter(c => !isDeleted(c));
+  const some = (test: (c: CommentEntry) => boolean) => comments.some(test);
+
+  if (filter.statuses && !filter.statuses.includes(item.thread.status)) { return false; }
+  if (filter.folder && !isInFolder(item.relativePath, filter.folder)) { return false; }
+  if (authors && !some(c => authors.includes(c.author))) { return false; }
+  if ((since || until) && !some(c => {
+    const day = c.created.slice(0, 10);
+    return (!since || day >= since) && (!until || day <= until);
+  })) { return false; }
+  if (mentioning && !some(c => mentions(c.body, mentioning))) { return false; }
+  if (filter.query) {
+    const text = comments.map(c => c.body).join('\n').toLowerCase();
+    if (!filter.query.trim().toLowerCase().split(/\s+/).every(word => text.includes(word))) { return false; }
+  }
+  return true;
+}
+
+/**
+ * Parse a date range typed as `YYYY-MM-DD..YYYY-MM-DD`; either end may be
+ * left out (`2025-01-01..` or `..2025-03-31`), and a single day stands for
+ * itself. Null when the text is not a range or its ends are out of order.
+ */
+export function parseDateRange(text: string): { since?: string; until?: string } | null {
+  const parts = text.trim().split('..').map(s => s.trim());
+  if (parts.length > 2) { return null; }
+  const [since, until = since] = parts;
+  if ((since && !DAY.test(since)) || (until && !DAY.test(until)) || (!since && !until)) { return null; }
+  if (since && until && since > until) { return null; }
+  const range: { since?: string; until?: string } = {};
+  if (since) { range.since = since; }
+  if (until) { range.until = until; }
+  return range;
+}
+
+/**
+ * Short summary of the filters that are set, e.g. `"cache" · open · by alice`;
+ * empty when none are.
+ */
+export function describeFilter(filter: CommentFilter): string {
+  const parts: string[] = [];
+  if (filter.query) { parts.push(`"${filter.query}"`); }
+  if (filter.statuses) { parts.push(filter.statuses.join(', ')); }
+  if (filter.authors) { parts.push(`by ${filter.authors.join(', ')}`); }
+  if (filter.since || filter.until) { parts.push(`${filter.since ?? ''}..${filter.until ?? ''}`); }
+  if (filter.folder) { parts.push(`in ${filter.folder}`); }
+  if (filter.mentioning) { parts.push('mentions me'); }
+  return parts.join(' · ');
+}
+
+function isInFolder(relativePath: string, folder: string): boolean {
+  const prefix = folder.replace(/^\/+|\/+$/g, '');
+  return prefix === '' || relativePath.startsWith(prefix + '/');
+}
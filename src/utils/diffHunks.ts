@@ -0,0 +1,63 @@
+/**
+ * Line changes between two versions of a file, as reported by `git diff`.
+ */
+
+/** One changed block, in `git diff` line numbers (1-based) */
+export interface DiffHunk {
+  /** First removed line; for a pure insertion, the line it follows */
+  oldStart: number;
+  /** Number of removed lines */
+  oldLines: number;
+  /** First added line; for a pure deletion, the line it follows */
+  newStart: number;
+  /** Number of added lines */
+  newLines: number;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/gm;
+
+/**
+ * Hunks of a unified diff, in order. Context lines are ignored, so the diff
+ * should be produced with `--unified=0` for the hunks to cover changed lines only.
+ */
+export function parseDiffHunks(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  for (const match of diff.matchAll(HUNK_HEADER)) {
+    hunks.push({
+      oldStart: Number(match[1]),
+      oldLines: match[2] === undefined ? 1 : Number(match[2]),
+      newStart: Number(match[3]),
+      newLines: match[4] === undefined ? 1 : Number(match[4]),
+    });
+  }
+  return hunks;
+}
+
+/** A line position in the new version of a file */
+interface MappedLine {
+  line: number;
+  /** False when the line was rewritten, so columns on it no longer mean anything */
+  exact: boolean;
+}
+
+/**
+ * Where a 0-based line of the old version ended up in the new one. A line
+ * inside a changed block maps to the first (`'start'`) or last (`'end'`)
+ * line of its replacement; null when the block was deleted outright.
+ */
+export function mapLine(hunks: DiffHunk[], line: number, side: 'start' | 'end'): MappedLine | null {
+  let shift = 0;
+  for (const hunk of hunks) {
+    // 0-based, half-open line ranges; a zero-length range sits before line `start`
+    const oldStart = hunk.oldLines > 0 ? hunk.oldStart - 1 : hunk.oldStart;
+    const newStart = hunk.newLines > 0 ? hunk.newStart - 1 : hunk.newStart;
+    const oldEnd = oldStart + hunk.oldLines;
+    if (line < oldStart) { break; }
+    if (line < oldEnd) {
+      if (hunk.newLines === 0) { return null; }
+      return { line: side === 'start' ? newStart : newStart + hunk.newLines - 1, exact: false };
+    }
+    shift = newStart + hunk.newLines - oldEnd;
+  }
+  return { line: line + shift, exact: true };
+}
@@ -0,0 +1,115 @@
+/**
+ * Approximate string matching, used to re-anchor comments whose text was
+ * edited slightly (a typo fix, a changed word) since they were created.
+ */
+
+/** A region of the searched text that approximately matches a pattern. */
+export interface ApproximateMatch {
+  /** Start offset (inclusive) */
+  start: number;
+  /** End offset (exclusive) */
+  end: number;
+  /** Edit distance between the pattern and `text.slice(start, end)` */
+  distance: number;
+}
+
+/**
+ * Find the regions of `text` within `maxErrors` edits (insertions, deletions,
+ * substitutions) of `pattern`, in order. Overlapping hits are collapsed to
+ * the closest one, so each returned match is a distinct occurrence.
+ *
+ * Sellers' algorithm with Ukkonen's cut-off: only rows that can still stay
+ * within `maxErrors` are computed, which keeps the cost near
+ * O(maxErrors × text.length) instead of O(pattern.length × text.length).
+ */
+export function findApproximateMatches(pattern: string, text: string, maxErrors: number): ApproximateMatch[] {
+  const m = pattern.length;
+  if (m === 0 || maxErrors < 0) { return []; }
+
+  // One column of the edit-distance table: cost[i] is the fewest edits
+  // between pattern[0, i) and some text ending at the current position,
+  // and from[i] is where that stretch of text starts.
+  const cost = Array.from({ length: m + 1 }, (_, i) => i);
+  const from = new Array<number>(m + 1).fill(0);
+  // Deepest row still within maxErrors; rows below it are treated as
+  // maxErrors + 1, which cannot change any result within the limit.
+  let active = Math.min(maxErrors, m);
+  const hits: ApproximateMatch[] = [];
+
+  for (let j = 0; j < text.length; j++) {
+    const ch = text[j];
+    let diag = 0;
+    let diagFrom = j;
+    let left = 0;
+    let leftFrom = j + 1;
+    const rows = Math.min(active + 1, m);
+    for (let i = 1; i <= rows; i++) {
+      const up = i <= active ? cost[i] : maxErrors + 1;
+      const upFrom = from[i];
+      let best = diag + (pattern[i - 1] === ch ? 0 : 1);
+      let bestFrom = diagFrom;
+      if (up + 1 < best) {
+        best = up + 1;
+        bestFrom = upFrom;
+      }
+      if (left + 1 < best) {
+        best = left + 1;
+        bestFrom = leftFrom;
+      }
+      diag = up;
+      diagFrom = upFrom;
+      cost[i] = best;
+      from[i] = bestFrom;
+      left = best;
+      leftFrom = bestFrom;
+    }
+    active = rows;
+    while (active > 0 && cost[active] > maxErrors) { active--; }
+
+    if (active === m) {
+      addHit(hits, { start: from[m], end: j + 1, distance: cost[m] }, m);
+    }
+  }
+  return hits;
+}
+
+/** Keep one hit per occurrence: the closest, then the one nearest the pattern's length. */
+function addHit(hits: ApproximateMatch[], hit: ApproximateMatch, patternLength: number): void {
+  const last = hits[hits.length - 1];
+  if (!last || hit.start >= last.end) {
+    hits.push(hit);
+    return;
+  }
+  const lengthError = (h: ApproximateMatch) => Math.abs(h.end - h.start - patternLength);
+  if (hit.distance < last.distance || (hit.distance === last.distance && lengthError(hit) < lengthError(last))) {
+    hits[hits.length - 1] = hit;
+  }
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) { return 0; }
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+        previous[j] + 1,
+        current[j - 1] + 1,
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity in [0, 1]: 1 for identical strings, 0 for nothing in common
+ */
+export function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
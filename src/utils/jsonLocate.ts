@@ -0,0 +1,110 @@
+/**
+ * Locate values inside JSON source text by path, for pointing diagnostics at
+ * the right line. Paths use the format produced by the sidecar validator:
+ * `comments[2].thread[0].reactions["👍"]`.
+ */
+
+/** Character offsets of a value in the source text. */
+export interface JsonSpan {
+  start: number;
+  end: number;
+}
+
+/** Split a validator path into object keys and array indices. */
+export function parseJsonPath(path: string): (string | number)[] {
+  const segments: (string | number)[] = [];
+  const re = /([A-Za-z_$][\w$]*)|\[(\d+)\]|\[("(?:[^"\\]|\\.)*")\]/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(path)) !== null) {
+    if (m[1] !== undefined) {
+      segments.push(m[1]);
+    } else if (m[2] !== undefined) {
+      segments.push(Number(m[2]));
+    } else {
+      segments.push(JSON.parse(m[3]) as string);
+    }
+  }
+  return segments;
+}
+
+/**
+ * Find the span of the value at `path`. When the full path does not exist
+ * (e.g. a missing required key) the deepest existing ancestor is returned.
+ * Returns undefined only when the text is not valid JSON.
+ */
+export function locateJsonPath(text: string, path: string): JsonSpan | undefined {
+  const segments = parseJsonPath(path);
+  let best: JsonSpan & { depth: number } = { start: 0, end: 0, depth: -1 };
+  let pos = 0;
+
+  const skipWs = () => {
+    while (pos < text.length && /\s/.test(text[pos])) { pos++; }
+  };
+  const expect = (ch: string) => {
+    if (text[pos] !== ch) { throw new Error(`Expected ${ch} at ${pos}`); }
+    pos++;
+  };
+  const readString = (): string => {
+    const start = pos;
+    expect('"');
+    while (pos < text.length && text[pos] !== '"') {
+      pos += text[pos] === '\\' ? 2 : 1;
+    }
+    expect('"');
+    return JSON.parse(text.slice(start, pos)) as string;
+  };
+
+  const parseValue = (depth: number, onPath: boolean): void => {
+    skipWs();
+    const start = pos;
+    const childOnPath = (segment: string | number) =>
+      onPath && depth < segments.length && segments[depth] === segment;
+
+    if (text[pos] === '{') {
+      pos++;
+      skipWs();
+      if (text[pos] !== '}') {
+        for (;;) {
+          skipWs();
+          const key = readString();
+          skipWs();
+          expect(':');
+          parseValue(depth + 1, childOnPath(key));
+          skipWs();
+          if (text[pos] === ',') { pos++; continue; }
+          break;
+        }
+      }
+      expect('}');
+    } else if (text[pos] === '[') {
+      pos++;
+      skipWs();
+      if (text[pos] !== ']') {
+        for (let index = 0; ; index++) {
+          parseValue(depth + 1, childOnPath(index));
+          skipWs();
+          if (text[pos] === ',') { pos++; continue; }
+          break;
+        }
+      }
+      expect(']');
+    } else if (text[pos] === '"') {
+      readString();
+    } else {
+      const m = /^[^,\]}\s]+/.exec(text.slice(pos, pos + 64));
+      if (!m) { throw new Error(`Unexpected token at ${pos}`); }
+      pos += m[0].length;
+    }
+
+    if (onPath && depth > best.depth) {
+      best = { start, end: pos, depth };
+    }
+  };
+
+  try {
+    parseValue(0, true);
+  } catch {
+    return undefined;
+  }
+  return { start: best.start, end: best.end };
+}
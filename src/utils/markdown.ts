@@ -1,4 +1,4 @@
-import type { MarkdownSection } from '../models/types';
+import type { ImageRef, MarkdownSection } from '../models/types';
 import { computeContentHash, slugify } from './hash';
 
 /**
@@ -98,6 +98,162 @@ export function hasContentDrifted(section: MarkdownSection, storedHash: string):
   return section.contentHash !== storedHash;
 }
 
+/** A fenced (``` or ~~~) code block in the markdown source */
+export interface FencedCodeBlock {
+  /** First word of the info string; empty when there is none */
+  language: string;
+  /** 0-based line of the opening fence; code line `i` is source line `openLine + 1 + i` */
+  openLine: number;
+  /** Number of code lines between the fences */
+  lineCount: number;
+}
+
+/**
+ * The fenced code blocks of a markdown document, in order. A fence left
+ * open runs to the end of the document.
+ */
+export function parseFencedCodeBlocks(source: string): FencedCodeBlock[] {
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  const blocks: FencedCodeBlock[] = [];
+  let open: { block: FencedCodeBlock; fence: string } | null = null;
+
+  lines.forEach((line, i) => {
+    if (open) {
+      const close = line.match(/^\s*(`{3,}|~{3,})\s*$/);
+      if (close && close[1][0] === open.fence[0] && close[1].length >= open.fence.length) {
+        open = null;
+      } else {
+        open.block.lineCount++;
+      }
+      return;
+    }
+    const opening = line.match(/^\s*(`{3,}|~{3,})\s*([^\s`]*)/);
+    if (opening) {
+      open = { block: { language: opening[2], openLine: i, lineCount: 0 }, fence: opening[1] };
+      blocks.push(open.block);
+    }
+  });
+  return blocks;
+}
+
+/** One cell of a GFM table; `start` / `end` bound its text, without surrounding spaces */
+export interface TableCell {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** One row of a GFM table */
+export interface TableRow {
+  /** 0-based source line */
+  line: number;
+  cells: TableCell[];
+}
+
+/** A GFM table: the header row, then the body rows. The delimiter row is left out. */
+export interface MarkdownTable {
+  rows: TableRow[];
+}
+
+const TABLE_DELIMITER = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+/**
+ * The GFM tables of a markdown document, in order, outside fenced code. A
+ * table needs a delimiter row with as many cells as its header; it ends at
+ * the first blank line or line without a `|`. Rows are cut to the header's
+ * width, as the preview renders them.
+ */
+export function parseMarkdownTables(source: string): MarkdownTable[] {
+  const lines = source.split('\n');
+  const starts: number[] = [];
+  lines.reduce((offset, line) => { starts.push(offset); return offset + line.length + 1; }, 0);
+  const code = new Set<number>();
+  for (const block of parseFencedCodeBlocks(source)) {
+    for (let line = block.openLine; line <= block.openLine + block.lineCount + 1; line++) { code.add(line); }
+  }
+  const isRow = (line: number) => line < lines.length && !code.has(line) && !!lines[line].trim() && lines[line].includes('|');
+
+  const tables: MarkdownTable[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (!isRow(i) || !isRow(i + 1) || !TABLE_DELIMITER.test(lines[i + 1])) { continue; }
+    const header = tableRow(source, starts[i], lines[i], i);
+    if (header.cells.length !== tableRow(source, starts[i + 1], lines[i + 1], i + 1).cells.length) { continue; }
+    const table: MarkdownTable = { rows: [header] };
+    for (i += 2; isRow(i); i++) {
+      const row = tableRow(source, starts[i], lines[i], i);
+      table.rows.push({ line: i, cells: row.cells.slice(0, header.cells.length) });
+    }
+    tables.push(table);
+  }
+  return tables;
+}
+
+/** Split a table row on its unescaped pipes, leaving out the optional outer ones */
+function tableRow(source: string, lineStart: number, line: string, lineNumber: number): TableRow {
+  const pipes: number[] = [];
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '\\') { i++; } else if (line[i] === '|') { pipes.push(i); }
+  }
+  const first = line.length - line.trimStart().length;
+  const last = line.trimEnd().length - 1;
+  const bounds = [pipes[0] === first ? first : -1, ...pipes.filter(p => p !== first && p !== last)];
+  bounds.push(pipes[pipes.length - 1] === last ? last : line.length);
+
+  const cells: TableCell[] = [];
+  for (let k = 0; k + 1 < bounds.length; k++) {
+    const raw = line.slice(bounds[k] + 1, bounds[k + 1]);
+    const start = lineStart + bounds[k] + 1 + (raw.length - raw.trimStart().length);
+    const text = raw.trim();
+    cells.push({ text, start, end: start + text.length });
+  }
+  return { line: lineNumber, cells };
+}
+
+/**
+ * Inline (`![alt](src "title")`) or reference (`![alt][ref]`) image syntax.
+ * The preview finds images with the same pattern, so keep the two in step.
+ */
+const IMAGE_SYNTAX = /!\[([^\]]*)\](?:\(\s*<?([^)\s>]*)>?[^)]*\)|\[[^\]]*\])?/g;
+
+/** An image written in the markdown source */
+export interface ImageSyntax extends ImageRef {
+  /** Start offset of the `![` (inclusive) */
+  start: number;
+  /** End offset (exclusive) */
+  end: number;
+}
+
+/**
+ * The `index`-th image written on 0-based `line` of `source`
+ */
+export function findImageSyntax(source: string, line: number, index: number): ImageSyntax | undefined {
+  const lines = source.split('\n');
+  if (line < 0 || line >= lines.length) { return undefined; }
+  const lineStart = lines.slice(0, line).reduce((sum, text) => sum + text.length + 1, 0);
+  const match = [...lines[line].matchAll(IMAGE_SYNTAX)][index];
+  if (!match) { return undefined; }
+  const start = lineStart + match.index!;
+  return { start, end: start + match[0].length, src: match[2] ?? '', alt: match[1] };
+}
+
+/**
+ * Where the image written at `offset` is: its 0-based line, and how many
+ * images come before it on that line
+ */
+export function imagePosition(source: string, offset: number): { line: number; index: number } {
+  const before = source.slice(0, offset);
+  const lineText = before.slice(before.lastIndexOf('\n') + 1);
+  return { line: before.split('\n').length - 1, index: [...lineText.matchAll(IMAGE_SYNTAX)].length };
+}
+
+/**
+ * The `src` and alt text of `text` when it is exactly one image
+ */
+export function parseImageSyntax(text: string): ImageRef | undefined {
+  const match = new RegExp(`^${IMAGE_SYNTAX.source}$`).exec(text);
+  return match ? { src: match[2] ?? '', alt: match[1] } : undefined;
+}
+
 /**
  * Find selected text (from rendered HTML) in raw markdown.
  *
@@ -0,0 +1,31 @@
+/** Name of the git merge driver (`merge.<name>.driver` / `merge=<name>`). */
+export const MERGE_DRIVER_NAME = 'markdown-review';
+
+/** The `.gitattributes` pattern routed through the driver. */
+export const MERGE_ATTRIBUTE_PATTERN = '*.comments.json';
+
+/**
+ * Build the `merge.<name>.driver` command line for the bundled script.
+ * Forward slashes keep it valid for the POSIX shell git uses on every
+ * platform (including Git for Windows).
+ */
+export function buildDriverCommand(scriptPath: string): string {
+  return `node "${scriptPath.replace(/\\/g, '/')}" %O %A %B %P`;
+}
+
+/**
+ * Return `.gitattributes` content with the sidecar merge rule appended, or
+ * null when an equivalent rule is already present.
+ */
+export function addMergeAttribute(content: string): string | null {
+  const alreadyPresent = content.split(/\r?\n/).some(line => {
+    const [pattern, ...attrs] = line.trim().split(/\s+/);
+    return pattern === MERGE_ATTRIBUTE_PATTERN && attrs.includes(`merge=${MERGE_DRIVER_NAME}`);
+  });
+  if (alreadyPresent) {
+    return null;
+  }
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const separator = content.length === 0 || content.endsWith('\n') ? '' : eol;
+  return `${content}${separator}${MERGE_ATTRIBUTE_PATTERN} merge=${MERGE_DRIVER_NAME}${eol}`;
+}
@@ -0,0 +1,206 @@
+import { isDeepStrictEqual } from 'util';
+import type { AnchorRevision, CommentEntry, CommentReactions, CommentRevision, CommentThread, SidecarFile } from '../models/types';
+import { CURRENT_SIDECAR_VERSION } from './sidecarMigration';
+import { currentRevision } from './sidecarOps';
+
+/**
+ * Three-way merge of sidecar files, keyed by thread and comment `id`.
+ *
+ * - Threads and replies are unioned. An item deleted on one side is dropped
+ *   only if the other side left it untouched; otherwise the edit wins.
+ * - Replies are ordered by `created` (then `id`, so the order is stable).
+ * - Comment bodies are last-writer-wins on `edited` when both sides edited;
+ *   the losing body is kept in `history`, and both histories are unioned.
+ * - Reactions are merged per emoji as sets.
+ * - Earlier anchors of a re-attached thread are unioned when both sides
+ *   re-attached it.
+ * - Deletion tombstones (`deletedBy` + `deletedAt`) are fields like any other,
+ *   so a deleted thread stays deleted even if the other side replied to it.
+ * - Other thread fields take whichever side changed them; when both sides
+ *   changed a field differently, `ours` wins.
+ *
+ * `base` is null when the two sides have no common ancestor (both added the
+ * file), in which case everything is a plain union.
+ */
+export function mergeSidecars(base: SidecarFile | null, ours: SidecarFile, theirs: SidecarFile): SidecarFile {
+  return {
+    doc: pick(base !== null, base?.doc, ours.doc, theirs.doc),
+    version: CURRENT_SIDECAR_VERSION,
+    comments: mergeById(base?.comments, ours.comments, theirs.comments, mergeThread),
+  };
+}
+
+function mergeThread(base: CommentThread | undefined, ours: CommentThread, theirs: CommentThread): CommentThread {
+  // Resolution fields move together so we never mix one side's status with the other's resolver
+  const resolution = pick(
+    base !== undefined,
+    base && resolutionOf(base),
+    resolutionOf(ours),
+    resolutionOf(theirs),
+  );
+  const merged: CommentThread = {
+    ...ours,
+    anchor: pick(base !== undefined, base?.anchor, ours.anchor, theirs.anchor),
+    status: resolution.status,
+    thread: mergeById(base?.thread, ours.thread, theirs.thread, mergeEntry)
+      .sort((a, b) => a.created.localeCompare(b.created) || a.id.localeCompare(b.id)),
+  };
+  assignOptional(merged, 'anchorHistory', mergeAnchorHistory(base, ours, theirs));
+  assignOptional(merged, 'color', pick(base !== undefined, base?.color, ours.color, theirs.color));
+  assignOptional(merged, 'resolvedBy', resolution.resolvedBy);
+  assignOptional(merged, 'resolvedAt', resolution.resolvedAt);
+  assignTombstone(merged, pick(base !== undefined, base && tombstoneOf(base), tombstoneOf(ours), tombstoneOf(theirs)));
+  return merged;
+}
+
+function resolutionOf(thread: CommentThread): Pick<CommentThread, 'status' | 'resolvedBy' | 'resolvedAt'> {
+  return { status: thread.status, resolvedBy: thread.resolvedBy, resolvedAt: thread.resolvedAt };
+}
+
+type Tombstone = Pick<CommentThread, 'deletedBy' | 'deletedAt'>;
+
+function tombstoneOf(item: CommentThread | CommentEntry): Tombstone {
+  return { deletedBy: item.deletedBy, deletedAt: item.deletedAt };
+}
+
+function assignTombstone(target: CommentThread | CommentEntry, tombstone: Tombstone): void {
+  assignOptional(target, 'deletedBy', tombstone.deletedBy);
+  assignOptional(target, 'deletedAt', tombstone.deletedAt);
+}
+
+function mergeEntry(base: CommentEntry | undefined, ours: CommentEntry, theirs: CommentEntry): CommentEntry {
+  const merged: CommentEntry = { ...ours, ...mergeText(base, ours, theirs) };
+  assignOptional(merged, 'history', merged.history);
+  assignOptional(merged, 'reactions', mergeReactions(base?.reactions, ours.reactions, theirs.reactions));
+  assignTombstone(merged, pick(base !== undefined, base && tombstoneOf(base), tombstoneOf(ours), tombstoneOf(theirs)));
+  return merged;
+}
+
+type EntryText = Pick<CommentEntry, 'body' | 'edited' | 'history'>;
+
+function textOf(entry: CommentEntry): EntryText {
+  return { body: entry.body, edited: entry.edited, history: entry.history };
+}
+
+/**
+ * Body, `edited` and `history` move together. When only one side changed
+ * them (an edit, or an undo of one), that side wins outright. When both
+ * edited, the last writer wins on `edited` (an unedited side always loses)
+ * and the other body joins the history.
+ */
+function mergeText(base: CommentEntry | undefined, ours: CommentEntry, theirs: CommentEntry): EntryText {
+  const changed = (side: CommentEntry) => !base || !isDeepStrictEqual(textOf(base), textOf(side));
+  if (!changed(ours) || !changed(theirs) || isDeepStrictEqual(textOf(ours), textOf(theirs))) {
+    return pick(base !== undefined, base && textOf(base), textOf(ours), textOf(theirs));
+  }
+
+  const latest = (theirs.edited ?? '') > (ours.edited ?? '') ? theirs : ours;
+  const keyOf = (r: CommentRevision) => JSON.stringify([r.written, r.body]);
+  const seen = new Set([keyOf(currentRevision(latest))]);
+  const history = [...ours.history ?? [], ...theirs.history ?? [], currentRevision(ours), currentRevision(theirs)]
+    .filter(r => !seen.has(keyOf(r)) && !!seen.add(keyOf(r)))
+    .sort((a, b) => a.written.localeCompare(b.written));
+  return { body: latest.body, edited: latest.edited, history: history.length > 0 ? history : undefined };
+}
+
+/**
+ * Earlier anchors: the side that changed them wins (a re-attach, or an undo
+ * of one); when both did, the union, oldest first.
+ */
+function mergeAnchorHistory(
+  base: CommentThread | undefined,
+  ours: CommentThread,
+  theirs: CommentThread,
+): AnchorRevision[] | undefined {
+  const changed = (side: CommentThread) => !base || !isDeepStrictEqual(base.anchorHistory, side.anchorHistory);
+  if (!changed(ours)) { return theirs.anchorHistory; }
+  if (!changed(theirs)) { return ours.anchorHistory; }
+  const seen = new Set<string>();
+  const history = [...ours.anchorHistory ?? [], ...theirs.anchorHistory ?? []]
+    .filter(r => !seen.has(JSON.stringify(r)) && !!seen.add(JSON.stringify(r)))
+    .sort((a, b) => a.replacedAt.localeCompare(b.replacedAt));
+  return history.length > 0 ? history : undefined;
+}
+
+function mergeReactions(
+  base: CommentReactions | undefined,
+  ours: CommentReactions | undefined,
+  theirs: CommentReactions | undefined,
+): CommentReactions | undefined {
+  const result: CommentReactions = {};
+  const emojis = new Set([...Object.keys(ours ?? {}), ...Object.keys(theirs ?? {})]);
+  for (const emoji of emojis) {
+    const authors = mergeSet(base?.[emoji], ours?.[emoji] ?? [], theirs?.[emoji] ?? []);
+    if (authors.length > 0) {
+      result[emoji] = authors;
+    }
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Three-way set merge: keep what both sides have, plus whatever either side
+ * added since `base`. Without a base this is a plain union.
+ */
+function mergeSet(base: string[] | undefined, ours: string[], theirs: string[]): string[] {
+  const inBase = new Set(base ?? []);
+  const inOurs = new Set(ours);
+  const inTheirs = new Set(theirs);
+  const keep = (x: string) => (inOurs.has(x) && inTheirs.has(x)) || !inBase.has(x);
+  return [...new Set([...ours, ...theirs])].filter(keep);
+}
+
+/**
+ * Merge two lists of identified items against their common ancestor.
+ * Keeps `ours` order, with items only `theirs` has appended in their order.
+ */
+function mergeById<T extends { id: string }>(
+  base: T[] | undefined,
+  ours: T[],
+  theirs: T[],
+  mergeItem: (base: T | undefined, ours: T, theirs: T) => T,
+): T[] {
+  const baseById = new Map((base ?? []).map(item => [item.id, item]));
+  const theirsById = new Map(theirs.map(item => [item.id, item]));
+  const oursIds = new Set(ours.map(item => item.id));
+  const result: T[] = [];
+
+  for (const item of ours) {
+    const other = theirsById.get(item.id);
+    const ancestor = baseById.get(item.id);
+    if (other) {
+      result.push(mergeItem(ancestor, item, other));
+    } else if (!ancestor || !isDeepStrictEqual(ancestor, item)) {
+      // Added by us, or deleted by them after we changed it — keep ours
+      result.push(item);
+    }
+  }
+  for (const item of theirs) {
+    if (oursIds.has(item.id)) { continue; }
+    const ancestor = baseById.get(item.id);
+    if (!ancestor || !isDeepStrictEqual(ancestor, item)) {
+      result.push(item);
+    }
+  }
+  return result;
+}
+
+/**
+ * Take the side that changed relative to base; `ours` wins a true conflict.
+ * `hasBase` says whether the item existed in base, so that an optional
+ * field it did not set (`base` undefined) still counts as its base value.
+ */
+function pick<T>(hasBase: boolean, base: T | undefined, ours: T, theirs: T): T {
+  if (isDeepStrictEqual(ours, theirs)) { return ours; }
+  if (hasBase && isDeepStrictEqual(ours, base)) { return theirs; }
+  return ours;
+}
+
+/** Set an optional property, removing the key entirely when the value is undefined. */
+function assignOptional<T extends object, K extends keyof T>(target: T, key: K, value: T[K] | undefined): void {
+  if (value === undefined) {
+    delete target[key];
+  } else {
+    target[key] = value;
+  }
+}
@@ -0,0 +1,177 @@
+import type { CommentAnchor } from '../models/types';
+import { AnchorEngine } from '../anchorEngine';
+import { findSectionByLine, findSectionBySlug, parseMarkdownSections } from './markdown';
+
+/** Schema version written by this build of the extension. */
+export const CURRENT_SIDECAR_VERSION = '3.0';
+
+/** Reaction used when no emoji is specified (the original thumbs-up). */
+export const DEFAULT_REACTION = '\u{1F44D}';
+
+/**
+ * Thrown when a sidecar declares a schema version newer than this build
+ * understands. Callers must not treat the file as absent — writing a fresh
+ * sidecar over it would destroy the newer data.
+ */
+export class UnsupportedSidecarVersionError extends Error {
+  constructor(
+    public readonly version: string,
+    public readonly sidecarPath?: string,
+  ) {
+    super(
+      `${sidecarPath ? sidecarPath + ' uses' : 'Sidecar uses'} schema version ${version}, ` +
+      `which is newer than this extension supports (${CURRENT_SIDECAR_VERSION}). ` +
+      'Update the extension to view or edit these comments.',
+    );
+    this.name = 'UnsupportedSidecarVersionError';
+  }
+}
+
+/** Extra inputs some migration steps need. */
+export interface MigrationContext {
+  /**
+   * Lazily load the markdown source the sidecar belongs to. Needed to turn
+   * v1 section anchors into v2 text ranges; may return undefined when the
+   * document is unavailable.
+   */
+  loadDocSource?: () => string | undefined;
+}
+
+type RawSidecar = Record<string, unknown>;
+
+interface MigrationStep {
+  from: string;
+  to: string;
+  migrate(data: RawSidecar, ctx: MigrationContext): void;
+}
+
+/**
+ * Ordered migration chain. Each step upgrades a sidecar in place by exactly
+ * one schema version; `migrateSidecar` runs them back to back.
+ */
+const MIGRATIONS: MigrationStep[] = [
+  { from: '1.0', to: '2.0', migrate: migrateV1ToV2 },
+  { from: '2.0', to: '3.0', migrate: migrateV2ToV3 },
+];
+
+/**
+ * Upgrade parsed sidecar JSON to {@link CURRENT_SIDECAR_VERSION}, in place.
+ *
+ * Unknown or malformed input is returned untouched so structural validation
+ * can reject it. Throws {@link UnsupportedSidecarVersionError} when the file
+ * was written by a newer schema.
+ *
+ * @returns The (possibly mutated) data and whether any step ran.
+ */
+export function migrateSidecar(data: unknown, ctx: MigrationContext = {}): { data: unknown; migrated: boolean } {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { data, migrated: false };
+  }
+  const sidecar = data as RawSidecar;
+  if (typeof sidecar.version !== 'string') {
+    return { data, migrated: false };
+  }
+  if (isNewerVersion(sidecar.version)) {
+    throw new UnsupportedSidecarVersionError(sidecar.version);
+  }
+
+  let migrated = false;
+  for (const step of MIGRATIONS) {
+    if (sidecar.version === step.from) {
+      step.migrate(sidecar, ctx);
+      sidecar.version = step.to;
+      migrated = true;
+    }
+  }
+  return { data: sidecar, migrated };
+}
+
+/** True when `version` is a well-formed `major.minor` newer than the current schema. */
+function isNewerVersion(version: string): boolean {
+  const parse = (v: string): [number, number] | null => {
+    const m = /^(\d+)\.(\d+)$/.exec(v);
+    return m ? [Number(m[1]), Number(m[2])] : null;
+  };
+  const given = parse(version);
+  const current = parse(CURRENT_SIDECAR_VERSION)!;
+  if (!given) { return false; }
+  return given[0] > current[0] || (given[0] === current[0] && given[1] > current[1]);
+}
+
+function eachThread(sidecar: RawSidecar, fn: (thread: RawSidecar) => void): void {
+  if (!Array.isArray(sidecar.comments)) { return; }
+  for (const thread of sidecar.comments) {
+    if (thread && typeof thread === 'object') {
+      fn(thread as RawSidecar);
+    }
+  }
+}
+
+/**
+ * v1 → v2: section anchors (`sectionSlug` / `contentHash` / `lineHint`)
+ * become text-range anchors on the section heading. Sections that can no
+ * longer be found keep the slug as their selected text so the thread shows
+ * up as stale instead of disappearing. The unused `isDraft` flag is dropped.
+ */
+function migrateV1ToV2(sidecar: RawSidecar, ctx: MigrationContext): void {
+  let source: string | undefined;
+  let sourceLoaded = false;
+  const getSource = (): string | undefined => {
+    if (!sourceLoaded) {
+      source = ctx.loadDocSource?.()?.replace(/\r\n/g, '\n');
+      sourceLoaded = true;
+    }
+    return source;
+  };
+
+  eachThread(sidecar, thread => {
+    delete thread.isDraft;
+    const anchor = thread.anchor as Record<string, unknown> | undefined;
+    if (!anchor || typeof anchor !== 'object' || typeof anchor.sectionSlug !== 'string') {
+      return;
+    }
+    const lineHint = typeof anchor.lineHint === 'number' ? anchor.lineHint : undefined;
+    thread.anchor = sectionAnchorToTextAnchor(anchor.sectionSlug, lineHint, getSource());
+  });
+}
+
+function sectionAnchorToTextAnchor(slug: string, lineHint: number | undefined, source: string | undefined): CommentAnchor {
+  if (source !== undefined) {
+    const sections = parseMarkdownSections(source);
+    const section = findSectionBySlug(sections, slug)
+      ?? (lineHint !== undefined ? findSectionByLine(sections, lineHint) : undefined);
+    if (section) {
+      const lines = source.split('\n');
+      let lineStart = 0;
+      for (let i = 0; i < section.startLine; i++) {
+        lineStart += lines[i].length + 1;
+      }
+      const start = lineStart + lines[section.startLine].indexOf(section.heading);
+      return new AnchorEngine().createAnchor(section.heading, start, start + section.heading.length, source);
+    }
+  }
+  return {
+    selectedText: slug,
+    textContext: { prefix: '', suffix: '' },
+    markdownRange: { startOffset: 0, endOffset: 0 },
+  };
+}
+
+/**
+ * v2 → v3: thumbs-up-only `reactions: string[]` becomes the emoji map
+ * `{ "👍": [...] }`. Empty legacy arrays are removed.
+ */
+function migrateV2ToV3(sidecar: RawSidecar): void {
+  eachThread(sidecar, thread => {
+    if (!Array.isArray(thread.thread)) { return; }
+    for (const entry of thread.thread as RawSidecar[]) {
+      if (!entry || !Array.isArray(entry.reactions)) { continue; }
+      const authors = (entry.reactions as unknown[]).filter((a): a is string => typeof a === 'string');
+      if (authors.length > 0) {
+        entry.reactions = { [DEFAULT_REACTION]: authors };
+      } else {
+        delete entry.reactions;
+      }
+    }
+  });
+}
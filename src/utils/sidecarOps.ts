@@ -0,0 +1,212 @@
+/**
+ * Pure edits on an in-memory {@link SidecarFile}. They never touch storage:
+ * read through a `CommentStore`, apply one of these, then write it back.
+ */
+import type { SidecarFile, CommentThread, CommentEntry, CommentRevision } from '../models/types';
+import { v4 as uuidv4 } from 'uuid';
+import { CURRENT_SIDECAR_VERSION, DEFAULT_REACTION } from './sidecarMigration';
+
+/**
+ * Create a new empty sidecar file
+ */
+export function createEmptySidecar(docName: string): SidecarFile {
+  return {
+    doc: docName,
+    version: CURRENT_SIDECAR_VERSION,
+    comments: [],
+  };
+}
+
+/**
+ * Add a new comment thread to a sidecar
+ */
+export function addThread(sidecar: SidecarFile, thread: Omit<CommentThread, 'id'>): CommentThread {
+  const newThread: CommentThread = {
+    ...thread,
+    id: uuidv4(),
+  };
+  sidecar.comments.push(newThread);
+  return newThread;
+}
+
+/**
+ * Add a reply to an existing thread
+ */
+export function addReply(sidecar: SidecarFile, threadId: string, entry: Omit<CommentEntry, 'id'>): CommentEntry | null {
+  const thread = sidecar.comments.find(t => t.id === threadId);
+  if (!thread) {
+    return null;
+  }
+
+  const newEntry: CommentEntry = {
+    ...entry,
+    id: uuidv4(),
+  };
+  thread.thread.push(newEntry);
+  return newEntry;
+}
+
+/**
+ * Whether a thread or comment has been deleted. Deleted ones are kept as
+ * tombstones (for the audit trail and so merges do not resurrect them)
+ * until {@link purgeTombstones} drops them.
+ */
+export function isDeleted(item: CommentThread | CommentEntry): boolean {
+  return item.deletedAt !== undefined;
+}
+
+/**
+ * A comment's current body as a history revision
+ */
+export function currentRevision(entry: CommentEntry): CommentRevision {
+  return { body: entry.body, written: entry.edited ?? entry.created };
+}
+
+/**
+ * The threads that have not been deleted
+ */
+export function liveThreads(sidecar: SidecarFile): CommentThread[] {
+  return sidecar.comments.filter(t => !isDeleted(t));
+}
+
+/**
+ * Delete a thread, leaving a tombstone that records who deleted it and when.
+ * Returns false if it does not exist or is already deleted.
+ */
+export function deleteThread(sidecar: SidecarFile, threadId: string, deletedBy: string): boolean {
+  const thread = sidecar.comments.find(t => t.id === threadId);
+  if (!thread || isDeleted(thread)) {
+    return false;
+  }
+  thread.deletedBy = deletedBy;
+  thread.deletedAt = new Date().toISOString();
+  return true;
+}
+
+/**
+ * Delete a single comment entry from a thread by index, leaving a tombstone.
+ * Once every comment in the thread is deleted, the thread is deleted too.
+ * Returns true if something was deleted.
+ */
+export function deleteComment(sidecar: SidecarFile, threadId: string, commentIndex: number, deletedBy: string): boolean {
+  const thread = sidecar.comments.find(t => t.id === threadId);
+  const entry = thread?.thread[commentIndex];
+  if (!thread || !entry || isDeleted(entry)) {
+    return false;
+  }
+  entry.deletedBy = deletedBy;
+  entry.deletedAt = new Date().toISOString();
+  if (thread.thread.every(isDeleted)) {
+    deleteThread(sidecar, threadId, deletedBy);
+  }
+  return true;
+}
+
+/**
+ * Delete a single comment entry from a thread by comment ID, leaving a tombstone.
+ * Once every comment in the thread is deleted, the thread is deleted too.
+ * Returns true if something was deleted.
+ */
+export function deleteCommentById(sidecar: SidecarFile, threadId: string, commentId: string, deletedBy: string): boolean {
+  const thread = sidecar.comments.find(t => t.id === threadId);
+  if (!thread) { return false; }
+  const idx = thread.thread.findIndex(c => c.id === commentId);
+  if (idx === -1) { return false; }
+  return deleteComment(sidecar, threadId, idx, deletedBy);
+}
+
+/**
+ * Permanently remove tombstones deleted before `cutoff`: whole threads, and
+ * comments inside live threads. Returns how many were removed.
+ */
+export function purgeTombstones(sidecar: SidecarFile, cutoff: Date): number {
+  const expired = (item: CommentThread | CommentEntry) =>
+    isDeleted(item) && new Date(item.deletedAt!).getTime() < cutoff.getTime();
+  let purged = 0;
+  sidecar.comments = sidecar.comments.filter(thread => {
+    if (expired(thread)) {
+      purged++;
+      return false;
+    }
+    // A thread needs at least one entry, so its first comment always stays
+    const kept = thread.thread.filter((entry, i) => i === 0 || !expired(entry));
+    purged += thread.thread.length - kept.length;
+    thread.thread = kept;
+    return true;
+  });
+  return purged;
+}
+
+/**
+ * Toggle an emoji reaction on a comment. Returns true if added, false if removed.
+ * Emojis left without reactors are dropped from the map.
+ */
+export function toggleReaction(
+  sidecar: SidecarFile,
+  threadId: string,
+  commentId: string,
+  author: string,
+  emoji: string = DEFAULT_REACTION,
+): boolean {
+  const thread = sidecar.comments.find(t => t.id === threadId);
+  if (!thread) { return false; }
+  const comment = thread.thread.find(c => c.id === commentId);
+  if (!comment) { return false; }
+  if (!comment.reactions) { comment.reactions = {}; }
+  const authors = comment.reactions[emoji] ?? [];
+  const idx = authors.indexOf(author);
+  if (idx === -1) {
+    comment.reactions[emoji] = [...authors, author];
+    return true;
+  }
+  authors.splice(idx, 1);
+  if (authors.length === 0) {
+    delete comment.reactions[emoji];
+  }
+  if (Object.keys(comment.reactions).length === 0) {
+    delete comment.reactions;
+  }
+  return false;
+}
+
+/**
+ * Edit the body of an existing comment entry.
+ * The previous body is appended to `history` and the `edited` timestamp set.
+ * Returns the updated entry or null.
+ */
+export function editComment(sidecar: SidecarFile, threadId: string, commentId: string, newBody: string): CommentEntry | null {
+  const thread = sidecar.comments.find(t => t.id === threadId);
+  if (!thread) { return null; }
+  const entry = thread.thread.find(c => c.id === commentId);
+  if (!entry || isDeleted(entry)) { return null; }
+  entry.history = [...entry.history ?? [], currentRevision(entry)];
+  entry.body = newBody;
+  entry.edited = new Date().toISOString();
+  return entry;
+}
+
+/**
+ * Mark a thread as resolved, stamping who resolved it and when.
+ * Returns the updated thread, or null if it does not exist.
+ */
+export function resolveThread(sidecar: SidecarFile, threadId: string, author: string): CommentThread | null {
+  const thread = sidecar.comments.find(t => t.id === threadId);
+  if (!thread) { return null; }
+  thread.status = 'resolved';
+  thread.resolvedBy = author;
+  thread.resolvedAt = new Date().toISOString();
+  return thread;
+}
+
+/**
+ * Reopen a resolved thread and clear its resolution metadata.
+ * Returns the updated thread, or null if it does not exist.
+ */
+export function reopenThread(sidecar: SidecarFile, threadId: string): CommentThread | null {
+  const thread = sidecar.comments.find(t => t.id === threadId);
+  if (!thread) { return null; }
+  thread.status = 'open';
+  delete thread.resolvedBy;
+  delete thread.resolvedAt;
+  return thread;
+}
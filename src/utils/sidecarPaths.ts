@@ -0,0 +1,106 @@
+import * as path from 'path';
+
+/** Where sidecar files live relative to their documents. */
+export type StorageMode = 'adjacent' | 'centralized';
+
+/** Resolved storage settings (see `markdownReview.storage` / `markdownReview.storageDirectory`). */
+export interface StorageLayout {
+  mode: StorageMode;
+  /** Directory, relative to the workspace folder, that mirrors the doc tree in `centralized` mode */
+  directory: string;
+  /** Absolute workspace folder paths; documents outside all of them stay adjacent */
+  roots: string[];
+}
+
+export const SIDECAR_SUFFIX = '.comments.json';
+
+export const DEFAULT_STORAGE_DIRECTORY = '.reviews';
+
+/** The default layout: sidecars next to their documents. */
+export const ADJACENT_LAYOUT: StorageLayout = { mode: 'adjacent', directory: DEFAULT_STORAGE_DIRECTORY, roots: [] };
+
+/** True when `child` is `parent` or lies beneath it. */
+function isWithin(parent: string, child: string): boolean {
+  const rel = path.relative(parent, child);
+  return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+}
+
+/** Deepest workspace root containing `filePath`, if any. */
+function rootFor(layout: StorageLayout, filePath: string): string | undefined {
+  return layout.roots
+    .filter(root => isWithin(root, filePath))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+/**
+ * Sidecar path for a markdown document under the given layout.
+ *
+ * `adjacent`: `docs/guide.md` → `docs/guide.comments.json`
+ * `centralized`: `docs/guide.md` → `<root>/.reviews/docs/guide.comments.json`
+ */
+export function sidecarPathFor(docPath: string, layout: StorageLayout): string {
+  const base = path.basename(docPath, '.md') + SIDECAR_SUFFIX;
+  const root = layout.mode === 'centralized' ? rootFor(layout, docPath) : undefined;
+  if (!root) {
+    return path.join(path.dirname(docPath), base);
+  }
+  const relDir = path.relative(root, path.dirname(docPath));
+  return path.join(root, layout.directory, relDir, base);
+}
+
+/** Inverse of {@link sidecarPathFor}: the markdown document a sidecar belongs to. */
+export function docPathFor(sidecarPath: string, layout: StorageLayout): string {
+  const base = path.basename(sidecarPath, SIDECAR_SUFFIX) + '.md';
+  if (layout.mode === 'centralized') {
+    for (const root of [...layout.roots].sort((a, b) => b.length - a.length)) {
+      const storageRoot = path.join(root, layout.directory);
+      if (isWithin(storageRoot, sidecarPath)) {
+        return path.join(root, path.relative(storageRoot, path.dirname(sidecarPath)), base);
+      }
+    }
+  }
+  return path.join(path.dirname(sidecarPath), base);
+}
+
+/**
+ * Glob matching every sidecar under the layout. Leading `**` keeps it valid
+ * for `createFileSystemWatcher`, which matches against absolute paths.
+ */
+export function sidecarGlob(layout: StorageLayout): string {
+  if (layout.mode === 'centralized') {
+    const dir = layout.directory.replace(/\\/g, '/').replace(/^\.\/|\/+$/g, '');
+    return `**/${dir}/**/*${SIDECAR_SUFFIX}`;
+  }
+  return `**/*${SIDECAR_SUFFIX}`;
+}
+
+export interface SidecarMovePlan {
+  /** Sidecars to rename, old path → new path */
+  moves: { from: string; to: string }[];
+  /** Documents whose sidecar exists in both layouts; left alone */
+  conflicts: string[];
+}
+
+/**
+ * Work out which sidecars must move to switch from one layout to another.
+ * Documents without a sidecar in the source layout are skipped.
+ */
+export function planSidecarMoves(
+  docPaths: string[],
+  from: StorageLayout,
+  to: StorageLayout,
+  exists: (filePath: string) => boolean,
+): SidecarMovePlan {
+  const plan: SidecarMovePlan = { moves: [], conflicts: [] };
+  for (const docPath of docPaths) {
+    const source = sidecarPathFor(docPath, from);
+    const target = sidecarPathFor(docPath, to);
+    if (source === target || !exists(source)) { continue; }
+    if (exists(target)) {
+      plan.conflicts.push(docPath);
+    } else {
+      plan.moves.push({ from: source, to: target });
+    }
+  }
+  return plan;
+}
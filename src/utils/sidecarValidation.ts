@@ -0,0 +1,313 @@
+import type { AnchorKind, AnchorStrategy, BlockType, CommentThread, SidecarFile, ThreadStatus } from '../models/types';
+import { CURRENT_SIDECAR_VERSION } from './sidecarMigration';
+
+/** A single structural problem, located by a JSON path such as `comments[2].anchor.markdownRange`. */
+export interface SidecarValidationError {
+  /** Path to the offending value (`""` for the file root) */
+  path: string;
+  /** Human-readable description of what is wrong */
+  message: string;
+  /** ID of the thread the error belongs to, when it could be read */
+  threadId?: string;
+}
+
+/** Outcome of validating a parsed (and already migrated) sidecar. */
+export interface SidecarValidationResult {
+  /**
+   * The loadable sidecar containing only the valid threads, or null when the
+   * file-level fields (`doc`, `version`, `comments`) are themselves broken.
+   */
+  sidecar: SidecarFile | null;
+  /** Raw threads that failed validation, kept verbatim so they can be written back */
+  quarantined: unknown[];
+  /** Every problem found, file-level and per-thread */
+  errors: SidecarValidationError[];
+}
+
+const THREAD_STATUSES: readonly ThreadStatus[] = ['open', 'resolved', 'stale'];
+const ANCHOR_STRATEGIES: readonly AnchorStrategy[] = [
+  'offsets', 'nearby', 'context', 'prefix', 'suffix', 'global', 'fuzzy', 'history', 'heading',
+];
+const ANCHOR_KINDS: readonly AnchorKind[] = ['text', 'section', 'block', 'codeLine', 'tableCell', 'document'];
+const BLOCK_TYPES: readonly BlockType[] = ['paragraph', 'listItem', 'table', 'code', 'image', 'diagram'];
+
+type Obj = Record<string, unknown>;
+
+function isObject(value: unknown): value is Obj {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Collects errors for one subtree. Helpers return false on failure so callers
+ * can skip checks that would only produce follow-on noise.
+ */
+class ErrorSink {
+  readonly errors: SidecarValidationError[] = [];
+
+  constructor(private readonly threadId?: string) {}
+
+  add(path: string, message: string): false {
+    this.errors.push(this.threadId !== undefined ? { path, message, threadId: this.threadId } : { path, message });
+    return false;
+  }
+
+  object(obj: Obj, key: string, base: string): Obj | undefined {
+    const value = obj[key];
+    if (!isObject(value)) {
+      this.add(`${base}.${key}`, value === undefined ? 'is required' : 'must be an object');
+      return undefined;
+    }
+    return value;
+  }
+
+  string(obj: Obj, key: string, base: string, opts: { optional?: boolean; nullable?: boolean } = {}): boolean {
+    const value = obj[key];
+    if (value === undefined && opts.optional) { return true; }
+    if (value === null && opts.nullable) { return true; }
+    if (typeof value === 'string') { return true; }
+    if (value === undefined) { return this.add(`${base}.${key}`, 'is required'); }
+    return this.add(`${base}.${key}`, opts.nullable ? 'must be a string or null' : 'must be a string');
+  }
+
+  fraction(obj: Obj, key: string, base: string, opts: { optional?: boolean } = {}): boolean {
+    const value = obj[key];
+    if (value === undefined && opts.optional) { return true; }
+    if (typeof value === 'number' && value >= 0 && value <= 1) { return true; }
+    if (value === undefined) { return this.add(`${base}.${key}`, 'is required'); }
+    return this.add(`${base}.${key}`, 'must be a number between 0 and 1');
+  }
+
+  offset(obj: Obj, key: string, base: string): boolean {
+    const value = obj[key];
+    if (typeof value === 'number' && Number.isInteger(value) && value >= 0) { return true; }
+    if (value === undefined) { return this.add(`${base}.${key}`, 'is required'); }
+    return this.add(`${base}.${key}`, 'must be a non-negative integer');
+  }
+}
+
+/**
+ * Validate every field of a parsed sidecar.
+ *
+ * File-level problems make the whole sidecar unloadable. Problems inside a
+ * thread only quarantine that thread — the rest still load. Threads whose
+ * `id` repeats an earlier thread are quarantined too, since every mutation
+ * looks threads up by id.
+ */
+export function validateSidecar(data: unknown): SidecarValidationResult {
+  if (!isObject(data)) {
+    return { sidecar: null, quarantined: [], errors: [{ path: '', message: 'must be a JSON object' }] };
+  }
+
+  const root = new ErrorSink();
+  if (typeof data.doc !== 'string') {
+    root.add('doc', data.doc === undefined ? 'is required' : 'must be a string');
+  }
+  if (data.version !== CURRENT_SIDECAR_VERSION) {
+    root.add('version', `must be "${CURRENT_SIDECAR_VERSION}"`);
+  }
+  if (!Array.isArray(data.comments)) {
+    root.add('comments', data.comments === undefined ? 'is required' : 'must be an array');
+  }
+  if (root.errors.length > 0) {
+    return { sidecar: null, quarantined: [], errors: root.errors };
+  }
+
+  const comments: CommentThread[] = [];
+  const quarantined: unknown[] = [];
+  const errors: SidecarValidationError[] = [];
+  const seenIds = new Set<string>();
+
+  (data.comments as unknown[]).forEach((raw, index) => {
+    const threadErrors = validateThread(raw, `comments[${index}]`);
+    const id = isObject(raw) && typeof raw.id === 'string' ? raw.id : undefined;
+    if (threadErrors.length === 0 && id !== undefined && seenIds.has(id)) {
+      threadErrors.push({ path: `comments[${index}].id`, message: `duplicates an earlier thread id "${id}"`, threadId: id });
+    }
+    if (threadErrors.length > 0) {
+      quarantined.push(raw);
+      errors.push(...threadErrors);
+      return;
+    }
+    seenIds.add(id!);
+    comments.push(raw as unknown as CommentThread);
+  });
+
+  return {
+    sidecar: { doc: data.doc as string, version: CURRENT_SIDECAR_VERSION, comments },
+    quarantined,
+    errors,
+  };
+}
+
+/**
+ * Validate a single thread against {@link CommentThread}.
+ * @param base JSON path of the thread, used to prefix every error.
+ */
+export function validateThread(raw: unknown, base: string): SidecarValidationError[] {
+  if (!isObject(raw)) {
+    return [{ path: base, message: 'must be an object' }];
+  }
+  const sink = new ErrorSink(typeof raw.id === 'string' ? raw.id : undefined);
+
+  sink.string(raw, 'id', base);
+
+  if (!THREAD_STATUSES.includes(raw.status as ThreadStatus)) {
+    sink.add(`${base}.status`, `must be one of ${THREAD_STATUSES.map(s => `"${s}"`).join(', ')}`);
+  }
+  sink.string(raw, 'color', base, { optional: true });
+  sink.string(raw, 'resolvedBy', base, { optional: true });
+  sink.string(raw, 'resolvedAt', base, { optional: true });
+  sink.string(raw, 'deletedBy', base, { optional: true });
+  sink.string(raw, 'deletedAt', base, { optional: true });
+  sink.string(raw, 'suggestion', base, { optional: true });
+
+  const anchor = sink.object(raw, 'anchor', base);
+  if (anchor) {
+    validateAnchor(anchor, `${base}.anchor`, sink);
+  }
+
+  if (raw.anchorHistory !== undefined) {
+    if (!Array.isArray(raw.anchorHistory)) {
+      sink.add(`${base}.anchorHistory`, 'must be an array');
+    } else {
+      raw.anchorHistory.forEach((revision, i) => {
+        const revisionBase = `${base}.anchorHistory[${i}]`;
+        if (!isObject(revision)) {
+          sink.add(revisionBase, 'must be an object');
+          return;
+        }
+        const previous = sink.object(revision, 'anchor', revisionBase);
+        if (previous) {
+          validateAnchor(previous, `${revisionBase}.anchor`, sink);
+        }
+        sink.string(revision, 'replacedBy', revisionBase);
+        sink.string(revision, 'replacedAt', revisionBase);
+      });
+    }
+  }
+
+  if (!Array.isArray(raw.thread)) {
+    sink.add(`${base}.thread`, raw.thread === undefined ? 'is required' : 'must be an array');
+  } else if (raw.thread.length === 0) {
+    sink.add(`${base}.thread`, 'must contain at least one comment');
+  } else {
+    raw.thread.forEach((entry, i) => validateEntry(entry, `${base}.thread[${i}]`, sink));
+  }
+
+  return sink.errors;
+}
+
+function validateAnchor(anchor: Obj, base: string, sink: ErrorSink): void {
+  sink.string(anchor, 'selectedText', base);
+  sink.string(anchor, 'displayText', base, { optional: true });
+  sink.string(anchor, 'commit', base, { optional: true });
+
+  const context = sink.object(anchor, 'textContext', base);
+  if (context) {
+    sink.string(context, 'prefix', `${base}.textContext`);
+    sink.string(context, 'suffix', `${base}.textContext`);
+  }
+
+  const range = sink.object(anchor, 'markdownRange', base);
+  if (range) {
+    const rangeBase = `${base}.markdownRange`;
+    const startOk = sink.offset(range, 'startOffset', rangeBase);
+    const endOk = sink.offset(range, 'endOffset', rangeBase);
+    if (startOk && endOk && (range.endOffset as number) < (range.startOffset as number)) {
+      sink.add(`${rangeBase}.endOffset`, 'must not be less than startOffset');
+    }
+  }
+
+  if (anchor.strategy !== undefined && !ANCHOR_STRATEGIES.includes(anchor.strategy as AnchorStrategy)) {
+    sink.add(`${base}.strategy`, `must be one of ${ANCHOR_STRATEGIES.map(s => `"${s}"`).join(', ')}`);
+  }
+  sink.fraction(anchor, 'confidence', base, { optional: true });
+
+  if (anchor.kind !== undefined && !ANCHOR_KINDS.includes(anchor.kind as AnchorKind)) {
+    sink.add(`${base}.kind`, `must be one of ${ANCHOR_KINDS.map(k => `"${k}"`).join(', ')}`);
+  } else if (anchor.kind === 'section') {
+    const section = sink.object(anchor, 'section', base);
+    if (section) {
+      sink.string(section, 'slug', `${base}.section`);
+      sink.string(section, 'contentHash', `${base}.section`);
+    }
+  } else if (anchor.kind === 'codeLine') {
+    const codeLine = sink.object(anchor, 'codeLine', base);
+    if (codeLine) {
+      sink.offset(codeLine, 'fence', `${base}.codeLine`);
+      sink.string(codeLine, 'language', `${base}.codeLine`);
+      sink.offset(codeLine, 'line', `${base}.codeLine`);
+    }
+  } else if (anchor.kind === 'tableCell') {
+    const tableCell = sink.object(anchor, 'tableCell', base);
+    if (tableCell) {
+      sink.offset(tableCell, 'table', `${base}.tableCell`);
+      sink.offset(tableCell, 'row', `${base}.tableCell`);
+      sink.offset(tableCell, 'column', `${base}.tableCell`);
+      sink.string(tableCell, 'columnHeader', `${base}.tableCell`);
+      sink.string(tableCell, 'rowHeader', `${base}.tableCell`);
+    }
+  } else if (anchor.kind === 'block' && !BLOCK_TYPES.includes(anchor.blockType as BlockType)) {
+    sink.add(`${base}.blockType`, anchor.blockType === undefined
+      ? 'is required'
+      : `must be one of ${BLOCK_TYPES.map(t => `"${t}"`).join(', ')}`);
+  }
+
+  if (anchor.image !== undefined) {
+    const image = sink.object(anchor, 'image', base);
+    if (image) {
+      sink.string(image, 'src', `${base}.image`);
+      sink.string(image, 'alt', `${base}.image`);
+    }
+  }
+  if (anchor.region !== undefined) {
+    const region = sink.object(anchor, 'region', base);
+    if (region) {
+      sink.fraction(region, 'x', `${base}.region`);
+      sink.fraction(region, 'y', `${base}.region`);
+      sink.fraction(region, 'width', `${base}.region`, { optional: true });
+      sink.fraction(region, 'height', `${base}.region`, { optional: true });
+    }
+  }
+}
+
+function validateEntry(entry: unknown, base: string, sink: ErrorSink): void {
+  if (!isObject(entry)) {
+    sink.add(base, 'must be an object');
+    return;
+  }
+  sink.string(entry, 'id', base);
+  sink.string(entry, 'author', base);
+  sink.string(entry, 'body', base);
+  sink.string(entry, 'created', base);
+  sink.string(entry, 'edited', base, { nullable: true });
+  sink.string(entry, 'deletedBy', base, { optional: true });
+  sink.string(entry, 'deletedAt', base, { optional: true });
+
+  if (entry.history !== undefined) {
+    if (!Array.isArray(entry.history)) {
+      sink.add(`${base}.history`, 'must be an array');
+    } else {
+      entry.history.forEach((revision, i) => {
+        const revisionBase = `${base}.history[${i}]`;
+        if (!isObject(revision)) {
+          sink.add(revisionBase, 'must be an object');
+          return;
+        }
+        sink.string(revision, 'body', revisionBase);
+        sink.string(revision, 'written', revisionBase);
+      });
+    }
+  }
+
+  if (entry.reactions === undefined) { return; }
+  if (!isObject(entry.reactions)) {
+    sink.add(`${base}.reactions`, 'must be an object mapping emoji to author lists');
+    return;
+  }
+  for (const [emoji, authors] of Object.entries(entry.reactions)) {
+    if (!Array.isArray(authors) || authors.some(a => typeof a !== 'string')) {
+      sink.add(`${base}.reactions["${emoji}"]`, 'must be an array of strings');
+    }
+  }
+}
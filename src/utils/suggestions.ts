@@ -0,0 +1,52 @@
+/**
+ * Suggested edits: threads whose `suggestion` proposes replacement text for
+ * their anchored range.
+ */
+import type { CommentThread } from '../models/types';
+import { isDeleted } from './sidecarOps';
+
+/** The outcome of {@link applySuggestions} */
+export interface AppliedSuggestions {
+  /** The source with the applied suggestions in place */
+  text: string;
+  /** Threads whose suggestion was applied, in document order */
+  applied: CommentThread[];
+  /** Threads that could not be applied (see {@link applySuggestions}) */
+  skipped: CommentThread[];
+}
+
+/**
+ * Whether a thread's suggestion can be applied to `source` as it is: the
+ * thread is an open, live suggestion and its anchored text is still exactly
+ * at its `markdownRange`. Anchors re-located by a fuzzy match keep their
+ * original text, so they do not qualify until a reviewer confirms them.
+ */
+export function canApplySuggestion(thread: CommentThread, source: string): boolean {
+  const { kind, selectedText, markdownRange } = thread.anchor;
+  return thread.suggestion !== undefined && thread.status === 'open' && !isDeleted(thread) &&
+    kind !== 'document' && source.slice(markdownRange.startOffset, markdownRange.endOffset) === selectedText;
+}
+
+/**
+ * Apply the suggestions of `threads` to `source`. Threads that cannot be
+ * applied ({@link canApplySuggestion}), and threads whose range overlaps one
+ * applied before them in document order, are skipped.
+ */
+export function applySuggestions(source: string, threads: CommentThread[]): AppliedSuggestions {
+  const ordered = [...threads].sort((a, b) => a.anchor.markdownRange.startOffset - b.anchor.markdownRange.startOffset);
+  const applied: CommentThread[] = [];
+  const skipped: CommentThread[] = [];
+  let text = '';
+  let copied = 0;
+  for (const thread of ordered) {
+    const { startOffset, endOffset } = thread.anchor.markdownRange;
+    if (!canApplySuggestion(thread, source) || startOffset < copied) {
+      skipped.push(thread);
+      continue;
+    }
+    text += source.slice(copied, startOffset) + thread.suggestion;
+    copied = endOffset;
+    applied.push(thread);
+  }
+  return { text: text + source.slice(copied), applied, skipped };
+}
@@ -0,0 +1,179 @@
+/**
+ * Track changes: edits a reviewer makes to the rendered text of the preview,
+ * turned into suggested replacements of the markdown source.
+ */
+import { findSelectionInRawMarkdown } from './markdown';
+
+/** A block of the preview edited in track-changes mode */
+export interface BlockEdit {
+  /** First source line of the block (0-based) */
+  startLine: number;
+  /** Line after the block's last source line */
+  endLine: number;
+  /** The block's rendered text before the edit */
+  before: string;
+  /** The block's rendered text after the edit */
+  after: string;
+}
+
+/** A changed stretch of text: `before.slice(start, end)` became `replacement` */
+export interface TextChange {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+/** A change to the markdown source, ready to become a suggestion thread */
+export interface SourceChange {
+  /** Start offset of the replaced source (inclusive) */
+  startOffset: number;
+  /** End offset of the replaced source (exclusive) */
+  endOffset: number;
+  /** The replaced text as the preview showed it */
+  original: string;
+  replacement: string;
+}
+
+/** The outcome of {@link trackedChanges} */
+export interface TrackedChanges {
+  changes: SourceChange[];
+  /** Changes whose text could not be found in the block's source */
+  unmapped: number;
+}
+
+/** Characters that open or close inline markup */
+const INLINE_MARKERS = '*_~`[';
+
+/** Above this many token pairs, the diff falls back to one changed stretch. */
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * The changes between two texts, word by word and in order. Each change
+ * covers at least one whole word of `before`: an insertion takes in the
+ * word before it (or after it, at the very start), so there is always some
+ * old text to anchor it to. Null when `before` is empty.
+ */
+export function diffWords(before: string, after: string): TextChange[] | null {
+  const from = tokens(before);
+  const to = tokens(after);
+  if (from.length === 0) { return null; }
+
+  // Tokens both texts share at either end are left out of the table
+  let head = 0;
+  while (head < from.length && head < to.length && from[head] === to[head]) { head++; }
+  let tail = 0;
+  while (tail < from.length - head && tail < to.length - head &&
+    from[from.length - 1 - tail] === to[to.length - 1 - tail]) { tail++; }
+  const a = from.slice(head, from.length - tail);
+  const b = to.slice(head, to.length - tail);
+
+  // Pairs of equal tokens, by longest common subsequence
+  const pairs: Array<[number, number]> = [];
+  if (a.length * b.length <= MAX_DIFF_CELLS) {
+    const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        pairs.push([head + i++, head + j++]);
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  }
+  pairs.push([from.length - tail, to.length - tail]);
+
+  // Changed stretches as token ranges [oldStart, oldEnd, newStart, newEnd]
+  const hunks: Array<[number, number, number, number]> = [];
+  let i = head;
+  let j = head;
+  for (const [pairI, pairJ] of pairs) {
+    if (pairI > i || pairJ > j) {
+      let hunk: [number, number, number, number] = [i, pairI, j, pairJ];
+      if (i === pairI) {
+        // An insertion: widen to the neighbouring word, and the space between
+        const back = Math.min(i, i > 0 && /\s/.test(from[i - 1]) ? 2 : 1);
+        const ahead = back > 0 ? 0 : Math.min(from.length - i, /\s/.test(from[i]) ? 2 : 1);
+        hunk = [i - back, i + ahead, j - back, pairJ + ahead];
+      }
+      // Widening can run into the previous stretch; the tokens between are
+      // equal on both sides, so the two merge into one
+      const last = hunks[hunks.length - 1];
+      if (last && hunk[0] < last[1]) {
+        last[1] = Math.max(last[1], hunk[1]);
+        last[3] = Math.max(last[3], hunk[3]);
+      } else {
+        hunks.push(hunk);
+      }
+    }
+    i = pairI + 1;
+    j = pairJ + 1;
+  }
+
+  const starts = offsets(from);
+  return hunks.map(([oldStart, oldEnd, newStart, newEnd]) => ({
+    start: starts[oldStart],
+    end: starts[oldEnd],
+    replacement: to.slice(newStart, newEnd).join(''),
+  }));
+}
+
+/**
+ * The source changes for an edited block of `source`. Each changed stretch
+ * of rendered text is looked up in the block's own source lines, nearest
+ * its rendered position; a stretch that spans inline markup (emphasis,
+ * links) replaces that markup too. Changes are returned in order, without
+ * overlaps.
+ */
+export function trackedChanges(source: string, edit: BlockEdit): TrackedChanges {
+  const lines = source.split('\n');
+  const blockStart = lines.slice(0, edit.startLine).reduce((sum, line) => sum + line.length + 1, 0);
+  const blockEnd = Math.min(source.length, lines.slice(0, edit.endLine).reduce((sum, line) => sum + line.length + 1, 0));
+  const block = source.slice(blockStart, blockEnd);
+
+  const result: TrackedChanges = { changes: [], unmapped: 0 };
+  let copied = 0;
+  for (const change of diffWords(edit.before, edit.after) ?? []) {
+    const original = edit.before.slice(change.start, change.end);
+    const match = findSelectionInRawMarkdown(original, block, change.start);
+    let start = match?.start ?? -1;
+    let end = start + (match?.text.length ?? 0);
+    if (match && match.text !== original) {
+      // Matched through markup: take in the markers at either end, so the
+      // replacement does not leave half an emphasis or link behind
+      while (start > 0 && INLINE_MARKERS.includes(block[start - 1])) { start--; }
+      while (end < block.length && INLINE_MARKERS.includes(block[end]) && block[end] !== '[') { end++; }
+    }
+    if (!match || start < copied) {
+      result.unmapped++;
+      continue;
+    }
+    copied = end;
+    result.changes.push({
+      startOffset: blockStart + start,
+      endOffset: blockStart + end,
+      original,
+      replacement: change.replacement,
+    });
+  }
+  return result;
+}
+
+/** Words and the whitespace between them, in order */
+function tokens(text: string): string[] {
+  return text.match(/\s+|\S+/g) ?? [];
+}
+
+/** Start offset of each token, plus the end of the text */
+function offsets(parts: string[]): number[] {
+  const starts = [0];
+  for (const part of parts) { starts.push(starts[starts.length - 1] + part.length); }
+  return starts;
+}